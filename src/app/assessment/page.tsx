@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { v4 as uuidv4 } from 'uuid';
+import { romTests, getRomTestById } from '@/data/romTests';
+import { RomCapture, percentOfNormal } from '@/lib/RomAssessment';
+import { saveRomAssessment } from '@/lib/db';
+import { PoseData, RomMeasurement, RomTestDefinition } from '@/types';
+import type { WebcamCanvasProps } from '@/components/WebcamCanvas';
+
+const WebcamCanvas = dynamic<WebcamCanvasProps>(() => import('@/components/WebcamCanvas'), {
+    ssr: false,
+    loading: () => (
+        <div className="w-full aspect-video bg-slate-900 rounded-2xl flex items-center justify-center">
+            <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+        </div>
+    )
+});
+
+const SIDES: ('left' | 'right')[] = ['left', 'right'];
+
+interface AssessmentStep {
+    test: RomTestDefinition;
+    side: 'left' | 'right';
+}
+
+export default function AssessmentPage() {
+    const [selected, setSelected] = useState<string[]>(romTests.map(t => t.id));
+    const [stage, setStage] = useState<'select' | 'measuring' | 'results'>('select');
+    const [steps, setSteps] = useState<AssessmentStep[]>([]);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [liveAngle, setLiveAngle] = useState<number | null>(null);
+    const [peakAngle, setPeakAngle] = useState<number | null>(null);
+    const [results, setResults] = useState<RomMeasurement[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const captureRef = useRef<RomCapture | null>(null);
+    const assessmentIdRef = useRef('');
+
+    const step = steps[stepIndex];
+
+    const handlePoseDetected = useCallback((pose: PoseData | null) => {
+        if (!pose || !isCapturing || !captureRef.current) return;
+        setLiveAngle(captureRef.current.addFrame(pose.landmarks));
+        setPeakAngle(captureRef.current.getPeak());
+    }, [isCapturing]);
+
+    const toggleTest = (id: string) => {
+        setSelected(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+    };
+
+    const handleBegin = () => {
+        // Keep the catalogue order so tests sharing a camera view stay together
+        const chosen = romTests.filter(t => selected.includes(t.id));
+        setSteps(chosen.flatMap(test => SIDES.map(side => ({ test, side }))));
+        setStepIndex(0);
+        setResults([]);
+        assessmentIdRef.current = uuidv4();
+        setStage('measuring');
+    };
+
+    const handleCaptureStart = () => {
+        if (!step) return;
+        captureRef.current = new RomCapture(step.test, step.side);
+        setLiveAngle(null);
+        setPeakAngle(null);
+        setIsCapturing(true);
+    };
+
+    const advance = async (measurement: RomMeasurement | null) => {
+        setIsCapturing(false);
+        captureRef.current = null;
+        const nextResults = measurement ? [...results, measurement] : results;
+        setResults(nextResults);
+
+        if (stepIndex + 1 < steps.length) {
+            setStepIndex(stepIndex + 1);
+            setLiveAngle(null);
+            setPeakAngle(null);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (nextResults.length > 0) await saveRomAssessment(nextResults);
+        } catch (error) {
+            console.error('Failed to save ROM assessment:', error);
+        } finally {
+            setIsSaving(false);
+            setStage('results');
+        }
+    };
+
+    const handleAccept = () => {
+        if (!step || peakAngle === null) return;
+        advance({
+            assessmentId: assessmentIdRef.current,
+            date: new Date(),
+            testId: step.test.id,
+            side: step.side,
+            peakAngle,
+            normalRange: step.test.normalRange,
+        });
+    };
+
+    return (
+        <main className="min-h-screen bg-slate-950 pb-20">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center gap-4">
+                        <Link
+                            href="/"
+                            className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                        >
+                            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </Link>
+                        <div>
+                            <h1 className="text-xl font-bold text-white">Range of Motion Assessment</h1>
+                            <p className="text-sm text-slate-400">
+                                {stage === 'measuring' && step
+                                    ? `Test ${stepIndex + 1} of ${steps.length}`
+                                    : 'Measure peak active ROM per joint and side'}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+                {stage === 'select' && (
+                    <div className="glass rounded-2xl p-6 space-y-4">
+                        <p className="text-slate-400 text-sm">
+                            Choose the tests to run. Each one is measured on the left side, then the right.
+                            Move only as far as is comfortable; this records what you can do today, not a target.
+                        </p>
+                        <div className="grid sm:grid-cols-2 gap-3">
+                            {romTests.map(test => (
+                                <button
+                                    key={test.id}
+                                    onClick={() => toggleTest(test.id)}
+                                    className={`flex items-center gap-3 p-4 rounded-xl border text-left transition-colors ${selected.includes(test.id)
+                                        ? 'bg-cyan-500/10 border-cyan-500/40'
+                                        : 'bg-slate-800/50 border-slate-700/50'
+                                        }`}
+                                >
+                                    <span className="text-2xl">{test.icon}</span>
+                                    <div className="flex-1">
+                                        <p className="text-white font-semibold">{test.name}</p>
+                                        <p className="text-xs text-slate-400">
+                                            {test.cameraView === 'side' ? 'Side-on to camera' : 'Facing camera'} • normal {test.normalRange}°
+                                        </p>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex justify-end">
+                            <button onClick={handleBegin} disabled={selected.length === 0} className="btn-primary disabled:opacity-50">
+                                Begin Assessment
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {stage === 'measuring' && step && (
+                    <>
+                        <div className="relative">
+                            <WebcamCanvas onPoseDetected={handlePoseDetected} showLandmarks={true} width={640} height={480} />
+
+                            {isCapturing && (
+                                <div className="absolute top-4 left-4 right-4 z-30 flex items-center gap-4 bg-slate-950/80 backdrop-blur-xl border border-cyan-500/40 rounded-2xl px-5 py-3">
+                                    <div className="w-3 h-3 rounded-full bg-red-500 animate-pulse" />
+                                    <p className="flex-1 text-white font-semibold text-sm">
+                                        {step.test.name} • {step.side}
+                                    </p>
+                                    <div className="text-right font-mono">
+                                        <p className="text-cyan-400 font-bold">{liveAngle !== null ? `${Math.round(liveAngle)}°` : '--'}</p>
+                                        <p className="text-slate-500 text-xs">peak {peakAngle !== null ? `${peakAngle}°` : '--'}</p>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="glass rounded-2xl p-6 space-y-4">
+                            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                                <span className="text-2xl">{step.test.icon}</span>
+                                {step.test.name} — {step.side === 'left' ? 'Left' : 'Right'} side
+                            </h2>
+                            <ol className="list-decimal list-inside space-y-1 text-sm text-slate-300">
+                                {step.test.instructions.map((line, i) => (
+                                    <li key={i}>{line}</li>
+                                ))}
+                            </ol>
+                            <div className="flex flex-wrap justify-end gap-3">
+                                <button onClick={() => advance(null)} className="btn-secondary">
+                                    Skip
+                                </button>
+                                {isCapturing ? (
+                                    <>
+                                        <button onClick={handleCaptureStart} className="btn-secondary">
+                                            Retry
+                                        </button>
+                                        <button onClick={handleAccept} disabled={peakAngle === null || isSaving} className="btn-primary disabled:opacity-50">
+                                            {peakAngle !== null ? `Record ${peakAngle}°` : 'Waiting for joint...'}
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button onClick={handleCaptureStart} className="btn-primary">
+                                        Start Measuring
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {stage === 'results' && (
+                    <div className="glass rounded-2xl p-6 space-y-4">
+                        <h2 className="text-lg font-semibold text-white">Goniometry Report</h2>
+                        {results.length === 0 ? (
+                            <p className="text-slate-400 text-sm">No measurements were recorded.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-slate-400 border-b border-slate-700/50">
+                                            <th className="py-2 pr-4">Test</th>
+                                            <th className="py-2 pr-4 text-right">Left</th>
+                                            <th className="py-2 pr-4 text-right">Right</th>
+                                            <th className="py-2 pr-4 text-right">Normal</th>
+                                            <th className="py-2 text-right">L/R difference</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {Array.from(new Set(results.map(r => r.testId))).map(testId => {
+                                            const test = getRomTestById(testId);
+                                            if (!test) return null;
+                                            const left = results.find(r => r.testId === testId && r.side === 'left');
+                                            const right = results.find(r => r.testId === testId && r.side === 'right');
+                                            const cell = (m?: RomMeasurement) => m
+                                                ? `${m.peakAngle}° (${percentOfNormal(test, m.peakAngle)}%)`
+                                                : '--';
+                                            return (
+                                                <tr key={testId} className="border-b border-slate-800/50">
+                                                    <td className="py-2 pr-4 text-white">{test.name}</td>
+                                                    <td className="py-2 pr-4 text-right font-mono text-slate-300">{cell(left)}</td>
+                                                    <td className="py-2 pr-4 text-right font-mono text-slate-300">{cell(right)}</td>
+                                                    <td className="py-2 pr-4 text-right font-mono text-slate-500">{test.normalRange}°</td>
+                                                    <td className="py-2 text-right font-mono text-slate-300">
+                                                        {left && right ? `${Math.abs(left.peakAngle - right.peakAngle)}°` : '--'}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                        <p className="text-xs text-slate-500">
+                            Camera-based estimates; expect several degrees of error compared with a clinical goniometer.
+                        </p>
+                        <div className="flex justify-end gap-3">
+                            <button onClick={() => setStage('select')} className="btn-secondary">
+                                New Assessment
+                            </button>
+                            <Link href="/dashboard" className="btn-primary">
+                                View Progress
+                            </Link>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { DEFAULT_DTW_BENCHMARK, DTWBenchmarkMethod, DTWBenchmarkResult, FRAME_BUDGET_MS, runDTWBenchmark } from '@/lib/DTWBenchmark';
+
+const methodLabels: Record<DTWBenchmarkMethod, string> = {
+    full: 'Full recompute',
+    banded: `Banded recompute (${Math.round(DEFAULT_DTW_BENCHMARK.band * 100)}%)`,
+    streaming: 'Streaming',
+};
+
+export default function BenchmarkPage() {
+    const [results, setResults] = useState<DTWBenchmarkResult[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const handleRun = () => {
+        setIsRunning(true);
+        // Yield so the spinner paints before the synchronous run blocks the main thread
+        setTimeout(() => {
+            setResults(runDTWBenchmark());
+            setIsRunning(false);
+        }, 50);
+    };
+
+    return (
+        <main className="min-h-screen pb-20">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                            <Link
+                                href="/"
+                                className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                            >
+                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                                </svg>
+                            </Link>
+                            <div>
+                                <h1 className="text-xl font-bold text-white">DTW Benchmark</h1>
+                                <p className="text-sm text-slate-400">
+                                    Per-frame cost of a {DEFAULT_DTW_BENCHMARK.userFrames}-frame rep on this device
+                                </p>
+                            </div>
+                        </div>
+                        <button onClick={handleRun} disabled={isRunning} className="btn-primary disabled:opacity-50">
+                            {isRunning ? 'Running...' : 'Run'}
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {isRunning ? (
+                    <div className="flex justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+                    </div>
+                ) : results.length === 0 ? (
+                    <div className="glass rounded-2xl p-8 text-center text-slate-400">
+                        Run the benchmark to time full, banded and streaming DTW against gold standards of{' '}
+                        {DEFAULT_DTW_BENCHMARK.goldLengths.join(', ')} frames.
+                    </div>
+                ) : (
+                    <div className="glass rounded-2xl p-6 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-slate-400 border-b border-slate-700/50">
+                                    <th className="py-2 pr-4">Gold frames</th>
+                                    <th className="py-2 pr-4">Method</th>
+                                    <th className="py-2 pr-4 text-right">Mean ms/frame</th>
+                                    <th className="py-2 pr-4 text-right">Worst ms/frame</th>
+                                    <th className="py-2 text-right">Score</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.map((r) => (
+                                    <tr key={`${r.goldFrames}-${r.method}`} className="border-b border-slate-800/50">
+                                        <td className="py-2 pr-4 text-white font-mono">{r.goldFrames}</td>
+                                        <td className="py-2 pr-4 text-slate-300">{methodLabels[r.method]}</td>
+                                        <td className="py-2 pr-4 text-right font-mono text-white">{r.msPerFrame.toFixed(3)}</td>
+                                        <td className={`py-2 pr-4 text-right font-mono ${r.maxMsPerFrame > FRAME_BUDGET_MS ? 'text-red-400' : 'text-green-400'}`}>
+                                            {r.maxMsPerFrame.toFixed(3)}
+                                        </td>
+                                        <td className="py-2 text-right font-mono text-slate-300">{r.qualityScore}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-slate-500 mt-4">
+                            Red marks a frame that would blow the {FRAME_BUDGET_MS.toFixed(1)} ms budget of 24 FPS on its own.
+                        </p>
+                    </div>
+                )}
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { loadCustomExercises, saveCustomExercise, deleteCustomExercise } from '@/lib/db';
+import { ExerciseDefinition } from '@/types';
+import CustomExerciseBuilder from '@/components/CustomExerciseBuilder';
+
+export default function CustomExercisesPage() {
+    const [customExercises, setCustomExercises] = useState<ExerciseDefinition[]>([]);
+    const [editing, setEditing] = useState<ExerciseDefinition | 'new' | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = async () => {
+        try {
+            setCustomExercises(await loadCustomExercises());
+        } catch (error) {
+            console.error('Failed to load custom exercises:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleSave = async (exercise: ExerciseDefinition) => {
+        await saveCustomExercise(exercise);
+        setEditing(null);
+        await refresh();
+    };
+
+    const handleDelete = async (exercise: ExerciseDefinition) => {
+        if (!window.confirm(`Delete "${exercise.name}"? Past sessions are kept.`)) return;
+        await deleteCustomExercise(exercise.id);
+        await refresh();
+    };
+
+    return (
+        <main className="min-h-screen pb-20">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                            <Link
+                                href="/"
+                                className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                            >
+                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                                </svg>
+                            </Link>
+                            <div>
+                                <h1 className="text-xl font-bold text-white">Custom Exercises</h1>
+                                <p className="text-sm text-slate-400">Prescribe movements beyond the built-in library</p>
+                            </div>
+                        </div>
+                        {editing === null && (
+                            <button onClick={() => setEditing('new')} className="btn-primary">
+                                New Exercise
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {editing !== null ? (
+                    <CustomExerciseBuilder
+                        initial={editing === 'new' ? undefined : editing}
+                        onSave={handleSave}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : isLoading ? (
+                    <div className="flex justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+                    </div>
+                ) : customExercises.length === 0 ? (
+                    <div className="glass rounded-3xl p-12 text-center">
+                        <div className="text-5xl mb-4">🩺</div>
+                        <p className="text-white font-semibold mb-2">No custom exercises yet</p>
+                        <p className="text-slate-400 text-sm mb-6">
+                            Define heel slides, wall slides, straight-leg raises or any other movement by its driving joint angle.
+                        </p>
+                        <button onClick={() => setEditing('new')} className="btn-primary">
+                            Create Your First Exercise
+                        </button>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {customExercises.map((exercise) => (
+                            <div key={exercise.id} className="glass rounded-2xl p-4 flex items-center gap-4">
+                                <div className="w-12 h-12 rounded-xl bg-cyan-500/10 flex items-center justify-center text-2xl">
+                                    {exercise.icon}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-white font-semibold truncate">{exercise.name}</p>
+                                    <p className="text-xs text-slate-400 capitalize">
+                                        {exercise.category} • {exercise.difficulty} • {exercise.phaseDirection === 'isometric'
+                                            ? `hold ${exercise.upAngleThreshold}°`
+                                            : `${exercise.downAngleThreshold}° ↔ ${exercise.upAngleThreshold}°`}
+                                    </p>
+                                </div>
+                                <Link href={`/exercise/${exercise.id}`} className="px-4 py-2 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white text-sm font-semibold">
+                                    Start
+                                </Link>
+                                <button
+                                    onClick={() => setEditing(exercise)}
+                                    className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white text-sm transition-colors"
+                                >
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(exercise)}
+                                    className="px-4 py-2 rounded-xl bg-red-500/10 hover:bg-red-500/20 text-red-400 text-sm transition-colors"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </main>
+    );
+}
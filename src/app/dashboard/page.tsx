@@ -18,16 +18,19 @@ import {
     LineChart,
     Line,
 } from 'recharts';
-import { getWeeklyStats, getMonthlyStats, getAllSessions, getCurrentStreak } from '@/lib/db';
-import { DailyStats, WorkoutSession, StreakData } from '@/types';
-import { exercises } from '@/data/exercises';
+import { buildReport, getAllSessions, getCurrentStreak, loadCustomExercises } from '@/lib/db';
+import { ReportData, WorkoutSession, StreakData } from '@/types';
+import { getAllExercises } from '@/data/exercises';
 import StreakCounter from '@/components/StreakCounter';
+import RepAnalysisChart from '@/components/RepAnalysisChart';
+import RomProgressChart from '@/components/RomProgressChart';
+import PainTimelineChart from '@/components/PainTimelineChart';
 
 const COLORS = ['#06b6d4', '#8b5cf6', '#ec4899', '#10b981', '#f59e0b', '#ef4444'];
 
 export default function DashboardPage() {
     const [period, setPeriod] = useState<'week' | 'month'>('week');
-    const [stats, setStats] = useState<DailyStats[]>([]);
+    const [report, setReport] = useState<ReportData | null>(null);
     const [sessions, setSessions] = useState<WorkoutSession[]>([]);
     const [streak, setStreak] = useState<StreakData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -36,11 +39,12 @@ export default function DashboardPage() {
         const loadData = async () => {
             try {
                 setIsLoading(true);
-                const data = period === 'week' ? await getWeeklyStats() : await getMonthlyStats();
+                const data = await buildReport(period);
                 const allSessions = await getAllSessions();
                 const streakData = await getCurrentStreak();
+                await loadCustomExercises();
 
-                setStats(data);
+                setReport(data);
                 setSessions(allSessions);
                 setStreak(streakData);
             } catch (error) {
@@ -52,16 +56,16 @@ export default function DashboardPage() {
         loadData();
     }, [period]);
 
-    // Calculate summary stats
-    const totalReps = stats.reduce((acc, s) => acc + s.totalReps, 0);
-    const totalDuration = stats.reduce((acc, s) => acc + s.totalDuration, 0);
-    const avgFormScore = stats.length > 0
-        ? Math.round(stats.reduce((acc, s) => acc + s.avgFormScore, 0) / stats.length)
-        : 0;
-    const totalWorkouts = stats.reduce((acc, s) => acc + s.exerciseCount, 0);
+    const exercises = getAllExercises();
+
+    // Summary stats for the selected period
+    const totalReps = report?.totalReps ?? 0;
+    const totalDuration = report?.totalDuration ?? 0;
+    const avgFormScore = report?.avgFormScore ?? 0;
+    const totalWorkouts = report?.totalWorkouts ?? 0;
 
     // Prepare chart data
-    const chartData = stats.map(s => ({
+    const chartData = (report?.dailyData ?? []).map(s => ({
         date: new Date(s.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }),
         reps: s.totalReps,
         formScore: s.avgFormScore,
@@ -122,26 +126,35 @@ export default function DashboardPage() {
                             </div>
                         </div>
 
-                        {/* Period Toggle */}
-                        <div className="flex items-center gap-2 bg-slate-800 rounded-xl p-1">
-                            <button
-                                onClick={() => setPeriod('week')}
-                                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${period === 'week'
-                                    ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
-                                    : 'text-slate-400 hover:text-white'
-                                    }`}
-                            >
-                                Weekly
-                            </button>
-                            <button
-                                onClick={() => setPeriod('month')}
-                                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${period === 'month'
-                                    ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
-                                    : 'text-slate-400 hover:text-white'
-                                    }`}
+                        <div className="flex items-center gap-3">
+                            <Link
+                                href="/report"
+                                className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white text-sm transition-colors"
                             >
-                                Monthly
-                            </button>
+                                Printable Report
+                            </Link>
+
+                            {/* Period Toggle */}
+                            <div className="flex items-center gap-2 bg-slate-800 rounded-xl p-1">
+                                <button
+                                    onClick={() => setPeriod('week')}
+                                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${period === 'week'
+                                        ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
+                                        : 'text-slate-400 hover:text-white'
+                                        }`}
+                                >
+                                    Weekly
+                                </button>
+                                <button
+                                    onClick={() => setPeriod('month')}
+                                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${period === 'month'
+                                        ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
+                                        : 'text-slate-400 hover:text-white'
+                                        }`}
+                                >
+                                    Monthly
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -266,6 +279,15 @@ export default function DashboardPage() {
                             </div>
                         </div>
 
+                        {/* Per-rep fatigue and quality across a set */}
+                        <RepAnalysisChart sessions={sessions} exercises={exercises} />
+
+                        {/* Range of motion over time, from assessment mode */}
+                        <RomProgressChart />
+
+                        {/* Pain alerts and halts per session, by exercise */}
+                        <PainTimelineChart sessions={sessions} exercises={exercises} />
+
                         {/* Duration Chart */}
                         <div className="glass rounded-2xl p-6">
                             <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -412,6 +434,9 @@ export default function DashboardPage() {
                             <p className="text-sm text-slate-400">
                                 All your data is stored locally on your device. Nothing is sent to any server.
                             </p>
+                            <Link href="/data" className="text-cyan-400 text-sm hover:underline mt-3 block">
+                                Back up or export your data
+                            </Link>
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,359 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import {
+    disableEncryption,
+    getAllSessions,
+    getAllDailyStats,
+    getEncryptionConfig,
+    loadCustomExercises,
+    lockDatabase,
+    setPassphrase,
+} from '@/lib/db';
+import { toDateKey } from '@/lib/Calendar';
+import {
+    BackupFile,
+    ConflictStrategy,
+    RestorePreview,
+    TableRestoreResult,
+    createBackup,
+    dailyStatsToCsv,
+    parseBackup,
+    previewRestore,
+    restoreBackup,
+    sessionsToCsv,
+} from '@/lib/Backup';
+import { exportFhirBundle, validateFhirBundle } from '@/lib/FhirExport';
+import { getAllExercises } from '@/data/exercises';
+
+function downloadFile(filename: string, content: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+function today(): string {
+    return toDateKey(new Date());
+}
+
+export default function DataPage() {
+    const [pending, setPending] = useState<{ name: string; file: BackupFile; preview: RestorePreview[] } | null>(null);
+    const [strategy, setStrategy] = useState<ConflictStrategy>('keep-local');
+    const [results, setResults] = useState<Record<string, TableRestoreResult> | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [patientIdentifier, setPatientIdentifier] = useState('');
+    const [isEncrypted, setIsEncrypted] = useState(false);
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const run = async (task: () => Promise<void>, failure: string) => {
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            await task();
+        } catch (error) {
+            console.error(`${failure}:`, error);
+            setMessage({ text: `${failure}: ${error instanceof Error ? error.message : String(error)}`, isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    useEffect(() => {
+        getEncryptionConfig()
+            .then(config => setIsEncrypted(!!config))
+            .catch((error) => console.error('Failed to read encryption settings:', error));
+    }, []);
+
+    const handleSetPassphrase = () => run(async () => {
+        if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+            throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        }
+        if (newPassphrase !== confirmPassphrase) throw new Error('Passphrases do not match');
+
+        await setPassphrase(newPassphrase);
+        setNewPassphrase('');
+        setConfirmPassphrase('');
+        setMessage({ text: isEncrypted ? 'Passphrase changed' : 'Your data is now encrypted', isError: false });
+        setIsEncrypted(true);
+    }, 'Encryption failed');
+
+    const handleDisableEncryption = () => {
+        if (!confirm('Store your data without encryption?')) return;
+        run(async () => {
+            await disableEncryption();
+            setIsEncrypted(false);
+            setMessage({ text: 'Encryption turned off', isError: false });
+        }, 'Could not turn off encryption');
+    };
+
+    const handleLock = () => {
+        lockDatabase();
+        window.location.reload();
+    };
+
+    const handleBackup = () => run(async () => {
+        const backup = await createBackup();
+        downloadFile(`physio-ai-backup-${today()}.json`, JSON.stringify(backup), 'application/json');
+    }, 'Backup failed');
+
+    const handleSessionsCsv = () => run(async () => {
+        await loadCustomExercises();
+        const sessions = await getAllSessions();
+        downloadFile(`physio-ai-sessions-${today()}.csv`, sessionsToCsv(sessions, getAllExercises()), 'text/csv');
+    }, 'CSV export failed');
+
+    const handleDailyCsv = () => run(async () => {
+        const stats = await getAllDailyStats();
+        downloadFile(`physio-ai-daily-${today()}.csv`, dailyStatsToCsv(stats), 'text/csv');
+    }, 'CSV export failed');
+
+    const handleFhir = () => run(async () => {
+        const bundle = await exportFhirBundle({ patientIdentifier: patientIdentifier.trim() || undefined });
+        const problems = validateFhirBundle(bundle);
+        if (problems.length > 0) throw new Error(problems.slice(0, 3).join('; '));
+
+        downloadFile(`physio-ai-fhir-${today()}.json`, JSON.stringify(bundle, null, 2), 'application/fhir+json');
+        setMessage({ text: `Exported ${bundle.entry.length - 1} observations`, isError: false });
+    }, 'FHIR export failed');
+
+    const handleFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const chosen = e.target.files?.[0];
+        e.target.value = '';
+        if (!chosen) return;
+
+        run(async () => {
+            const file = parseBackup(JSON.parse(await chosen.text()));
+            setResults(null);
+            setPending({ name: chosen.name, file, preview: await previewRestore(file) });
+        }, 'Could not read backup');
+    };
+
+    const handleRestore = () => {
+        if (!pending) return;
+        run(async () => {
+            setResults(await restoreBackup(pending.file, strategy));
+            setPending(null);
+            setMessage({ text: `Restored ${pending.name}`, isError: false });
+        }, 'Restore failed');
+    };
+
+    const totalConflicts = pending?.preview.reduce((acc, p) => acc + p.conflicts, 0) ?? 0;
+
+    return (
+        <main className="min-h-screen pb-20">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center gap-4">
+                        <Link
+                            href="/dashboard"
+                            className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                        >
+                            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </Link>
+                        <div>
+                            <h1 className="text-xl font-bold text-white">Your Data</h1>
+                            <p className="text-sm text-slate-400">Everything stays on this device unless you export it</p>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+                {message && (
+                    <div className={`px-4 py-3 rounded-xl text-sm border ${message.isError
+                        ? 'bg-red-500/10 border-red-500/30 text-red-400'
+                        : 'bg-green-500/10 border-green-500/30 text-green-400'
+                        }`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {/* Encryption */}
+                <section className="glass rounded-2xl p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">
+                            Passphrase Protection {isEncrypted && <span className="text-sm text-green-400">• On</span>}
+                        </h2>
+                        <p className="text-sm text-slate-400">
+                            Encrypts sessions, daily stats, reps (including pain scores) and ROM results with AES-GCM
+                            using a key derived from your passphrase. You will be asked for it each time the app opens.
+                            There is no recovery: a forgotten passphrase means the data is lost. Backup files are not
+                            encrypted, so keep them somewhere safe.
+                        </p>
+                    </div>
+                    <div className="grid sm:grid-cols-2 gap-3">
+                        <input
+                            type="password"
+                            value={newPassphrase}
+                            onChange={(e) => setNewPassphrase(e.target.value)}
+                            placeholder={isEncrypted ? 'New passphrase' : 'Passphrase'}
+                            autoComplete="new-password"
+                            className="bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500"
+                        />
+                        <input
+                            type="password"
+                            value={confirmPassphrase}
+                            onChange={(e) => setConfirmPassphrase(e.target.value)}
+                            placeholder="Confirm passphrase"
+                            autoComplete="new-password"
+                            className="bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500"
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <button onClick={handleSetPassphrase} disabled={isBusy || !newPassphrase} className="btn-primary disabled:opacity-50">
+                            {isEncrypted ? 'Change Passphrase' : 'Encrypt My Data'}
+                        </button>
+                        {isEncrypted && (
+                            <>
+                                <button onClick={handleLock} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                                    Lock Now
+                                </button>
+                                <button onClick={handleDisableEncryption} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                                    Turn Off
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </section>
+
+                {/* Backup */}
+                <section className="glass rounded-2xl p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">Backup & Restore</h2>
+                        <p className="text-sm text-slate-400">
+                            Clearing browser data deletes your history. A backup file contains every table and can be
+                            restored here or on another device.
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <button onClick={handleBackup} disabled={isBusy} className="btn-primary disabled:opacity-50">
+                            Download Backup
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                            Restore from File
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChosen} />
+                    </div>
+
+                    {pending && (
+                        <div className="rounded-xl bg-slate-800/50 p-4 space-y-4">
+                            <p className="text-white text-sm">
+                                <span className="font-semibold">{pending.name}</span>
+                                {' '}• exported {new Date(pending.file.exportedAt).toLocaleString()}
+                            </p>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-slate-400">
+                                        <th className="py-1 pr-4">Table</th>
+                                        <th className="py-1 pr-4 text-right">Records</th>
+                                        <th className="py-1 text-right">Already here</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {pending.preview.map(p => (
+                                        <tr key={p.table} className="text-slate-300">
+                                            <td className="py-1 pr-4 font-mono">{p.table}</td>
+                                            <td className="py-1 pr-4 text-right">{p.incoming}</td>
+                                            <td className={`py-1 text-right ${p.conflicts > 0 ? 'text-yellow-400' : ''}`}>{p.conflicts}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+
+                            {totalConflicts > 0 && (
+                                <div className="space-y-2">
+                                    <p className="text-sm text-slate-300">
+                                        {totalConflicts} records already exist on this device. When they differ:
+                                    </p>
+                                    {([
+                                        ['keep-local', 'Keep what is on this device'],
+                                        ['replace', 'Replace with the backup'],
+                                    ] as [ConflictStrategy, string][]).map(([value, label]) => (
+                                        <label key={value} className="flex items-center gap-2 text-sm text-slate-300">
+                                            <input
+                                                type="radio"
+                                                name="strategy"
+                                                checked={strategy === value}
+                                                onChange={() => setStrategy(value)}
+                                            />
+                                            {label}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="flex justify-end gap-3">
+                                <button onClick={() => setPending(null)} className="btn-secondary">
+                                    Cancel
+                                </button>
+                                <button onClick={handleRestore} disabled={isBusy} className="btn-primary disabled:opacity-50">
+                                    Restore
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {results && (
+                        <ul className="text-sm text-slate-400 space-y-1">
+                            {Object.entries(results).map(([table, r]) => (
+                                <li key={table}>
+                                    <span className="font-mono text-slate-300">{table}</span>: {r.added} added, {r.replaced} replaced, {r.skipped} kept
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {/* CSV */}
+                <section className="glass rounded-2xl p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">Spreadsheet Export</h2>
+                        <p className="text-sm text-slate-400">CSV files for Excel, Numbers or Google Sheets.</p>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <button onClick={handleSessionsCsv} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                            Sessions (CSV)
+                        </button>
+                        <button onClick={handleDailyCsv} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                            Daily Stats (CSV)
+                        </button>
+                    </div>
+                </section>
+
+                {/* FHIR */}
+                <section className="glass rounded-2xl p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">Clinician Export (FHIR)</h2>
+                        <p className="text-sm text-slate-400">
+                            A FHIR R4 Bundle of sessions, daily totals and range-of-motion readings that your clinic
+                            can import into its health record system. Generated on this device.
+                        </p>
+                    </div>
+                    <input
+                        type="text"
+                        value={patientIdentifier}
+                        onChange={(e) => setPatientIdentifier(e.target.value)}
+                        placeholder="Patient ID from your clinic (optional)"
+                        className="w-full bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500"
+                    />
+                    <button onClick={handleFhir} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                        Download FHIR Bundle
+                    </button>
+                </section>
+            </div>
+        </main>
+    );
+}
@@ -1,16 +1,58 @@
 'use client';
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { exercises } from '@/data/exercises';
+import { getEasierExercises, getExerciseById } from '@/data/exercises';
 import { ExerciseEngine } from '@/lib/ExerciseEngine';
-import { saveWorkoutSession } from '@/lib/db';
-import { PoseData, ExerciseState, JointStress, Landmark3D } from '@/types';
+import { DemonstrationRecorder, ThresholdProposal } from '@/lib/DemonstrationRecorder';
+import {
+    saveWorkoutSession,
+    loadCustomExercises,
+    saveCustomExercise,
+    recordPlanProgress,
+    getActiveProgram,
+    getPlanCompletions,
+    saveSessionOutcomes,
+    getCalibrationProfile,
+    saveCalibrationProfile,
+    markCalibrationVerified,
+    clearCalibrationProfile,
+} from '@/lib/db';
+import { PlanItemStatus, PlanProgress, getNextPlanItem, getTodaysPlan, matchPlanItem } from '@/lib/Programs';
+import { DEFAULT_SET_PLAN, GuidedSession, SetPlan } from '@/lib/GuidedWorkout';
+import { hasOutcomes } from '@/lib/Outcomes';
+import {
+    HALT_REST_SECONDS,
+    HaltPhase,
+    HaltRecovery,
+    describeHalt,
+    reducedTarget,
+    resumeTarget,
+    summarizeHalt,
+} from '@/lib/HaltRecovery';
+import { loadGoldStandard } from '@/lib/GoldStandard';
+import {
+    CalibrationProfile,
+    CameraContext,
+    PoseData,
+    ExerciseState,
+    JointStress,
+    Landmark3D,
+    ExerciseDefinition,
+    ReferenceMotion,
+    SessionOutcomes,
+    SessionSummary,
+} from '@/types';
 import FeedbackPanel from '@/components/FeedbackPanel';
 import ExerciseGuide from '@/components/ExerciseGuide';
 import RecommendationSection from '@/components/RecommendationSection';
+import TeachModePanel from '@/components/TeachModePanel';
+import GuidedSetsPanel from '@/components/GuidedSetsPanel';
+import PainScale from '@/components/PainScale';
+import OutcomeQuestionnaire from '@/components/OutcomeQuestionnaire';
+import HaltRecoveryOverlay from '@/components/HaltRecoveryOverlay';
 import { voiceAssistant } from '@/lib/VoiceAssistant';
 import type { WebcamCanvasProps } from '@/components/WebcamCanvas';
 import type { Avatar3DProps } from '@/components/Avatar3D';
@@ -37,9 +79,12 @@ const Avatar3D = dynamic<Avatar3DProps>(() => import('@/components/Avatar3D'), {
 export default function ExercisePage() {
     const params = useParams();
     const router = useRouter();
+    const searchParams = useSearchParams();
     const exerciseId = params?.id as string;
+    const inCircuit = searchParams?.get('circuit') === 'plan';
 
-    const exercise = exercises.find(e => e.id === exerciseId);
+    const [exercise, setExercise] = useState<ExerciseDefinition | undefined>(() => getExerciseById(exerciseId));
+    const [isResolving, setIsResolving] = useState(!exercise);
     const engineRef = useRef<ExerciseEngine | null>(null);
     const startTimeRef = useRef<number>(Date.now());
 
@@ -52,6 +97,10 @@ export default function ExercisePage() {
         repCount: 0,
         currentAngle: 0,
         formScore: 100,
+        criteria: [],
+        qualityScore: null,
+        repQuality: [],
+        repMetrics: [],
         jointStress: [],
         startTime: Date.now(),
         angularVelocity: 0,
@@ -73,11 +122,53 @@ export default function ExercisePage() {
             system_command: null
         },
         isCalibrating: true,
+        calibrationMode: 'calibrate',
+        calibrationDrift: [],
         calibrationProgress: 0
     });
     const [elapsedTime, setElapsedTime] = useState(0);
     const [isVoiceEnabled, setIsVoiceEnabled] = useState(true);
     const [showCompletionModal, setShowCompletionModal] = useState(false);
+    const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+    const [planProgress, setPlanProgress] = useState<PlanProgress | null>(null);
+
+    // Guided sets, and circuits through today's plan
+    const guidedRef = useRef<GuidedSession | null>(null);
+    const autoStartedRef = useRef(false);
+    const [guidedEnabled, setGuidedEnabled] = useState(false);
+    const [guidedPlan, setGuidedPlan] = useState<SetPlan>(DEFAULT_SET_PLAN);
+    const [isGuidedRun, setIsGuidedRun] = useState(false);
+    const [currentSet, setCurrentSet] = useState(1);
+    const [restRemaining, setRestRemaining] = useState<number | null>(null); // seconds, while resting between sets
+    const [planItem, setPlanItem] = useState<PlanItemStatus | null>(null);
+    const [nextItem, setNextItem] = useState<PlanItemStatus | null>(null);
+    const [circuitRemaining, setCircuitRemaining] = useState<number | null>(null); // seconds until the next exercise
+
+    // Patient-reported outcomes: pain before starting, then the post-session check-in
+    const [painBefore, setPainBefore] = useState<number | undefined>(undefined);
+    const [checkIn, setCheckIn] = useState<SessionOutcomes>({});
+    const [savedSessionId, setSavedSessionId] = useState<number | null>(null);
+    const [isCheckInSaved, setIsCheckInSaved] = useState(false);
+
+    // Recovery from safety halts; every halt of the run is saved with the session
+    const haltRef = useRef<HaltRecovery | null>(null);
+    const haltsRef = useRef<HaltRecovery[]>([]);
+    const [haltPhase, setHaltPhase] = useState<Exclude<HaltPhase, 'closed'> | null>(null);
+    const [haltReason, setHaltReason] = useState('');
+    const [haltRestRemaining, setHaltRestRemaining] = useState(0); // seconds of mandatory rest
+    const [haltPain, setHaltPain] = useState<number | undefined>(undefined);
+    const [resumeTargetReps, setResumeTargetReps] = useState<number | null>(null); // a resumed set ends here
+
+    // Teach mode: record a demonstration to propose thresholds
+    const recorderRef = useRef<DemonstrationRecorder | null>(null);
+    const [teachStatus, setTeachStatus] = useState<'off' | 'recording' | 'review'>('off');
+    const [teachAngle, setTeachAngle] = useState(-1);
+    const [teachSeconds, setTeachSeconds] = useState(0);
+    const [teachProposal, setTeachProposal] = useState<ThresholdProposal | null>(null);
+    const [teachTrace, setTeachTrace] = useState<ReferenceMotion | null>(null);
+    const [isSavingTeach, setIsSavingTeach] = useState(false);
+    const [hasGoldStandard, setHasGoldStandard] = useState(false);
+    const [calibrationProfile, setCalibrationProfile] = useState<CalibrationProfile | null>(null);
 
     // Voice feedback hooks
     useEffect(() => {
@@ -107,19 +198,113 @@ export default function ExercisePage() {
         }
     }, [exerciseState.formScore, isActive, isPaused]);
 
+    // Custom exercises live in IndexedDB and are not known until loaded
+    useEffect(() => {
+        const builtIn = getExerciseById(exerciseId);
+        if (builtIn) {
+            setExercise(builtIn);
+            setIsResolving(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsResolving(true);
+        loadCustomExercises()
+            .then(() => {
+                if (!cancelled) setExercise(getExerciseById(exerciseId));
+            })
+            .catch((error) => console.error('Failed to load custom exercises:', error))
+            .finally(() => {
+                if (!cancelled) setIsResolving(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [exerciseId]);
+
+    // Today's program may prescribe sets for this exercise
+    useEffect(() => {
+        let cancelled = false;
+        const loadPlanItem = async () => {
+            const program = await getActiveProgram();
+            if (!program) return;
+            const plan = getTodaysPlan(program, await getPlanCompletions(program.id));
+            const status = plan && matchPlanItem(plan, exerciseId);
+            if (cancelled || !status) return;
+            setPlanItem(status);
+            setGuidedPlan({
+                sets: status.item.sets - status.setsDone,
+                targetReps: status.item.targetReps,
+                restSeconds: status.item.restSeconds,
+            });
+            setGuidedEnabled(true);
+        };
+        loadPlanItem().catch((error) => console.error('Failed to load plan item:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [exerciseId]);
+
     // Initialize engine
     useEffect(() => {
-        if (exerciseId) {
-            engineRef.current = new ExerciseEngine(exerciseId);
-            engineRef.current.onStopRequest(() => {
-                // handleFinish is called but we want to stay in the Safety Halt state if it was triggered
-                // The engine handles the callback trigger.
+        let cancelled = false;
+        if (exercise) {
+            const engine = new ExerciseEngine(exercise.id);
+            engine.onStopRequest(() => {
+                const state = engine.getState();
+                const recovery = new HaltRecovery(
+                    describeHalt(state.painAnalysis),
+                    guidedRef.current?.getCurrentSet() ?? 1,
+                    state.repCount
+                );
+                haltRef.current = recovery;
+                haltsRef.current.push(recovery);
+                setHaltReason(recovery.getRecord().reason);
+                setHaltPain(undefined);
+                setHaltRestRemaining(HALT_REST_SECONDS);
+                setHaltPhase('resting');
+            });
+            // A full calibration is kept for next time; a verified one only has its date refreshed,
+            // plus the body measurements if its T-pose step had not been done before
+            engine.onCalibrated(async (result) => {
+                try {
+                    const profile = result.status === 'verified'
+                        ? await markCalibrationVerified(result.anthropometry)
+                        : result.face
+                            ? await saveCalibrationProfile(result.face, result.segments, result.camera, result.anthropometry)
+                            : null;
+                    if (profile && (result.status === 'calibrated' || result.anthropometry)) {
+                        engine.setCalibrationProfile(profile);
+                        setCalibrationProfile(profile);
+                    }
+                } catch (error) {
+                    console.error('Failed to store calibration:', error);
+                }
             });
+            engineRef.current = engine;
+
+            getCalibrationProfile()
+                .then((profile) => {
+                    if (cancelled) return;
+                    engine.setCalibrationProfile(profile);
+                    setCalibrationProfile(profile);
+                })
+                .catch((error) => console.error('Failed to load calibration profile:', error));
+
+            setHasGoldStandard(false);
+            loadGoldStandard(exercise.id)
+                .then((sequence) => {
+                    if (cancelled || !sequence) return;
+                    engine.setGoldStandard(sequence);
+                    setHasGoldStandard(true);
+                })
+                .catch((error) => console.error('Failed to load gold standard:', error));
         }
         return () => {
+            cancelled = true;
             engineRef.current = null;
         };
-    }, [exerciseId]);
+    }, [exercise]);
 
     // Timer
     useEffect(() => {
@@ -141,6 +326,12 @@ export default function ExercisePage() {
 
         setCurrentLandmarks(pose.landmarks);
 
+        if (teachStatus === 'recording' && recorderRef.current) {
+            setTeachAngle(recorderRef.current.addFrame(pose.landmarks, pose.timestamp));
+            setTeachSeconds(recorderRef.current.getDuration() / 1000);
+            return;
+        }
+
         // Don't process if we've halted
         if (exerciseState.safetyLog.system_command === 'HALT_WORKOUT') return;
 
@@ -148,15 +339,90 @@ export default function ExercisePage() {
             const state = engineRef.current.processFrame(pose.landmarks, pose.timestamp);
             setExerciseState(state);
         }
-    }, [isActive, isPaused, exerciseState.safetyLog.system_command]);
+    }, [isActive, isPaused, exerciseState.safetyLog.system_command, teachStatus]);
 
-    // Start exercise
-    const handleStart = () => {
+    const handleCameraContext = useCallback((camera: CameraContext) => {
+        engineRef.current?.setCameraContext(camera);
+    }, []);
+
+    const handleRecalibrate = async () => {
+        engineRef.current?.setCalibrationProfile(null);
+        setCalibrationProfile(null);
+        try {
+            await clearCalibrationProfile();
+        } catch (error) {
+            console.error('Failed to clear calibration profile:', error);
+        }
+    };
+
+    // Every set starts with fresh counts; only the first set of a workout calibrates
+    const beginSet = (isFirstSet: boolean) => {
         startTimeRef.current = Date.now();
         setIsActive(true);
         setIsPaused(false);
         setElapsedTime(0);
-        engineRef.current?.reset();
+        setRestRemaining(null);
+        setResumeTargetReps(null);
+        if (isFirstSet) engineRef.current?.reset();
+        else engineRef.current?.resetSet();
+        if (engineRef.current) setExerciseState(engineRef.current.getState());
+    };
+
+    // Start exercise
+    const handleStart = () => {
+        guidedRef.current = guidedEnabled ? new GuidedSession(guidedPlan) : null;
+        setIsGuidedRun(guidedEnabled);
+        setCurrentSet(1);
+        setSessionSummary(null);
+        setPlanProgress(null);
+        setNextItem(null);
+        setCircuitRemaining(null);
+        setSavedSessionId(null);
+        setCheckIn({});
+        setIsCheckInSaved(false);
+        haltRef.current = null;
+        haltsRef.current = [];
+        setHaltPhase(null);
+        if (guidedEnabled) voiceAssistant.announceSet(1, guidedPlan.sets);
+        beginSet(true);
+    };
+
+    // Close the set in progress and rest; the workout finishes after the last set
+    const handleEndSet = () => {
+        const guided = guidedRef.current;
+        if (!guided || !engineRef.current) return;
+
+        guided.completeSet(engineRef.current.getSessionSummary(), resumeTargetReps ?? undefined);
+        if (guided.isFinished()) {
+            handleFinish();
+            return;
+        }
+
+        const { restSeconds } = guided.getPlan();
+        setIsActive(false);
+        setIsPaused(false);
+        setCurrentSet(guided.getCurrentSet());
+        setRestRemaining(restSeconds);
+        if (restSeconds > 0) voiceAssistant.announceRest(restSeconds);
+    };
+
+    const startNextSet = () => {
+        const guided = guidedRef.current;
+        if (!guided) return;
+        voiceAssistant.announceSet(guided.getCurrentSet(), guided.getPlan().sets);
+        beginSet(false);
+    };
+
+    // Circuits move on to the next open item of today's plan after this item's rest
+    const queueNextExercise = async (itemIndex: number) => {
+        const program = await getActiveProgram();
+        const plan = program && getTodaysPlan(program, await getPlanCompletions(program.id));
+        const next = plan && getNextPlanItem(plan, itemIndex);
+        if (!next) return;
+
+        setNextItem(next);
+        setCircuitRemaining(guidedPlan.restSeconds);
+        voiceAssistant.announceNext(getExerciseById(next.item.exerciseId)?.name ?? next.item.exerciseId);
     };
 
     // Pause/Resume
@@ -164,30 +430,212 @@ export default function ExercisePage() {
         setIsPaused(!isPaused);
     };
 
-    // Finish exercise
-    const handleFinish = async () => {
+    // Finish exercise; switchTo opens an easier exercise instead of the summary
+    const handleFinish = async (switchTo?: string) => {
+        const guided = guidedRef.current;
+        const engine = engineRef.current;
+        // Finishing during a halt ends it
+        haltRef.current?.end();
+        setHaltPhase(null);
+        // A set cut short still counts once it has reps
+        if (guided && isActive && engine && engine.getState().repCount > 0) {
+            guided.completeSet(engine.getSessionSummary(), resumeTargetReps ?? undefined);
+        }
+
         setIsActive(false);
         setIsPaused(false);
+        setRestRemaining(null);
 
-        if (exerciseState.repCount > 0) {
-            voiceAssistant.onComplete();
-            await saveWorkoutSession({
-                date: new Date(),
-                exerciseId: exerciseId,
-                reps: exerciseState.repCount,
-                formScore: exerciseState.formScore,
-                duration: Math.floor(elapsedTime),
-            });
-            setShowCompletionModal(true);
+        // A halted session is saved even without reps, so the halt stays on record
+        const finished = guided?.getSessionSummary() ?? engine?.getSessionSummary();
+        const safetyHalts = haltsRef.current.map(h => h.getRecord());
+        if (finished && (finished.reps > 0 || safetyHalts.length > 0)) {
+            const summary: SessionSummary = {
+                ...finished,
+                ...(painBefore !== undefined && { outcomes: { painBefore } }),
+                ...(safetyHalts.length > 0 && { safetyHalts }),
+            };
+            if (safetyHalts.length === 0) voiceAssistant.onComplete();
+            setSessionSummary(summary);
+            const sessionId = await saveWorkoutSession(summary);
+            setSavedSessionId(sessionId);
+            setPainBefore(undefined);
+            setPlanProgress(await recordPlanProgress(sessionId, summary));
+            if (!switchTo) {
+                if (inCircuit && planItem) await queueNextExercise(planItem.itemIndex);
+                setShowCompletionModal(true);
+            }
+        }
+        if (switchTo) router.push(`/exercise/${switchTo}`);
+    };
+
+    // Guided sets end on their own once the target is reached, as does a set resumed after a halt
+    useEffect(() => {
+        if (!isActive) return;
+        const reached = resumeTargetReps !== null
+            ? exerciseState.repCount >= resumeTargetReps
+            : guidedRef.current?.hasReachedTarget(exerciseState.repCount);
+        if (!reached) return;
+        if (guidedRef.current) handleEndSet();
+        else handleFinish();
+    }, [exerciseState.repCount, isActive, resumeTargetReps]);
+
+    // Mandatory rest after a safety halt, then the pain check-in
+    useEffect(() => {
+        if (haltPhase !== 'resting') return;
+        if (haltRestRemaining <= 0) {
+            haltRef.current?.finishRest();
+            setHaltPhase('check-in');
+            voiceAssistant.announceHaltCheckIn();
+            return;
+        }
+        const timeout = setTimeout(() => setHaltRestRemaining(haltRestRemaining - 1), 1000);
+        return () => clearTimeout(timeout);
+    }, [haltPhase, haltRestRemaining]);
+
+    const handleHaltCheckIn = () => {
+        if (!haltRef.current || haltPain === undefined) return;
+        haltRef.current.checkIn(haltPain);
+        setHaltPhase('deciding');
+    };
+
+    // A resumed set stops at half of what was left of its target
+    const getHaltResumeTarget = () => resumeTarget(
+        exerciseState.repCount,
+        resumeTargetReps ?? guidedRef.current?.getPlan().targetReps ?? DEFAULT_SET_PLAN.targetReps
+    );
+
+    // Later sets use half their target
+    const handleHaltResume = () => {
+        const recovery = haltRef.current;
+        const engine = engineRef.current;
+        const guided = guidedRef.current;
+        if (!recovery || !engine) return;
+
+        const target = getHaltResumeTarget();
+        recovery.resume(target);
+        guided?.reduceTarget(reducedTarget(guided.getPlan().targetReps));
+        engine.clearHalt();
+        setExerciseState(engine.getState());
+        setResumeTargetReps(target);
+        setHaltPhase(null);
+        voiceAssistant.announceResume(target);
+    };
+
+    const handleHaltSwitch = (switchTo: string) => {
+        haltRef.current?.switchTo(switchTo);
+        handleFinish(switchTo);
+    };
+
+    // Rest countdown between sets, then the next set starts by itself
+    useEffect(() => {
+        if (restRemaining === null) return;
+        if (restRemaining <= 0) {
+            startNextSet();
+            return;
+        }
+        const timeout = setTimeout(() => setRestRemaining(restRemaining - 1), 1000);
+        return () => clearTimeout(timeout);
+    }, [restRemaining]);
+
+    // Circuit countdown to the next exercise
+    useEffect(() => {
+        if (circuitRemaining === null || !nextItem) return;
+        if (circuitRemaining <= 0) {
+            router.push(`/exercise/${nextItem.item.exerciseId}?circuit=plan`);
+            return;
+        }
+        const timeout = setTimeout(() => setCircuitRemaining(circuitRemaining - 1), 1000);
+        return () => clearTimeout(timeout);
+    }, [circuitRemaining, nextItem, router]);
+
+    // Arriving from a circuit starts the exercise as soon as its plan item is known
+    useEffect(() => {
+        if (inCircuit && planItem && engineRef.current && !autoStartedRef.current) {
+            autoStartedRef.current = true;
+            handleStart();
+        }
+    }, [inCircuit, planItem, exercise]);
+
+    // Teach mode
+    const handleTeachStart = () => {
+        if (!exercise) return;
+        recorderRef.current = new DemonstrationRecorder(exercise);
+        setTeachAngle(-1);
+        setTeachSeconds(0);
+        setTeachProposal(null);
+        setTeachTrace(null);
+        setTeachStatus('recording');
+    };
+
+    const handleTeachStop = () => {
+        const recorder = recorderRef.current;
+        setTeachProposal(recorder?.propose() ?? null);
+        setTeachTrace(recorder && recorder.getSampleCount() > 0 ? recorder.getReferenceMotion() : null);
+        setTeachStatus('review');
+    };
+
+    const handleTeachCancel = () => {
+        recorderRef.current = null;
+        setTeachStatus('off');
+    };
+
+    const handleTeachApply = async () => {
+        if (!exercise || !teachProposal || !teachTrace) return;
+        const updated: ExerciseDefinition = {
+            ...exercise,
+            downAngleThreshold: teachProposal.downAngleThreshold,
+            upAngleThreshold: teachProposal.upAngleThreshold,
+            hysteresis: teachProposal.hysteresis,
+            phaseDirection: teachProposal.phaseDirection,
+            referenceMotion: teachTrace,
+        };
+
+        setIsSavingTeach(true);
+        try {
+            await saveCustomExercise(updated);
+            setExercise(updated);
+            handleTeachCancel();
+        } catch (error) {
+            console.error('Failed to save demonstrated thresholds:', error);
+        } finally {
+            setIsSavingTeach(false);
+        }
+    };
+
+    // Answering the check-in holds the circuit countdown so it can't navigate away mid-answer
+    const handleCheckInChange = (value: SessionOutcomes) => {
+        setCheckIn(value);
+        setIsCheckInSaved(false);
+        setCircuitRemaining(null);
+    };
+
+    const saveCheckIn = async () => {
+        if (savedSessionId === null || isCheckInSaved || !hasOutcomes(checkIn)) return;
+        try {
+            await saveSessionOutcomes(savedSessionId, checkIn);
+            setIsCheckInSaved(true);
+        } catch (error) {
+            console.error('Failed to save check-in:', error);
         }
     };
 
     // Handle completion modal close
-    const handleCloseModal = () => {
+    const handleCloseModal = async () => {
+        await saveCheckIn();
+        setCircuitRemaining(null);
         setShowCompletionModal(false);
         router.push('/');
     };
 
+    if (isResolving) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
     if (!exercise) {
         return (
             <div className="min-h-screen flex items-center justify-center">
@@ -201,6 +649,10 @@ export default function ExercisePage() {
         );
     }
 
+    const finalDuration = sessionSummary?.duration ?? elapsedTime;
+    const isIsometric = exercise.phaseDirection === 'isometric';
+    const targetUnit = isIsometric ? 's' : ' reps';
+
     return (
         <main className="min-h-screen bg-slate-950">
             {/* Header */}
@@ -235,10 +687,11 @@ export default function ExercisePage() {
                             >
                                 {isVoiceEnabled ? '🔊' : '🔇'}
                             </button>
-                            {!isActive ? (
+                            {!isActive && restRemaining === null ? (
                                 <button
                                     onClick={handleStart}
-                                    className="px-6 py-3 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white font-semibold hover:shadow-lg hover:shadow-cyan-500/30 transition-all flex items-center gap-2"
+                                    disabled={teachStatus !== 'off'}
+                                    className="px-6 py-3 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white font-semibold hover:shadow-lg hover:shadow-cyan-500/30 transition-all flex items-center gap-2 disabled:opacity-50"
                                 >
                                     <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
                                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
@@ -247,28 +700,38 @@ export default function ExercisePage() {
                                 </button>
                             ) : (
                                 <>
+                                    {isActive && !haltPhase && (
+                                        <button
+                                            onClick={handlePauseResume}
+                                            className="px-4 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 text-white font-semibold transition-colors flex items-center gap-2"
+                                        >
+                                            {isPaused ? (
+                                                <>
+                                                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                                                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                                                    </svg>
+                                                    Resume
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                                                        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                                                    </svg>
+                                                    Pause
+                                                </>
+                                            )}
+                                        </button>
+                                    )}
+                                    {isActive && isGuidedRun && !haltPhase && (
+                                        <button
+                                            onClick={handleEndSet}
+                                            className="px-4 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 text-white font-semibold transition-colors"
+                                        >
+                                            End Set
+                                        </button>
+                                    )}
                                     <button
-                                        onClick={handlePauseResume}
-                                        className="px-4 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 text-white font-semibold transition-colors flex items-center gap-2"
-                                    >
-                                        {isPaused ? (
-                                            <>
-                                                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-                                                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-                                                </svg>
-                                                Resume
-                                            </>
-                                        ) : (
-                                            <>
-                                                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-                                                    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                                                </svg>
-                                                Pause
-                                            </>
-                                        )}
-                                    </button>
-                                    <button
-                                        onClick={handleFinish}
+                                        onClick={() => handleFinish()}
                                         className="px-6 py-3 rounded-xl bg-gradient-to-r from-green-500 to-emerald-500 text-white font-semibold hover:shadow-lg hover:shadow-green-500/30 transition-all flex items-center gap-2"
                                     >
                                         <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
@@ -292,28 +755,104 @@ export default function ExercisePage() {
                         <div className="relative">
                             <WebcamCanvas
                                 onPoseDetected={handlePoseDetected}
+                                onCameraContext={handleCameraContext}
+                                anthropometry={calibrationProfile?.anthropometry}
                                 showLandmarks={true}
                                 width={640}
                                 height={480}
                             />
 
+                            {/* Teach mode */}
+                            {teachStatus !== 'off' && (
+                                <TeachModePanel
+                                    exercise={exercise}
+                                    status={teachStatus}
+                                    liveAngle={teachAngle}
+                                    recordedSeconds={teachSeconds}
+                                    proposal={teachProposal}
+                                    trace={teachTrace}
+                                    isSaving={isSavingTeach}
+                                    onStop={handleTeachStop}
+                                    onApply={handleTeachApply}
+                                    onRetry={handleTeachStart}
+                                    onCancel={handleTeachCancel}
+                                />
+                            )}
+
                             {/* Overlay status */}
-                            {!isActive && (
+                            {!isActive && restRemaining === null && teachStatus === 'off' && (
                                 <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl">
                                     <div className="text-center">
                                         <div className="text-6xl mb-4">{exercise.icon}</div>
                                         <h2 className="text-2xl font-bold text-white mb-2">Ready to start?</h2>
                                         <p className="text-slate-400 mb-6">Position yourself in frame and click Start</p>
+                                        <div className="w-80 mx-auto mb-6 text-left">
+                                            <PainScale label="Pain before you start (optional)" value={painBefore} onChange={setPainBefore} />
+                                        </div>
+                                        <GuidedSetsPanel
+                                            enabled={guidedEnabled}
+                                            plan={guidedPlan}
+                                            isIsometric={isIsometric}
+                                            planItem={planItem}
+                                            inCircuit={inCircuit}
+                                            onToggle={setGuidedEnabled}
+                                            onChange={setGuidedPlan}
+                                        />
                                         <button
                                             onClick={handleStart}
                                             className="px-8 py-4 rounded-2xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white text-lg font-semibold hover:shadow-xl hover:shadow-cyan-500/30 transition-all animate-pulse"
                                         >
                                             Start Exercise
                                         </button>
+                                        {calibrationProfile && (
+                                            <p className="mt-4 text-xs text-slate-500">
+                                                Using your calibration from {new Date(calibrationProfile.calibratedAt).toLocaleDateString()}
+                                                {calibrationProfile.anthropometry && ` (about ${calibrationProfile.anthropometry.cameraDistance.toFixed(1)} m from the camera)`}
+                                                {' • '}
+                                                <button onClick={handleRecalibrate} className="text-slate-400 hover:text-cyan-400 underline">
+                                                    Recalibrate
+                                                </button>
+                                            </p>
+                                        )}
+                                        {exercise.isCustom && (
+                                            <button
+                                                onClick={handleTeachStart}
+                                                className="block mx-auto mt-4 text-sm text-slate-400 hover:text-cyan-400 transition-colors"
+                                            >
+                                                Teach by demonstration
+                                            </button>
+                                        )}
                                     </div>
                                 </div>
                             )}
 
+                            {/* Rest between sets */}
+                            {restRemaining !== null && (
+                                <div className="absolute inset-0 z-30 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl">
+                                    <div className="text-center">
+                                        <p className="text-sm text-slate-400 uppercase tracking-widest mb-2">Rest</p>
+                                        <p className="text-7xl font-black text-white mb-2">{restRemaining}</p>
+                                        <p className="text-slate-400 mb-6">
+                                            Up next: set {currentSet} of {guidedPlan.sets} • {guidedPlan.targetReps}{targetUnit}
+                                        </p>
+                                        <button
+                                            onClick={() => setRestRemaining(0)}
+                                            className="px-8 py-4 rounded-2xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white text-lg font-semibold"
+                                        >
+                                            Skip Rest
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Guided set progress */}
+                            {isActive && isGuidedRun && !exerciseState.isCalibrating && (
+                                <div className="absolute top-4 left-4 z-20 px-4 py-2 rounded-xl bg-slate-950/80 backdrop-blur-xl border border-cyan-500/30 text-sm font-semibold text-white">
+                                    Set {currentSet}/{guidedPlan.sets}
+                                    <span className="text-cyan-400 ml-2">{exerciseState.repCount}/{guidedPlan.targetReps}{targetUnit}</span>
+                                </div>
+                            )}
+
                             {/* Calibration Overlay */}
                             {isActive && exerciseState.isCalibrating && (
                                 <div className="absolute inset-0 z-30 bg-slate-900/60 backdrop-blur-md flex items-center justify-center rounded-2xl border-4 border-cyan-500/20">
@@ -345,8 +884,31 @@ export default function ExercisePage() {
                                                 {Math.round(exerciseState.calibrationProgress)}%
                                             </div>
                                         </div>
-                                        <h2 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">Calibrating</h2>
-                                        <p className="text-slate-400 text-sm mb-4">Establishing your facial baseline. Please look directly at the camera with a neutral expression.</p>
+                                        <h2 className="text-xl font-bold text-white mb-2 uppercase tracking-widest">
+                                            {exerciseState.calibrationMode === 'verify'
+                                                ? 'Checking Calibration'
+                                                : exerciseState.calibrationMode === 'body' ? 'Body Measurements' : 'Calibrating'}
+                                        </h2>
+                                        <p className="text-slate-400 text-sm mb-4">
+                                            {exerciseState.calibrationMode === 'verify'
+                                                ? 'Making sure your saved calibration still fits. Please look at the camera with a neutral expression.'
+                                                : exerciseState.calibrationMode === 'body'
+                                                    ? 'Step back until your whole body is in view, stand tall and hold your arms straight out to the sides for 2 seconds.'
+                                                    : 'Establishing your facial baseline. Please look directly at the camera with a neutral expression.'}
+                                        </p>
+                                        {exerciseState.calibrationMode === 'body' && (
+                                            <button
+                                                onClick={() => engineRef.current?.skipBodyCalibration()}
+                                                className="mb-4 text-xs text-slate-400 hover:text-cyan-400 underline"
+                                            >
+                                                Skip (if raising your arms is not comfortable)
+                                            </button>
+                                        )}
+                                        {exerciseState.calibrationDrift.length > 0 && (
+                                            <p className="text-amber-400 text-xs mb-4">
+                                                Saved calibration no longer matches ({exerciseState.calibrationDrift.join(', ')}), so it is being replaced.
+                                            </p>
+                                        )}
                                         <div className="flex justify-center gap-1">
                                             <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
                                             <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
@@ -426,20 +988,23 @@ export default function ExercisePage() {
                                 </div>
                             )}
 
-                            {/* Safety Alert Overlay */}
-                            {exerciseState.safetyLog.system_command === 'HALT_WORKOUT' && isActive && (
-                                <div className="absolute inset-0 z-40 bg-red-950/40 backdrop-blur-md flex items-center justify-center p-6 text-center animate-pulse">
-                                    <div className="max-w-md bg-slate-900 border-4 border-red-600 rounded-3xl p-8 shadow-[0_0_50px_rgba(220,38,38,0.5)]">
-                                        <div className="text-6xl mb-4">🆘</div>
-                                        <h2 className="text-3xl font-bold text-white mb-2 uppercase tracking-tighter">Safety Halt</h2>
-                                        <p className="text-red-400 font-bold mb-4">Sharp Pain Threshold Exceeded</p>
-                                        <p className="text-slate-300 text-sm mb-6 uppercase font-bold tracking-widest text-[10px]">Auto-Lock Executed by RCAFT Engine</p>
-                                        <div className="p-4 bg-red-900/20 border border-red-700/30 rounded-2xl mb-6">
-                                            <p className="text-white text-lg font-bold">"{exerciseState.safetyLog.ui_message}"</p>
-                                        </div>
-                                        <p className="text-slate-400 text-xs text-center">This session has been paused for your safety. Please consult a professional before continuing if pain persists.</p>
-                                    </div>
-                                </div>
+                            {/* Safety halt and recovery */}
+                            {haltPhase && isActive && (
+                                <HaltRecoveryOverlay
+                                    phase={haltPhase}
+                                    reason={haltReason}
+                                    message={exerciseState.safetyLog.ui_message}
+                                    restRemaining={haltRestRemaining}
+                                    painScore={haltPain}
+                                    options={haltRef.current?.getOptions() ?? []}
+                                    resumeLabel={`stop at ${getHaltResumeTarget()}${targetUnit}`}
+                                    easierExercises={getEasierExercises(exercise).slice(0, 3)}
+                                    onPainChange={setHaltPain}
+                                    onCheckIn={handleHaltCheckIn}
+                                    onResume={handleHaltResume}
+                                    onSwitch={handleHaltSwitch}
+                                    onEnd={() => handleFinish()}
+                                />
                             )}
 
                             {/* Paused overlay */}
@@ -478,6 +1043,7 @@ export default function ExercisePage() {
                             exerciseState={exerciseState}
                             exercise={exercise}
                             elapsedTime={elapsedTime}
+                            hasGoldStandard={hasGoldStandard}
                         />
                     </div>
                 </div>
@@ -486,7 +1052,7 @@ export default function ExercisePage() {
             {/* Completion Modal */}
             {showCompletionModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-                    <div className="glass rounded-3xl p-8 max-w-md w-full mx-4 text-center animate-float">
+                    <div className="glass rounded-3xl p-8 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto text-center animate-float">
                         <div className="text-7xl mb-6 animate-bounce-slow">🎉</div>
                         <h2 className="text-3xl font-bold text-white mb-2">Great Workout!</h2>
                         <p className="text-slate-400 mb-8">You crushed {exercise.name}</p>
@@ -494,23 +1060,81 @@ export default function ExercisePage() {
                         <div className="grid grid-cols-3 gap-4 mb-8">
                             <div className="bg-slate-800/50 rounded-xl p-4">
                                 <p className="text-3xl font-bold text-cyan-400">
-                                    {exerciseState.repCount}{exercise.id === 'plank' ? 's' : ''}
+                                    {sessionSummary?.reps ?? exerciseState.repCount}{isIsometric ? 's' : ''}
                                 </p>
-                                <p className="text-xs text-slate-400">{exercise.id === 'plank' ? 'Hold Time' : 'Reps'}</p>
+                                <p className="text-xs text-slate-400">{isIsometric ? 'Hold Time' : 'Reps'}</p>
                             </div>
                             <div className="bg-slate-800/50 rounded-xl p-4">
-                                <p className="text-3xl font-bold text-purple-400">{exerciseState.formScore}%</p>
+                                <p className="text-3xl font-bold text-purple-400">{sessionSummary?.formScore ?? exerciseState.formScore}%</p>
                                 <p className="text-xs text-slate-400">Form Score</p>
                             </div>
                             <div className="bg-slate-800/50 rounded-xl p-4">
-                                <p className="text-3xl font-bold text-pink-400">{Math.floor(elapsedTime / 60)}:{String(Math.floor(elapsedTime % 60)).padStart(2, '0')}</p>
+                                <p className="text-3xl font-bold text-pink-400">{Math.floor(finalDuration / 60)}:{String(Math.floor(finalDuration % 60)).padStart(2, '0')}</p>
                                 <p className="text-xs text-slate-400">Duration</p>
                             </div>
                         </div>
 
+                        {exerciseState.qualityScore !== null && (
+                            <p className="text-sm text-slate-400 -mt-4 mb-8">
+                                Movement quality vs reference: <span className="font-bold text-white">{exerciseState.qualityScore}%</span>
+                                {' '}over {exerciseState.repQuality.length} reps
+                            </p>
+                        )}
+
+                        {sessionSummary?.sets && (
+                            <p className="text-sm text-slate-400 -mt-4 mb-8">
+                                {sessionSummary.sets.length} sets: <span className="font-bold text-white">{sessionSummary.sets.map(set => set.reps).join(' / ')}</span>
+                            </p>
+                        )}
+
+                        {sessionSummary?.safetyHalts && (
+                            <p className="text-sm text-red-400 -mt-4 mb-8">
+                                🆘 {sessionSummary.safetyHalts.length === 1 ? 'Safety halt' : `${sessionSummary.safetyHalts.length} safety halts`}:
+                                {' '}{sessionSummary.safetyHalts.map(summarizeHalt).join('; ')}
+                            </p>
+                        )}
+
+                        {planProgress && (
+                            <p className={`text-sm -mt-4 mb-8 ${planProgress.setsCounted > 0 ? 'text-green-400' : 'text-amber-400'}`}>
+                                {planProgress.setsCounted > 0
+                                    ? `📋 Plan: ${planProgress.setsDone} of ${planProgress.item.sets} sets done${planProgress.isComplete ? ' ✓' : ''}`
+                                    : `📋 Plan target is ${planProgress.item.targetReps} - no sets were counted`}
+                                {planProgress.progressedTo !== null && (
+                                    <span className="block text-cyan-400">Target raised to {planProgress.progressedTo}!</span>
+                                )}
+                            </p>
+                        )}
+
+                        <div className="-mt-4 mb-8 p-4 rounded-xl bg-slate-800/50">
+                            <p className="text-sm font-semibold text-white mb-3 text-left">How do you feel?</p>
+                            <OutcomeQuestionnaire value={checkIn} onChange={handleCheckInChange} />
+                            {isCheckInSaved && <p className="text-xs text-green-400 mt-2 text-left">Check-in saved ✓</p>}
+                        </div>
+
+                        {nextItem && (
+                            <div className="-mt-4 mb-8 p-4 rounded-xl bg-cyan-500/10 border border-cyan-500/30">
+                                <p className="text-white font-semibold">
+                                    Up next: {getExerciseById(nextItem.item.exerciseId)?.icon} {getExerciseById(nextItem.item.exerciseId)?.name ?? nextItem.item.exerciseId}
+                                </p>
+                                <p className="text-sm text-slate-400 mb-3">
+                                    {circuitRemaining !== null ? `Starting in ${circuitRemaining}s` : 'Waiting while you check in'}
+                                </p>
+                                <button
+                                    onClick={async () => {
+                                        await saveCheckIn();
+                                        setCircuitRemaining(0);
+                                    }}
+                                    className="text-sm text-cyan-400 hover:underline"
+                                >
+                                    Start now
+                                </button>
+                            </div>
+                        )}
+
                         <div className="flex gap-4">
                             <button
-                                onClick={() => {
+                                onClick={async () => {
+                                    await saveCheckIn();
                                     setShowCompletionModal(false);
                                     handleStart();
                                 }}
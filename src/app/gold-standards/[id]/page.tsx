@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { getExerciseById } from '@/data/exercises';
+import { loadCustomExercises, saveGoldStandard } from '@/lib/db';
+import { GoldStandardRecorder } from '@/lib/GoldStandard';
+import { ExerciseDefinition, GoldStandardSequence, PoseData } from '@/types';
+import type { WebcamCanvasProps } from '@/components/WebcamCanvas';
+
+const WebcamCanvas = dynamic<WebcamCanvasProps>(() => import('@/components/WebcamCanvas'), {
+    ssr: false,
+    loading: () => (
+        <div className="w-full aspect-video bg-slate-900 rounded-2xl flex items-center justify-center">
+            <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+        </div>
+    )
+});
+
+const phaseColors: Record<string, string> = {
+    UP: 'bg-cyan-500',
+    DOWN: 'bg-purple-500',
+    HOLD: 'bg-emerald-500',
+    COMPLETE: 'bg-pink-500',
+    IDLE: 'bg-slate-600',
+};
+
+export default function GoldStandardCapturePage() {
+    const params = useParams();
+    const router = useRouter();
+    const exerciseId = params?.id as string;
+
+    const [exercise, setExercise] = useState<ExerciseDefinition | undefined>(() => getExerciseById(exerciseId));
+    const [status, setStatus] = useState<'ready' | 'recording' | 'review'>('ready');
+    const [liveAngle, setLiveAngle] = useState(-1);
+    const [frameCount, setFrameCount] = useState(0);
+    const [sequence, setSequence] = useState<GoldStandardSequence | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const recorderRef = useRef<GoldStandardRecorder | null>(null);
+
+    useEffect(() => {
+        if (exercise) return;
+        loadCustomExercises()
+            .then(() => setExercise(getExerciseById(exerciseId)))
+            .catch((error) => console.error('Failed to load custom exercises:', error));
+    }, [exercise, exerciseId]);
+
+    const handlePoseDetected = useCallback((pose: PoseData | null) => {
+        if (!pose || status !== 'recording' || !recorderRef.current) return;
+        setLiveAngle(recorderRef.current.addFrame(pose.landmarks, pose.timestamp));
+        setFrameCount(recorderRef.current.getFrameCount());
+    }, [status]);
+
+    const handleStart = () => {
+        if (!exercise) return;
+        recorderRef.current = new GoldStandardRecorder(exercise);
+        setFrameCount(0);
+        setSequence(null);
+        setStatus('recording');
+    };
+
+    const handleStop = () => {
+        setSequence(recorderRef.current?.finish() ?? null);
+        setStatus('review');
+    };
+
+    const handleSave = async () => {
+        if (!sequence) return;
+        setIsSaving(true);
+        try {
+            await saveGoldStandard(sequence);
+            router.push('/gold-standards');
+        } catch (error) {
+            console.error('Failed to save gold standard:', error);
+            setIsSaving(false);
+        }
+    };
+
+    if (!exercise) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    const isIsometric = exercise.phaseDirection === 'isometric';
+
+    return (
+        <main className="min-h-screen bg-slate-950">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center gap-4">
+                        <Link
+                            href="/gold-standards"
+                            className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                        >
+                            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </Link>
+                        <div>
+                            <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                                <span>{exercise.icon}</span>
+                                Record reference: {exercise.name}
+                            </h1>
+                            <p className="text-sm text-slate-400">
+                                {isIsometric
+                                    ? 'Hold the ideal position for a few seconds'
+                                    : 'Perform one slow, textbook rep; the deepest rep recorded is kept'}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+                <div className="relative">
+                    <WebcamCanvas onPoseDetected={handlePoseDetected} showLandmarks={true} width={640} height={480} />
+
+                    {status === 'recording' && (
+                        <div className="absolute top-4 left-4 right-4 z-30 flex items-center gap-4 bg-slate-950/80 backdrop-blur-xl border border-red-500/40 rounded-2xl px-5 py-3">
+                            <div className="w-3 h-3 rounded-full bg-red-500 animate-pulse" />
+                            <p className="flex-1 text-white font-semibold text-sm">Recording</p>
+                            <div className="text-right font-mono">
+                                <p className="text-cyan-400 font-bold">{liveAngle >= 0 ? `${Math.round(liveAngle)}°` : '--'}</p>
+                                <p className="text-slate-500 text-xs">{frameCount} frames</p>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="glass rounded-2xl p-6">
+                    {status === 'ready' && (
+                        <div className="flex items-center justify-between gap-4">
+                            <p className="text-slate-400 text-sm">
+                                Stand so the whole body is in frame, start recording, then perform the movement.
+                            </p>
+                            <button onClick={handleStart} className="btn-primary">
+                                Start Recording
+                            </button>
+                        </div>
+                    )}
+
+                    {status === 'recording' && (
+                        <div className="flex items-center justify-between gap-4">
+                            <p className="text-slate-400 text-sm">Stop once you are back at the start position.</p>
+                            <button onClick={handleStop} className="px-6 py-3 rounded-xl bg-red-500 hover:bg-red-600 text-white font-semibold transition-colors">
+                                Stop
+                            </button>
+                        </div>
+                    )}
+
+                    {status === 'review' && (
+                        <div className="space-y-4">
+                            {sequence ? (
+                                <>
+                                    <p className="text-white font-semibold">
+                                        Captured {sequence.frames.length} frames ({(sequence.duration / 1000).toFixed(1)}s)
+                                    </p>
+                                    <div className="flex h-3 rounded-full overflow-hidden">
+                                        {sequence.frames.map((frame, i) => (
+                                            <div key={i} className={`flex-1 ${phaseColors[frame.phase] ?? 'bg-slate-600'}`} />
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-slate-500">Phase timeline of the normalized rep.</p>
+                                </>
+                            ) : (
+                                <p className="text-yellow-400 text-sm">
+                                    {isIsometric
+                                        ? 'Hold the position for at least 2 seconds with the joint in view.'
+                                        : `No complete rep was found. Move from rest past ${exercise.downAngleThreshold}°/${exercise.upAngleThreshold}° and back with the joint in view.`}
+                                </p>
+                            )}
+                            <div className="flex justify-end gap-3">
+                                <button onClick={handleStart} className="btn-secondary">
+                                    Record Again
+                                </button>
+                                {sequence && (
+                                    <button onClick={handleSave} disabled={isSaving} className="btn-primary disabled:opacity-50">
+                                        {isSaving ? 'Saving...' : 'Save Reference'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </main>
+    );
+}
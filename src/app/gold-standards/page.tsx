@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { getAllExercises } from '@/data/exercises';
+import { getAllGoldStandards, saveGoldStandard, deleteGoldStandard, loadCustomExercises } from '@/lib/db';
+import { fetchBundledGoldStandard, parseGoldStandard, serializeGoldStandard } from '@/lib/GoldStandard';
+import { ExerciseDefinition, GoldStandardSequence } from '@/types';
+
+function downloadJson(filename: string, data: unknown): void {
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export default function GoldStandardsPage() {
+    const [exercises, setExercises] = useState<ExerciseDefinition[]>([]);
+    const [local, setLocal] = useState<Record<string, GoldStandardSequence>>({});
+    const [bundled, setBundled] = useState<Record<string, GoldStandardSequence>>({});
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = async () => {
+        try {
+            await loadCustomExercises();
+            const all = getAllExercises();
+            const stored = await getAllGoldStandards();
+            const shipped = await Promise.all(all.map(e => fetchBundledGoldStandard(e.id)));
+
+            setExercises(all);
+            setLocal(Object.fromEntries(stored.map(s => [s.exerciseId, s])));
+            setBundled(Object.fromEntries(
+                shipped.filter((s): s is GoldStandardSequence => !!s).map(s => [s.exerciseId, s])
+            ));
+        } catch (error) {
+            console.error('Failed to load gold standards:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+
+        const imported: string[] = [];
+        const failed: string[] = [];
+        for (const file of files) {
+            try {
+                const sequence = parseGoldStandard(JSON.parse(await file.text()));
+                if (!exercises.some(ex => ex.id === sequence.exerciseId)) {
+                    throw new Error(`Unknown exercise "${sequence.exerciseId}"`);
+                }
+                await saveGoldStandard(sequence);
+                imported.push(sequence.exerciseId);
+            } catch (error) {
+                failed.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        setMessage({
+            text: [
+                imported.length > 0 ? `Imported ${imported.join(', ')}` : '',
+                ...failed,
+            ].filter(Boolean).join(' • '),
+            isError: failed.length > 0,
+        });
+        await refresh();
+    };
+
+    const handleDelete = async (exercise: ExerciseDefinition) => {
+        if (!window.confirm(`Delete the recorded reference for ${exercise.name}?`)) return;
+        await deleteGoldStandard(exercise.id);
+        await refresh();
+    };
+
+    return (
+        <main className="min-h-screen pb-20">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                            <Link
+                                href="/"
+                                className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                            >
+                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                                </svg>
+                            </Link>
+                            <div>
+                                <h1 className="text-xl font-bold text-white">Reference Motions</h1>
+                                <p className="text-sm text-slate-400">Expert recordings used for movement quality scoring</p>
+                            </div>
+                        </div>
+                        <button onClick={() => fileInputRef.current?.click()} className="btn-secondary">
+                            Import JSON
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" multiple className="hidden" onChange={handleImport} />
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+                {message && (
+                    <div className={`px-4 py-3 rounded-xl text-sm border ${message.isError
+                        ? 'bg-red-500/10 border-red-500/30 text-red-400'
+                        : 'bg-green-500/10 border-green-500/30 text-green-400'
+                        }`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {isLoading ? (
+                    <div className="flex justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+                    </div>
+                ) : (
+                    exercises.map((exercise) => {
+                        const recorded = local[exercise.id];
+                        const active = recorded ?? bundled[exercise.id];
+
+                        return (
+                            <div key={exercise.id} className="glass rounded-2xl p-4 flex items-center gap-4">
+                                <div className="w-12 h-12 rounded-xl bg-cyan-500/10 flex items-center justify-center text-2xl">
+                                    {exercise.icon}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-white font-semibold truncate">{exercise.name}</p>
+                                    <p className="text-xs text-slate-400">
+                                        {active
+                                            ? `${recorded ? (recorded.source === 'imported' ? 'Imported' : 'Recorded on this device') : 'Bundled'} • ${active.frames.length} frames • ${(active.duration / 1000).toFixed(1)}s`
+                                            : 'No reference motion'}
+                                    </p>
+                                </div>
+                                <Link
+                                    href={`/gold-standards/${exercise.id}`}
+                                    className="px-4 py-2 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white text-sm font-semibold"
+                                >
+                                    {recorded ? 'Re-record' : 'Record'}
+                                </Link>
+                                <button
+                                    onClick={() => active && downloadJson(`${exercise.id}.json`, serializeGoldStandard(active))}
+                                    disabled={!active}
+                                    className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white text-sm transition-colors disabled:opacity-40"
+                                >
+                                    Export
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(exercise)}
+                                    disabled={!recorded}
+                                    className="px-4 py-2 rounded-xl bg-red-500/10 hover:bg-red-500/20 text-red-400 text-sm transition-colors disabled:opacity-40"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </main>
+    );
+}
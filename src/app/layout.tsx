@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
+import DatabaseLock from "@/components/DatabaseLock";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -26,17 +27,17 @@ export default function RootLayout({
   return (
     <html lang="en" className="dark">
       <body
-        className={`${inter.className} antialiased bg-slate-950 text-white min-h-screen`}
+        className={`${inter.className} antialiased bg-slate-950 text-white min-h-screen print:bg-white print:text-slate-900`}
       >
         {/* Animated background */}
-        <div className="fixed inset-0 -z-10 overflow-hidden">
+        <div className="fixed inset-0 -z-10 overflow-hidden print:hidden">
           <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-500/20 rounded-full blur-3xl animate-pulse" />
           <div className="absolute top-1/2 -left-40 w-80 h-80 bg-cyan-500/20 rounded-full blur-3xl animate-pulse delay-1000" />
           <div className="absolute -bottom-40 right-1/3 w-80 h-80 bg-pink-500/20 rounded-full blur-3xl animate-pulse delay-2000" />
           {/* Grid pattern */}
           <div className="absolute inset-0 bg-[linear-gradient(to_right,#1e293b20_1px,transparent_1px),linear-gradient(to_bottom,#1e293b20_1px,transparent_1px)] bg-[size:4rem_4rem]" />
         </div>
-        {children}
+        <DatabaseLock>{children}</DatabaseLock>
       </body>
     </html>
   );
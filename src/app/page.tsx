@@ -4,14 +4,16 @@ import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import ExerciseCard from '@/components/ExerciseCard';
 import StreakCounter from '@/components/StreakCounter';
+import TodaysPlanCard from '@/components/TodaysPlanCard';
 import { exercises } from '@/data/exercises';
-import { getWeeklyStats, getTodaysSessions } from '@/lib/db';
-import { DailyStats, WorkoutSession } from '@/types';
+import { getWeeklyStats, getTodaysSessions, loadCustomExercises } from '@/lib/db';
+import { DailyStats, WorkoutSession, ExerciseDefinition } from '@/types';
 
 export default function Home() {
   const [weeklyStats, setWeeklyStats] = useState<DailyStats[]>([]);
   const [todaySessions, setTodaySessions] = useState<WorkoutSession[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [customExercises, setCustomExercises] = useState<ExerciseDefinition[]>([]);
 
   useEffect(() => {
     const loadData = async () => {
@@ -20,6 +22,7 @@ export default function Home() {
         const today = await getTodaysSessions();
         setWeeklyStats(weekly);
         setTodaySessions(today);
+        setCustomExercises(await loadCustomExercises());
       } catch (error) {
         console.error('Failed to load data:', error);
       }
@@ -29,9 +32,11 @@ export default function Home() {
 
   const categories = ['all', 'upper', 'lower', 'core', 'full-body'];
 
+  const allExercises = [...exercises, ...customExercises];
+
   const filteredExercises = selectedCategory === 'all'
-    ? exercises
-    : exercises.filter(e => e.category === selectedCategory);
+    ? allExercises
+    : allExercises.filter(e => e.category === selectedCategory);
 
   const totalTodayReps = todaySessions.reduce((acc, s) => acc + s.reps, 0);
   const totalTodayTime = todaySessions.reduce((acc, s) => acc + s.duration, 0);
@@ -54,6 +59,42 @@ export default function Home() {
 
             <div className="flex items-center gap-4">
               <StreakCounter compact />
+              <Link
+                href="/gold-standards"
+                className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white transition-colors flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+                References
+              </Link>
+              <Link
+                href="/programs"
+                className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white transition-colors flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Programs
+              </Link>
+              <Link
+                href="/assessment"
+                className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white transition-colors flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+                Assess
+              </Link>
+              <Link
+                href="/custom"
+                className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white transition-colors flex items-center gap-2"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Custom
+              </Link>
               <Link
                 href="/dashboard"
                 className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white transition-colors flex items-center gap-2"
@@ -144,6 +185,13 @@ export default function Home() {
         </div>
       </section>
 
+      {/* Today's Plan */}
+      <section className="px-4 sm:px-6 lg:px-8 mb-8">
+        <div className="max-w-7xl mx-auto">
+          <TodaysPlanCard />
+        </div>
+      </section>
+
       {/* Category Filter */}
       <section className="px-4 sm:px-6 lg:px-8 mb-8">
         <div className="max-w-7xl mx-auto">
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { programTemplates } from '@/data/programs';
+import { getExerciseById } from '@/data/exercises';
+import { fromDateKey } from '@/lib/Calendar';
+import { getActiveProgram, getAllPrograms, getPlanCompletions, startProgram, stopProgram } from '@/lib/db';
+import { getProgramDayIndex } from '@/lib/Programs';
+import { PlanCompletion, ProgramDay, ProgramItem, WorkoutProgram } from '@/types';
+
+function countSets(days: ProgramDay[]): number {
+    return days.reduce((acc, d) => acc + d.items.reduce((sum, i) => sum + i.sets, 0), 0);
+}
+
+/**
+ * The current target for each exercise in a program, in first-appearance order
+ */
+function currentTargets(program: WorkoutProgram): ProgramItem[] {
+    const seen = new Map<string, ProgramItem>();
+    program.days.forEach(d => d.items.forEach(i => {
+        if (!seen.has(i.exerciseId)) seen.set(i.exerciseId, i);
+    }));
+    return Array.from(seen.values());
+}
+
+function formatDate(key: string): string {
+    return fromDateKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function ProgramsPage() {
+    const [active, setActive] = useState<WorkoutProgram | null>(null);
+    const [completions, setCompletions] = useState<PlanCompletion[]>([]);
+    const [history, setHistory] = useState<WorkoutProgram[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const loadPrograms = async () => {
+        try {
+            const program = await getActiveProgram();
+            setActive(program ?? null);
+            setCompletions(program ? await getPlanCompletions(program.id) : []);
+            const all = await getAllPrograms();
+            setHistory(all.filter(p => p.status !== 'active').sort((a, b) => b.startDate.localeCompare(a.startDate)));
+        } catch (error) {
+            console.error('Failed to load programs:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadPrograms();
+    }, []);
+
+    const handleStart = async (templateId: string) => {
+        const template = programTemplates.find(t => t.id === templateId);
+        if (!template) return;
+        if (active && !confirm(`Stop "${active.name}" and start "${template.name}"?`)) return;
+
+        setIsBusy(true);
+        try {
+            await startProgram(template);
+            await loadPrograms();
+        } catch (error) {
+            console.error('Failed to start program:', error);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleStop = async () => {
+        if (!active || !confirm(`Stop "${active.name}"? Your progress so far is kept.`)) return;
+
+        setIsBusy(true);
+        try {
+            await stopProgram(active.id);
+            await loadPrograms();
+        } catch (error) {
+            console.error('Failed to stop program:', error);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const totalSets = active ? countSets(active.days) : 0;
+    const dayIndex = active ? getProgramDayIndex(active) : 0;
+
+    return (
+        <main className="min-h-screen pb-20">
+            {/* Header */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+                <div className="max-w-4xl mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <Link href="/" className="p-2 rounded-xl bg-slate-800 hover:bg-slate-700 transition-colors">
+                            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </Link>
+                        <div>
+                            <h1 className="text-xl font-bold text-white">Programs</h1>
+                            <p className="text-sm text-slate-400">Multi-week plans with automatic progression</p>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+                {isLoading ? (
+                    <div className="animate-pulse h-40 bg-slate-800 rounded-2xl" />
+                ) : active ? (
+                    <section className="glass rounded-2xl p-6">
+                        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                            <div>
+                                <p className="text-xs text-cyan-400 uppercase tracking-wide mb-1">Active Program</p>
+                                <h2 className="text-lg font-semibold text-white">{active.name}</h2>
+                                <p className="text-sm text-slate-400">
+                                    Started {formatDate(active.startDate)} • Day {dayIndex + 1} of {active.days.length}
+                                </p>
+                            </div>
+                            <button onClick={handleStop} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                                Stop Program
+                            </button>
+                        </div>
+
+                        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-gradient-to-r from-cyan-500 to-purple-500 transition-all duration-1000"
+                                style={{ width: `${totalSets > 0 ? Math.min((completions.length / totalSets) * 100, 100) : 0}%` }}
+                            />
+                        </div>
+                        <p className="text-xs text-slate-400 mt-2">{completions.length}/{totalSets} sets completed</p>
+
+                        <h3 className="text-sm font-semibold text-white mt-6 mb-2">Current Targets</h3>
+                        <div className="grid sm:grid-cols-2 gap-2">
+                            {currentTargets(active).map(item => {
+                                const exercise = getExerciseById(item.exerciseId);
+                                const rule = item.progression ?? active.progression;
+                                return (
+                                    <div key={item.exerciseId} className="flex items-center gap-3 p-3 rounded-xl bg-slate-800/50">
+                                        <span className="text-2xl">{exercise?.icon ?? '🏋️'}</span>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-white text-sm font-medium truncate">{exercise?.name ?? item.exerciseId}</p>
+                                            <p className="text-xs text-slate-400">
+                                                Up to {rule.maxTarget}, +{rule.increment} after {rule.sessions} sets at {rule.minFormScore}%+ form
+                                            </p>
+                                        </div>
+                                        <span className="text-lg font-bold text-cyan-400">{item.targetReps}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </section>
+                ) : (
+                    <section className="glass rounded-2xl p-6 text-center">
+                        <p className="text-slate-300">No active program.</p>
+                        <p className="text-sm text-slate-400">Pick one below and today&apos;s plan appears on the home page.</p>
+                    </section>
+                )}
+
+                {/* Templates */}
+                <section>
+                    <h2 className="text-lg font-semibold text-white mb-4">Available Programs</h2>
+                    <div className="grid md:grid-cols-2 gap-4">
+                        {programTemplates.map(template => {
+                            const trainingDays = template.days.filter(d => d.items.length > 0).length;
+                            const isActive = active?.templateId === template.id;
+                            return (
+                                <div key={template.id} className="glass rounded-2xl p-6 flex flex-col">
+                                    <h3 className="text-white font-semibold mb-1">{template.name}</h3>
+                                    <p className="text-sm text-slate-400 flex-1">{template.description}</p>
+                                    <div className="flex gap-4 text-xs text-slate-500 my-4">
+                                        <span>{Math.ceil(template.days.length / 7)} weeks</span>
+                                        <span>{trainingDays} sessions</span>
+                                        <span>{countSets(template.days)} sets</span>
+                                    </div>
+                                    <button
+                                        onClick={() => handleStart(template.id)}
+                                        disabled={isBusy || isActive}
+                                        className="btn-primary disabled:opacity-50"
+                                    >
+                                        {isActive ? 'In Progress' : 'Start Program'}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </section>
+
+                {/* History */}
+                {history.length > 0 && (
+                    <section>
+                        <h2 className="text-lg font-semibold text-white mb-4">Past Programs</h2>
+                        <ul className="space-y-2">
+                            {history.map(program => (
+                                <li key={program.id} className="flex items-center justify-between p-4 rounded-xl bg-slate-800/50">
+                                    <div>
+                                        <p className="text-white text-sm font-medium">{program.name}</p>
+                                        <p className="text-xs text-slate-400">Started {formatDate(program.startDate)}</p>
+                                    </div>
+                                    <span className={`text-xs px-2 py-1 rounded-lg ${program.status === 'completed'
+                                        ? 'bg-green-500/20 text-green-300'
+                                        : 'bg-slate-700 text-slate-300'
+                                        }`}
+                                    >
+                                        {program.status === 'completed' ? 'Completed' : 'Stopped'}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                )}
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { buildReport, getAllRomMeasurements, loadCustomExercises } from '@/lib/db';
+import { fromDateKey, toDateKey } from '@/lib/Calendar';
+import { getAllExercises } from '@/data/exercises';
+import { romTests } from '@/data/romTests';
+import { MIN_CORRELATION_PAIRS } from '@/lib/Outcomes';
+import { ReportData, RomMeasurement } from '@/types';
+
+function formatDate(key: string): string {
+    return fromDateKey(key).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function ReportPage() {
+    const [period, setPeriod] = useState<ReportData['period']>('week');
+    const [endDate, setEndDate] = useState(() => toDateKey(new Date()));
+    const [report, setReport] = useState<ReportData | null>(null);
+    const [rom, setRom] = useState<RomMeasurement[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const loadReport = async () => {
+            try {
+                setIsLoading(true);
+                await loadCustomExercises();
+                const data = await buildReport(period, fromDateKey(endDate));
+                const measurements = await getAllRomMeasurements();
+
+                setReport(data);
+                setRom(measurements.filter(m => {
+                    const day = toDateKey(new Date(m.date));
+                    return day >= data.startDate && day <= data.endDate;
+                }));
+            } catch (error) {
+                console.error('Failed to build report:', error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        loadReport();
+    }, [period, endDate]);
+
+    const exercises = getAllExercises();
+
+    // Latest reading per test and side inside the period
+    const latestRom = romTests
+        .map(test => ({
+            test,
+            left: rom.filter(m => m.testId === test.id && m.side === 'left').pop(),
+            right: rom.filter(m => m.testId === test.id && m.side === 'right').pop(),
+        }))
+        .filter(r => r.left || r.right);
+
+    return (
+        <main className="min-h-screen pb-20 print:pb-0">
+            {/* Toolbar (not printed) */}
+            <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50 print:hidden">
+                <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="flex items-center gap-4">
+                            <Link
+                                href="/dashboard"
+                                className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                            >
+                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                                </svg>
+                            </Link>
+                            <h1 className="text-xl font-bold text-white">Progress Report</h1>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <select
+                                value={period}
+                                onChange={(e) => setPeriod(e.target.value as ReportData['period'])}
+                                className="bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white"
+                            >
+                                <option value="week">Last 7 days</option>
+                                <option value="month">Last 30 days</option>
+                            </select>
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => e.target.value && setEndDate(e.target.value)}
+                                className="bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white"
+                            />
+                            <button onClick={() => window.print()} disabled={!report} className="btn-primary disabled:opacity-50">
+                                Print / Save PDF
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:p-0 print:max-w-none">
+                {isLoading || !report ? (
+                    <div className="flex justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+                    </div>
+                ) : (
+                    <article className="bg-white text-slate-900 rounded-2xl p-8 shadow-xl print:shadow-none print:rounded-none print:p-0 space-y-8">
+                        <div className="flex items-start justify-between border-b border-slate-200 pb-4">
+                            <div>
+                                <h2 className="text-2xl font-bold">Physio.AI Progress Report</h2>
+                                <p className="text-sm text-slate-500">
+                                    {formatDate(report.startDate)} – {formatDate(report.endDate)}
+                                </p>
+                            </div>
+                            <p className="text-xs text-slate-500 text-right">
+                                Generated {new Date().toLocaleDateString()}<br />
+                                Recorded on the patient&apos;s device
+                            </p>
+                        </div>
+
+                        {/* Summary */}
+                        <section className="grid grid-cols-3 gap-4">
+                            {[
+                                { label: 'Workouts', value: report.totalWorkouts },
+                                { label: 'Total reps', value: report.totalReps },
+                                { label: 'Active time', value: `${Math.round(report.totalDuration / 60)} min` },
+                                { label: 'Average form score', value: `${report.avgFormScore}%` },
+                                {
+                                    label: 'Form vs previous period',
+                                    value: `${report.improvement > 0 ? '+' : ''}${report.improvement}%`,
+                                },
+                                { label: 'Longest daily streak', value: `${report.streakDays} days` },
+                            ].map(item => (
+                                <div key={item.label} className="border border-slate-200 rounded-xl p-4">
+                                    <p className="text-xs text-slate-500">{item.label}</p>
+                                    <p className="text-2xl font-bold">{item.value}</p>
+                                </div>
+                            ))}
+                        </section>
+
+                        {/* Exercises */}
+                        <section>
+                            <h3 className="font-semibold mb-2">Exercises</h3>
+                            {report.exerciseBreakdown.length === 0 ? (
+                                <p className="text-sm text-slate-500">No workouts in this period.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-slate-500 border-b border-slate-200">
+                                            <th className="py-2 pr-4">Exercise</th>
+                                            <th className="py-2 pr-4 text-right">Reps / seconds</th>
+                                            <th className="py-2 text-right">Average form</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.exerciseBreakdown.map(item => {
+                                            const exercise = exercises.find(e => e.id === item.exerciseId);
+                                            return (
+                                                <tr key={item.exerciseId} className="border-b border-slate-100">
+                                                    <td className="py-2 pr-4">{exercise?.name || item.exerciseId}</td>
+                                                    <td className="py-2 pr-4 text-right">
+                                                        {item.reps}{exercise?.phaseDirection === 'isometric' ? ' s' : ''}
+                                                    </td>
+                                                    <td className="py-2 text-right">{item.avgScore}%</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            )}
+                        </section>
+
+                        {/* Range of motion */}
+                        {latestRom.length > 0 && (
+                            <section>
+                                <h3 className="font-semibold mb-2">Range of Motion (latest in period)</h3>
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-slate-500 border-b border-slate-200">
+                                            <th className="py-2 pr-4">Test</th>
+                                            <th className="py-2 pr-4 text-right">Left</th>
+                                            <th className="py-2 pr-4 text-right">Right</th>
+                                            <th className="py-2 text-right">Normal</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {latestRom.map(({ test, left, right }) => (
+                                            <tr key={test.id} className="border-b border-slate-100">
+                                                <td className="py-2 pr-4">{test.name}</td>
+                                                <td className="py-2 pr-4 text-right">{left ? `${left.peakAngle}°` : '--'}</td>
+                                                <td className="py-2 pr-4 text-right">{right ? `${right.peakAngle}°` : '--'}</td>
+                                                <td className="py-2 text-right text-slate-500">{test.normalRange}°</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </section>
+                        )}
+
+                        {/* Patient-reported outcomes */}
+                        {report.outcomeSessions.length > 0 && (
+                            <section className="break-inside-avoid">
+                                <h3 className="font-semibold mb-2">Patient-Reported Outcomes</h3>
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-slate-500 border-b border-slate-200">
+                                            <th className="py-2 pr-4">Date</th>
+                                            <th className="py-2 pr-4">Exercise</th>
+                                            <th className="py-2 pr-4 text-right">Pain (0-10)</th>
+                                            <th className="py-2 pr-4 text-right">RPE</th>
+                                            <th className="py-2 pr-4 text-right">Camera mean / peak</th>
+                                            <th className="py-2">Notes</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.outcomeSessions.map(s => (
+                                            <tr key={s.id} className="border-b border-slate-100 align-top">
+                                                <td className="py-2 pr-4">{formatDate(toDateKey(new Date(s.date)))}</td>
+                                                <td className="py-2 pr-4">{exercises.find(e => e.id === s.exerciseId)?.name ?? s.exerciseId}</td>
+                                                <td className="py-2 pr-4 text-right">
+                                                    {s.outcomes?.painBefore ?? '--'} → {s.outcomes?.painAfter ?? '--'}
+                                                </td>
+                                                <td className="py-2 pr-4 text-right">{s.outcomes?.rpe ?? '--'}</td>
+                                                <td className="py-2 pr-4 text-right">
+                                                    {s.cameraPainMean !== undefined ? `${s.cameraPainMean} / ${s.cameraPainPeak}` : '--'}
+                                                </td>
+                                                <td className="py-2 text-slate-600">{s.outcomes?.notes ?? ''}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-xs text-slate-500 mt-2">
+                                    {report.painCorrelation.pairs >= MIN_CORRELATION_PAIRS
+                                        ? `Reported pain after exercise vs camera estimate over ${report.painCorrelation.pairs} sessions: `
+                                        + `r = ${report.painCorrelation.meanR ?? 'n/a'} (mean), ${report.painCorrelation.peakR ?? 'n/a'} (peak).`
+                                        : `Camera correlation needs at least ${MIN_CORRELATION_PAIRS} sessions with a pain rating after exercise `
+                                        + `(${report.painCorrelation.pairs} so far).`}
+                                </p>
+                            </section>
+                        )}
+
+                        {/* Daily log */}
+                        <section className="break-inside-avoid">
+                            <h3 className="font-semibold mb-2">Daily Log</h3>
+                            {report.dailyData.length === 0 ? (
+                                <p className="text-sm text-slate-500">No activity recorded.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-slate-500 border-b border-slate-200">
+                                            <th className="py-2 pr-4">Date</th>
+                                            <th className="py-2 pr-4 text-right">Workouts</th>
+                                            <th className="py-2 pr-4 text-right">Reps</th>
+                                            <th className="py-2 pr-4 text-right">Minutes</th>
+                                            <th className="py-2 text-right">Form</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.dailyData.map(day => (
+                                            <tr key={day.date} className="border-b border-slate-100">
+                                                <td className="py-2 pr-4">{formatDate(day.date)}</td>
+                                                <td className="py-2 pr-4 text-right">{day.exerciseCount}</td>
+                                                <td className="py-2 pr-4 text-right">{day.totalReps}</td>
+                                                <td className="py-2 pr-4 text-right">{Math.round(day.totalDuration / 60)}</td>
+                                                <td className="py-2 text-right">{Math.round(day.avgFormScore)}%</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </section>
+
+                        <p className="text-xs text-slate-400 border-t border-slate-200 pt-4">
+                            Form scores and joint angles are estimated from a single camera and are intended to support,
+                            not replace, clinical assessment.
+                        </p>
+                    </article>
+                )}
+            </div>
+        </main>
+    );
+}
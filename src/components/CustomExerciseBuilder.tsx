@@ -0,0 +1,384 @@
+'use client';
+
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    AngleAggregation,
+    ExerciseDefinition,
+    FeatureSpace,
+    FormCriterion,
+    LandmarkTriplet,
+    PhaseDirection,
+    PoseLandmark,
+    SidePolicy,
+} from '@/types';
+import { jointAnglePresets } from '@/data/exercises';
+import { formChecks } from '@/lib/FormCriteria';
+import { mirrorLandmark } from '@/lib/Biometrics';
+
+interface CustomExerciseBuilderProps {
+    initial?: ExerciseDefinition;
+    onSave: (exercise: ExerciseDefinition) => void | Promise<void>;
+    onCancel: () => void;
+}
+
+const CUSTOM_PRESET = 'custom';
+
+const landmarkOptions = Object.keys(PoseLandmark)
+    .filter(key => isNaN(Number(key)))
+    .map(key => ({
+        value: PoseLandmark[key as keyof typeof PoseLandmark],
+        label: key.toLowerCase().replace(/_/g, ' '),
+    }));
+
+// Landmarks offered as key landmarks: face detail is left out
+const bodyLandmarkOptions = landmarkOptions.filter(
+    option => option.value === PoseLandmark.NOSE || option.value >= PoseLandmark.LEFT_SHOULDER
+);
+
+const checkOptions = Object.keys(formChecks).map(checkFunction => ({
+    checkFunction,
+    label: checkFunction.replace(/^check/, '').replace(/([a-z])([A-Z])/g, '$1 $2'),
+}));
+
+const inputClass = 'w-full px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm focus:outline-none focus:border-cyan-500';
+const labelClass = 'block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1';
+
+function findPreset(landmarks: LandmarkTriplet): string {
+    const preset = jointAnglePresets.find(p => p.landmarks.every((l, i) => l === landmarks[i]));
+    return preset ? preset.id : CUSTOM_PRESET;
+}
+
+function splitLines(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export default function CustomExerciseBuilder({ initial, onSave, onCancel }: CustomExerciseBuilderProps) {
+    const [name, setName] = useState(initial?.name ?? '');
+    const [description, setDescription] = useState(initial?.description ?? '');
+    const [icon, setIcon] = useState(initial?.icon ?? '🩺');
+    const [category, setCategory] = useState<ExerciseDefinition['category']>(initial?.category ?? 'lower');
+    const [difficulty, setDifficulty] = useState<ExerciseDefinition['difficulty']>(initial?.difficulty ?? 'beginner');
+    const [muscles, setMuscles] = useState(initial?.primaryMuscles.join(', ') ?? '');
+    const [triplet, setTriplet] = useState<LandmarkTriplet>(initial?.primaryAngle.landmarks ?? jointAnglePresets[0].landmarks);
+    const [preset, setPreset] = useState(initial ? findPreset(initial.primaryAngle.landmarks) : jointAnglePresets[0].id);
+    const [sidePolicy, setSidePolicy] = useState<SidePolicy>(initial?.primaryAngle.sidePolicy ?? 'bilateral');
+    const [aggregation, setAggregation] = useState<AngleAggregation>(initial?.primaryAngle.aggregation ?? 'mean');
+    const [phaseDirection, setPhaseDirection] = useState<PhaseDirection>(initial?.phaseDirection ?? 'flexion-first');
+    const [downAngle, setDownAngle] = useState(initial?.downAngleThreshold ?? 90);
+    const [upAngle, setUpAngle] = useState(initial?.upAngleThreshold ?? 160);
+    const [hysteresis, setHysteresis] = useState(initial?.hysteresis ?? 10);
+    const [featureSpace, setFeatureSpace] = useState<FeatureSpace>(initial?.featureSpace ?? 'position');
+    const [keyLandmarks, setKeyLandmarks] = useState<PoseLandmark[]>(initial?.keyLandmarks ?? []);
+    const [checks, setChecks] = useState<string[]>(initial?.formCriteria.map(c => c.checkFunction) ?? ['checkFullROM']);
+    const [instructions, setInstructions] = useState(initial?.instructions.join('\n') ?? '');
+    const [benefits, setBenefits] = useState(initial?.benefits.join('\n') ?? '');
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const isIsometric = phaseDirection === 'isometric';
+
+    const handlePresetChange = (id: string) => {
+        setPreset(id);
+        const match = jointAnglePresets.find(p => p.id === id);
+        if (match) setTriplet(match.landmarks);
+    };
+
+    const handleTripletChange = (index: number, landmark: PoseLandmark) => {
+        const next = [...triplet] as LandmarkTriplet;
+        next[index] = landmark;
+        setTriplet(next);
+        setPreset(findPreset(next));
+    };
+
+    const toggleKeyLandmark = (landmark: PoseLandmark) => {
+        setKeyLandmarks(prev => prev.includes(landmark)
+            ? prev.filter(l => l !== landmark)
+            : [...prev, landmark]);
+    };
+
+    const toggleCheck = (checkFunction: string) => {
+        setChecks(prev => prev.includes(checkFunction)
+            ? prev.filter(c => c !== checkFunction)
+            : [...prev, checkFunction]);
+    };
+
+    const validate = (): string[] => {
+        const problems: string[] = [];
+        if (!name.trim()) problems.push('Name is required');
+        if (new Set(triplet).size < 3) problems.push('The joint angle needs three different landmarks');
+        if (!isIsometric && Math.abs(downAngle - upAngle) <= 2 * hysteresis) {
+            problems.push('Thresholds must be further apart than twice the hysteresis');
+        }
+        if (splitLines(instructions).length === 0) problems.push('Add at least one instruction');
+        return problems;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const problems = validate();
+        setErrors(problems);
+        if (problems.length > 0) return;
+
+        // The driving joint is always tracked, on both sides
+        const tracked = new Set<PoseLandmark>(keyLandmarks);
+        triplet.forEach(l => {
+            tracked.add(l);
+            tracked.add(mirrorLandmark(l));
+        });
+
+        const formCriteria: FormCriterion[] = checks.map(checkFunction => ({
+            id: checkFunction,
+            name: checkOptions.find(o => o.checkFunction === checkFunction)?.label ?? checkFunction,
+            description: '',
+            checkFunction,
+            weight: Math.round((1 / checks.length) * 100) / 100,
+        }));
+
+        // A recorded demonstration only stays meaningful while it measured the same joint
+        const sameJoint = initial?.primaryAngle.landmarks.every((l, i) => l === triplet[i]);
+
+        setIsSaving(true);
+        try {
+            await onSave({
+                id: initial?.id ?? `custom-${uuidv4()}`,
+                name: name.trim(),
+                description: description.trim(),
+                icon: icon.trim() || '🩺',
+                category,
+                difficulty,
+                primaryMuscles: muscles.split(',').map(m => m.trim()).filter(Boolean),
+                keyLandmarks: Array.from(tracked).sort((a, b) => a - b),
+                primaryAngle: {
+                    landmarks: triplet,
+                    sidePolicy,
+                    aggregation,
+                    minVisibility: initial?.primaryAngle.minVisibility ?? 0.5,
+                },
+                phaseDirection,
+                downAngleThreshold: downAngle,
+                upAngleThreshold: upAngle,
+                hysteresis,
+                formCriteria,
+                instructions: splitLines(instructions),
+                benefits: splitLines(benefits),
+                isCustom: true,
+                referenceMotion: sameJoint ? initial?.referenceMotion : undefined,
+                featureSpace,
+            });
+        } catch (error) {
+            console.error('Failed to save custom exercise:', error);
+            setErrors(['Could not save the exercise. Please try again.']);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass rounded-3xl p-6 space-y-6">
+            {/* Basics */}
+            <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr] gap-4">
+                <div>
+                    <label className={labelClass}>Icon</label>
+                    <input className={`${inputClass} text-center text-xl`} value={icon} onChange={e => setIcon(e.target.value)} maxLength={4} />
+                </div>
+                <div>
+                    <label className={labelClass}>Name</label>
+                    <input className={inputClass} value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Heel Slides" />
+                </div>
+            </div>
+
+            <div>
+                <label className={labelClass}>Description</label>
+                <input className={inputClass} value={description} onChange={e => setDescription(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Category</label>
+                    <select className={inputClass} value={category} onChange={e => setCategory(e.target.value as ExerciseDefinition['category'])}>
+                        <option value="upper">Upper</option>
+                        <option value="lower">Lower</option>
+                        <option value="core">Core</option>
+                        <option value="full-body">Full body</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Difficulty</label>
+                    <select className={inputClass} value={difficulty} onChange={e => setDifficulty(e.target.value as ExerciseDefinition['difficulty'])}>
+                        <option value="beginner">Beginner</option>
+                        <option value="intermediate">Intermediate</option>
+                        <option value="advanced">Advanced</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Muscles</label>
+                    <input className={inputClass} value={muscles} onChange={e => setMuscles(e.target.value)} placeholder="Hamstrings, Quadriceps" />
+                </div>
+            </div>
+
+            {/* Driving joint angle */}
+            <div className="rounded-2xl bg-slate-900/50 border border-slate-800 p-4 space-y-4">
+                <p className="text-sm font-bold text-white">Rep-driving joint angle</p>
+                <div>
+                    <label className={labelClass}>Joint</label>
+                    <select className={inputClass} value={preset} onChange={e => handlePresetChange(e.target.value)}>
+                        {jointAnglePresets.map(p => (
+                            <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                        <option value={CUSTOM_PRESET}>Custom landmarks</option>
+                    </select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                    {['Proximal', 'Vertex', 'Distal'].map((label, index) => (
+                        <div key={label}>
+                            <label className={labelClass}>{label}</label>
+                            <select
+                                className={inputClass}
+                                value={triplet[index]}
+                                onChange={e => handleTripletChange(index, Number(e.target.value) as PoseLandmark)}
+                            >
+                                {landmarkOptions.map(o => (
+                                    <option key={o.value} value={o.value}>{o.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                        <label className={labelClass}>Side</label>
+                        <select className={inputClass} value={sidePolicy} onChange={e => setSidePolicy(e.target.value as SidePolicy)}>
+                            <option value="bilateral">Both sides</option>
+                            <option value="most-visible">Most visible side</option>
+                            <option value="left">Left only</option>
+                            <option value="right">Right only</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Combine sides</label>
+                        <select
+                            className={inputClass}
+                            value={aggregation}
+                            disabled={sidePolicy !== 'bilateral'}
+                            onChange={e => setAggregation(e.target.value as AngleAggregation)}
+                        >
+                            <option value="mean">Mean</option>
+                            <option value="min">Smallest angle</option>
+                            <option value="max">Largest angle</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Movement</label>
+                        <select className={inputClass} value={phaseDirection} onChange={e => setPhaseDirection(e.target.value as PhaseDirection)}>
+                            <option value="flexion-first">Flexion first (bend, then return)</option>
+                            <option value="extension-first">Extension first (open, then return)</option>
+                            <option value="isometric">Isometric hold</option>
+                        </select>
+                    </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <label className={labelClass}>Down angle °</label>
+                        <input
+                            type="number"
+                            className={inputClass}
+                            value={downAngle}
+                            min={0}
+                            max={180}
+                            disabled={isIsometric}
+                            onChange={e => setDownAngle(Number(e.target.value))}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{isIsometric ? 'Hold angle °' : 'Up angle °'}</label>
+                        <input type="number" className={inputClass} value={upAngle} min={0} max={180} onChange={e => setUpAngle(Number(e.target.value))} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{isIsometric ? 'Tolerance °' : 'Hysteresis °'}</label>
+                        <input type="number" className={inputClass} value={hysteresis} min={0} max={45} onChange={e => setHysteresis(Number(e.target.value))} />
+                    </div>
+                </div>
+            </div>
+
+            {/* Key landmarks */}
+            <div>
+                <label className={labelClass}>Key landmarks</label>
+                <p className="text-xs text-slate-500 mb-2">The joint angle landmarks are always included on both sides.</p>
+                <div className="flex flex-wrap gap-2">
+                    {bodyLandmarkOptions.map(o => (
+                        <button
+                            key={o.value}
+                            type="button"
+                            onClick={() => toggleKeyLandmark(o.value)}
+                            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${keyLandmarks.includes(o.value)
+                                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                                }`}
+                        >
+                            {o.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Movement comparison */}
+            <div>
+                <label className={labelClass}>Compare with reference motion by</label>
+                <select className={inputClass} value={featureSpace} onChange={e => setFeatureSpace(e.target.value as FeatureSpace)}>
+                    <option value="position">Key landmark positions (body-normalized)</option>
+                    <option value="angles">Joint angles only</option>
+                </select>
+            </div>
+
+            {/* Form criteria */}
+            <div>
+                <label className={labelClass}>Form checks</label>
+                <p className="text-xs text-slate-500 mb-2">Selected checks share the form score equally.</p>
+                <div className="flex flex-wrap gap-2">
+                    {checkOptions.map(o => (
+                        <button
+                            key={o.checkFunction}
+                            type="button"
+                            onClick={() => toggleCheck(o.checkFunction)}
+                            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${checks.includes(o.checkFunction)
+                                ? 'bg-purple-500/20 border-purple-500/50 text-purple-300'
+                                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                                }`}
+                        >
+                            {o.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className={labelClass}>Instructions (one per line)</label>
+                    <textarea className={`${inputClass} h-32`} value={instructions} onChange={e => setInstructions(e.target.value)} />
+                </div>
+                <div>
+                    <label className={labelClass}>Benefits (one per line)</label>
+                    <textarea className={`${inputClass} h-32`} value={benefits} onChange={e => setBenefits(e.target.value)} />
+                </div>
+            </div>
+
+            {errors.length > 0 && (
+                <div className="px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/30 space-y-1">
+                    {errors.map(error => (
+                        <p key={error} className="text-red-400 text-sm">{error}</p>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={onCancel} className="btn-secondary">
+                    Cancel
+                </button>
+                <button type="submit" disabled={isSaving} className="btn-primary disabled:opacity-50">
+                    {isSaving ? 'Saving...' : initial ? 'Save Changes' : 'Create Exercise'}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { eraseAllData, getEncryptionConfig, runBackfills, unlockDatabase } from '@/lib/db';
+import { isUnlocked } from '@/lib/Encryption';
+
+/**
+ * Holds the app behind a passphrase prompt while the encrypted database is locked
+ */
+export default function DatabaseLock({ children }: { children: React.ReactNode }) {
+    const [status, setStatus] = useState<'checking' | 'locked' | 'unlocked'>('checking');
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isUnlocking, setIsUnlocking] = useState(false);
+
+    // Derived-data backfills need readable records, so they wait for the unlock
+    const openApp = async () => {
+        try {
+            await runBackfills();
+        } catch (err) {
+            console.error('Failed to backfill derived data:', err);
+        }
+        setStatus('unlocked');
+    };
+
+    useEffect(() => {
+        getEncryptionConfig()
+            .then(config => (config && !isUnlocked() ? setStatus('locked') : openApp()))
+            .catch((err) => {
+                // Without IndexedDB there is nothing to unlock; pages report their own errors
+                console.error('Failed to read encryption settings:', err);
+                setStatus('unlocked');
+            });
+    }, []);
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsUnlocking(true);
+        setError(null);
+        try {
+            if (await unlockDatabase(passphrase)) {
+                setPassphrase('');
+                await openApp();
+            } else {
+                setError('Incorrect passphrase');
+            }
+        } catch (err) {
+            console.error('Unlock failed:', err);
+            setError('Could not unlock the database');
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    const handleErase = async () => {
+        if (!confirm('Erase all workouts, stats and assessments on this device? This cannot be undone.')) return;
+        await eraseAllData();
+        window.location.reload();
+    };
+
+    if (status === 'unlocked') return <>{children}</>;
+
+    if (status === 'checking') {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <main className="min-h-screen flex items-center justify-center px-4">
+            <form onSubmit={handleUnlock} className="glass rounded-2xl p-8 w-full max-w-sm space-y-5">
+                <div className="text-center">
+                    <div className="text-5xl mb-3">🔒</div>
+                    <h1 className="text-xl font-bold text-white">Physio.AI is locked</h1>
+                    <p className="text-sm text-slate-400 mt-1">Enter your passphrase to decrypt your data</p>
+                </div>
+
+                <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    autoFocus
+                    autoComplete="current-password"
+                    className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500"
+                />
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                <button type="submit" disabled={isUnlocking || !passphrase} className="btn-primary w-full disabled:opacity-50">
+                    {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                </button>
+
+                <p className="text-xs text-slate-500 text-center">
+                    Forgot it? Your data cannot be recovered without the passphrase.{' '}
+                    <button type="button" onClick={handleErase} className="text-red-400 hover:underline">
+                        Erase and start over
+                    </button>
+                </p>
+            </form>
+        </main>
+    );
+}
@@ -7,12 +7,14 @@ interface FeedbackPanelProps {
     exerciseState: ExerciseState;
     exercise: ExerciseDefinition | undefined;
     elapsedTime: number;
+    hasGoldStandard?: boolean;
 }
 
 export default function FeedbackPanel({
     exerciseState,
     exercise,
     elapsedTime,
+    hasGoldStandard = false,
 }: FeedbackPanelProps) {
     const formatTime = (seconds: number): string => {
         const mins = Math.floor(seconds / 60);
@@ -59,10 +61,10 @@ export default function FeedbackPanel({
                 <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-slate-800/80 to-slate-900/80 backdrop-blur-xl border border-slate-700/50 p-6">
                     <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-cyan-500/10 to-transparent rounded-full blur-2xl" />
                     <div className="relative">
-                        <p className="text-slate-400 text-sm mb-1">{exercise?.id === 'plank' ? 'Hold Time' : 'Reps'}</p>
+                        <p className="text-slate-400 text-sm mb-1">{exercise?.phaseDirection === 'isometric' ? 'Hold Time' : 'Reps'}</p>
                         <p className="text-5xl font-black text-white">
                             {exerciseState.repCount}
-                            {exercise?.id === 'plank' && <span className="text-2xl ml-1 font-bold text-slate-400">s</span>}
+                            {exercise?.phaseDirection === 'isometric' && <span className="text-2xl ml-1 font-bold text-slate-400">s</span>}
                         </p>
                         <p className="text-cyan-400 text-sm mt-2 font-medium">
                             {getPhaseLabel(exerciseState.phase)}
@@ -103,8 +105,63 @@ export default function FeedbackPanel({
                         style={{ width: `${exerciseState.formScore}%` }}
                     />
                 </div>
+
+                {/* Per-criterion breakdown */}
+                {exerciseState.criteria.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                        {exerciseState.criteria.map((criterion) => (
+                            <div key={criterion.criterionId}>
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className={criterion.score < 80 ? 'text-white font-semibold' : 'text-slate-400'}>
+                                        {criterion.name}
+                                        <span className="text-slate-500 font-normal"> ×{criterion.weight}</span>
+                                    </span>
+                                    <span className={`font-bold ${getFormColor(criterion.score)}`}>{criterion.score}%</span>
+                                </div>
+                                <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden mt-1">
+                                    <div
+                                        className={`h-full bg-gradient-to-r ${getFormGradient(criterion.score)} transition-all duration-300`}
+                                        style={{ width: `${criterion.score}%` }}
+                                    />
+                                </div>
+                                {criterion.message && (
+                                    <p className={`text-[11px] mt-1 ${getFormColor(criterion.score)}`}>{criterion.message}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
 
+            {/* Movement quality vs gold standard */}
+            {hasGoldStandard && exercise?.phaseDirection !== 'isometric' && (
+                <div className="rounded-2xl bg-slate-800/50 border border-slate-700/30 p-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="text-slate-400 text-sm">Movement Quality</p>
+                        {exerciseState.qualityScore !== null && (
+                            <p className={`text-xl font-bold ${getFormColor(exerciseState.qualityScore)}`}>
+                                {exerciseState.qualityScore}%
+                                <span className="text-xs font-normal text-slate-500"> avg</span>
+                            </p>
+                        )}
+                    </div>
+                    {exerciseState.repQuality.length > 0 ? (
+                        <div className="flex items-end gap-1 h-10">
+                            {exerciseState.repQuality.slice(-12).map((rep) => (
+                                <div
+                                    key={rep.rep}
+                                    title={`Rep ${rep.rep}: ${rep.qualityScore}%`}
+                                    className={`flex-1 rounded-t bg-gradient-to-t ${getFormGradient(rep.qualityScore)}`}
+                                    style={{ height: `${Math.max(8, rep.qualityScore)}%` }}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-xs text-slate-500">Each rep is compared with the reference motion once counted.</p>
+                    )}
+                </div>
+            )}
+
             {/* Joint angle & velocity */}
             <div className="grid grid-cols-2 gap-4">
                 <div className="rounded-2xl bg-slate-800/50 border border-slate-700/30 p-4">
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import type { SetPlan } from '@/lib/GuidedWorkout';
+import type { PlanItemStatus } from '@/lib/Programs';
+
+interface GuidedSetsPanelProps {
+    enabled: boolean;
+    plan: SetPlan;
+    isIsometric: boolean;
+    planItem: PlanItemStatus | null; // set when today's program prescribes this exercise
+    inCircuit: boolean;
+    onToggle: (enabled: boolean) => void;
+    onChange: (plan: SetPlan) => void;
+}
+
+const FIELDS: { key: keyof SetPlan; label: string; min: number; max: number }[] = [
+    { key: 'sets', label: 'Sets', min: 1, max: 10 },
+    { key: 'targetReps', label: 'Target', min: 1, max: 120 },
+    { key: 'restSeconds', label: 'Rest (s)', min: 0, max: 300 },
+];
+
+export default function GuidedSetsPanel({
+    enabled,
+    plan,
+    isIsometric,
+    planItem,
+    inCircuit,
+    onToggle,
+    onChange,
+}: GuidedSetsPanelProps) {
+    return (
+        <div className="mb-6 p-4 rounded-2xl bg-slate-800/60 border border-slate-700/50 text-left">
+            <label className="flex items-center gap-3 text-sm text-white cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => onToggle(e.target.checked)}
+                    className="w-4 h-4 accent-cyan-500"
+                />
+                Guided sets with rest timer
+            </label>
+
+            {enabled && (
+                <div className="grid grid-cols-3 gap-2 mt-3">
+                    {FIELDS.map(({ key, label, min, max }) => (
+                        <label key={key} className="text-xs text-slate-400">
+                            {key === 'targetReps' ? (isIsometric ? 'Hold (s)' : 'Reps') : label}
+                            <input
+                                type="number"
+                                min={min}
+                                max={max}
+                                value={plan[key]}
+                                onChange={(e) => {
+                                    const value = Math.round(Number(e.target.value));
+                                    if (Number.isFinite(value)) onChange({ ...plan, [key]: Math.min(max, Math.max(min, value)) });
+                                }}
+                                className="mt-1 w-full px-2 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-white text-sm"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            {planItem && (
+                <p className="text-xs text-cyan-400 mt-3">
+                    📋 {inCircuit ? 'Circuit from today\'s plan' : 'In today\'s plan'}: {planItem.setsDone}/{planItem.item.sets} sets done
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import PainScale from '@/components/PainScale';
+import { HaltPhase, HaltRecoveryAction } from '@/lib/HaltRecovery';
+import { ExerciseDefinition } from '@/types';
+
+interface HaltRecoveryOverlayProps {
+    phase: Exclude<HaltPhase, 'closed'>;
+    reason: string;
+    message: string;
+    restRemaining: number; // seconds
+    painScore: number | undefined;
+    options: HaltRecoveryAction[];
+    resumeLabel: string; // e.g. "6 reps"
+    easierExercises: ExerciseDefinition[];
+    onPainChange: (score: number | undefined) => void;
+    onCheckIn: () => void;
+    onResume: () => void;
+    onSwitch: (exerciseId: string) => void;
+    onEnd: () => void;
+}
+
+/**
+ * Safety halt: mandatory rest, then a pain check-in that decides which ways forward are offered
+ */
+export default function HaltRecoveryOverlay({
+    phase,
+    reason,
+    message,
+    restRemaining,
+    painScore,
+    options,
+    resumeLabel,
+    easierExercises,
+    onPainChange,
+    onCheckIn,
+    onResume,
+    onSwitch,
+    onEnd,
+}: HaltRecoveryOverlayProps) {
+    return (
+        <div className="absolute inset-0 z-40 bg-red-950/40 backdrop-blur-md flex items-center justify-center p-6 text-center">
+            <div className="max-w-md w-full max-h-full overflow-y-auto bg-slate-900 border-4 border-red-600 rounded-3xl p-8 shadow-[0_0_50px_rgba(220,38,38,0.5)]">
+                <div className="text-6xl mb-4">🆘</div>
+                <h2 className="text-3xl font-bold text-white mb-2 uppercase tracking-tighter">Safety Halt</h2>
+                <p className="text-red-400 font-bold mb-4">{reason}</p>
+                <div className="p-4 bg-red-900/20 border border-red-700/30 rounded-2xl mb-6">
+                    <p className="text-white text-lg font-bold">&quot;{message}&quot;</p>
+                </div>
+
+                {phase === 'resting' && (
+                    <>
+                        <p className="text-slate-400 text-sm mb-2">Put everything down and rest.</p>
+                        <p className="text-5xl font-bold text-white mb-4">{restRemaining}s</p>
+                        <button onClick={onEnd} className="text-sm text-slate-400 hover:text-white underline">
+                            End session now
+                        </button>
+                    </>
+                )}
+
+                {phase === 'check-in' && (
+                    <div className="text-left">
+                        <PainScale label="How is your pain now? (0-10)" value={painScore} onChange={onPainChange} />
+                        <button
+                            onClick={onCheckIn}
+                            disabled={painScore === undefined}
+                            className="mt-4 w-full btn-primary disabled:opacity-50"
+                        >
+                            Continue
+                        </button>
+                    </div>
+                )}
+
+                {phase === 'deciding' && (
+                    <div className="space-y-3">
+                        {options.includes('resume') && (
+                            <button onClick={onResume} className="w-full btn-primary">
+                                Resume at a reduced target ({resumeLabel})
+                            </button>
+                        )}
+                        {options.includes('switch') && easierExercises.length > 0 && (
+                            <div className="text-left">
+                                <p className="text-xs text-slate-400 mb-2">Switch to an easier exercise</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {easierExercises.map(e => (
+                                        <button
+                                            key={e.id}
+                                            onClick={() => onSwitch(e.id)}
+                                            className="px-3 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white text-sm transition-colors"
+                                        >
+                                            {e.icon} {e.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {!options.includes('resume') && (
+                            <p className="text-slate-400 text-xs">
+                                Your pain is too high to carry on with this exercise. Please consult a professional if it persists.
+                            </p>
+                        )}
+                        <button
+                            onClick={onEnd}
+                            className="w-full px-6 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 text-white font-semibold transition-colors"
+                        >
+                            End session
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
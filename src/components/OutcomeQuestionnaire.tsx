@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import PainScale from '@/components/PainScale';
+import { BORG_LABELS, BORG_MAX, BORG_MIN } from '@/lib/Outcomes';
+import { SessionOutcomes } from '@/types';
+
+interface OutcomeQuestionnaireProps {
+    value: SessionOutcomes;
+    onChange: (value: SessionOutcomes) => void;
+}
+
+const BORG_SCORES = Array.from({ length: BORG_MAX - BORG_MIN + 1 }, (_, i) => BORG_MIN + i);
+
+/**
+ * Post-session check-in: pain now, perceived exertion and notes, all optional
+ */
+export default function OutcomeQuestionnaire({ value, onChange }: OutcomeQuestionnaireProps) {
+    return (
+        <div className="space-y-4 text-left">
+            <PainScale
+                label="Pain right now (0-10)"
+                value={value.painAfter}
+                onChange={(painAfter) => onChange({ ...value, painAfter })}
+            />
+
+            <label className="block text-xs text-slate-400">
+                How hard was it? (Borg RPE 6-20)
+                <select
+                    value={value.rpe ?? ''}
+                    onChange={(e) => onChange({ ...value, rpe: e.target.value ? Number(e.target.value) : undefined })}
+                    className="mt-1 w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-white text-sm"
+                >
+                    <option value="">Not rated</option>
+                    {BORG_SCORES.map(score => (
+                        <option key={score} value={score}>
+                            {score}{BORG_LABELS[score] ? ` - ${BORG_LABELS[score]}` : ''}
+                        </option>
+                    ))}
+                </select>
+            </label>
+
+            <label className="block text-xs text-slate-400">
+                Notes
+                <textarea
+                    value={value.notes ?? ''}
+                    onChange={(e) => onChange({ ...value, notes: e.target.value || undefined })}
+                    rows={2}
+                    placeholder="Anything your physio should know"
+                    className="mt-1 w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-white text-sm resize-none"
+                />
+            </label>
+        </div>
+    );
+}
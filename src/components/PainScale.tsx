@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { NPRS_MAX } from '@/lib/Outcomes';
+
+interface PainScaleProps {
+    label: string;
+    value: number | undefined;
+    onChange: (value: number | undefined) => void;
+}
+
+/**
+ * Numeric pain rating, 0 (no pain) to 10 (worst imaginable); tapping the chosen value clears it
+ */
+export default function PainScale({ label, value, onChange }: PainScaleProps) {
+    return (
+        <div>
+            <p className="text-xs text-slate-400 mb-2">{label}</p>
+            <div className="flex gap-1">
+                {Array.from({ length: NPRS_MAX + 1 }, (_, score) => (
+                    <button
+                        key={score}
+                        type="button"
+                        onClick={() => onChange(score === value ? undefined : score)}
+                        className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition-colors ${score === value
+                            ? score >= 7 ? 'bg-red-500 text-white' : score >= 4 ? 'bg-amber-500 text-white' : 'bg-green-500 text-white'
+                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                            }`}
+                    >
+                        {score}
+                    </button>
+                ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+                <span>No pain</span>
+                <span>Worst imaginable</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+    ComposedChart,
+    Bar,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+    ResponsiveContainer,
+} from 'recharts';
+import { getAllPainEvents } from '@/lib/db';
+import { addDays, toDateKey } from '@/lib/Calendar';
+import { ExerciseDefinition, PainEventKind, PainEventRecord, WorkoutSession } from '@/types';
+
+interface PainTimelineChartProps {
+    sessions: WorkoutSession[]; // newest first
+    exercises: ExerciseDefinition[];
+}
+
+const MAX_SESSIONS = 30;
+const TREND_DAYS = 28;
+
+const KIND_LABELS: Record<PainEventKind, string> = {
+    'effort': 'High effort',
+    'pain-alert': 'Pain alert',
+    'halt': 'Safety halt',
+};
+
+const KIND_STYLES: Record<PainEventKind, string> = {
+    'effort': 'bg-amber-500/20 text-amber-300',
+    'pain-alert': 'bg-red-500/20 text-red-300',
+    'halt': 'bg-red-900/60 text-red-200',
+};
+
+const tooltipStyle = {
+    backgroundColor: '#1e293b',
+    border: '1px solid #334155',
+    borderRadius: '12px',
+};
+
+/**
+ * Pain alerts and halts per session and their mean peak, or null without sessions
+ */
+function summarize(sessions: WorkoutSession[], events: PainEventRecord[]): { perSession: number; peak: number } | null {
+    if (sessions.length === 0) return null;
+    const ids = new Set(sessions.map(s => s.id));
+    const painful = events.filter(e => ids.has(e.sessionId) && e.kind !== 'effort');
+    const peaks = sessions.map(s => Math.max(0, ...painful.filter(e => e.sessionId === s.id).map(e => e.peakPainScore)));
+    return {
+        perSession: painful.length / sessions.length,
+        peak: peaks.reduce((a, b) => a + b, 0) / peaks.length,
+    };
+}
+
+export default function PainTimelineChart({ sessions, exercises }: PainTimelineChartProps) {
+    const [events, setEvents] = useState<PainEventRecord[]>([]);
+    const [exerciseId, setExerciseId] = useState<string | null>(null);
+
+    useEffect(() => {
+        getAllPainEvents()
+            .then((data) => {
+                setEvents(data);
+                const latest = data.reduce<PainEventRecord | null>(
+                    (a, b) => (!a || new Date(b.date) > new Date(a.date) ? b : a), null
+                );
+                setExerciseId(current => current ?? latest?.exerciseId ?? null);
+            })
+            .catch((error) => console.error('Failed to load pain events:', error));
+    }, []);
+
+    const trackedExercises = exercises.filter(e => sessions.some(s => s.exerciseId === e.id));
+    const selectedId = exerciseId ?? trackedExercises[0]?.id ?? null;
+    const exerciseSessions = sessions.filter(s => s.exerciseId === selectedId && s.id !== undefined);
+    const exerciseEvents = events.filter(e => e.exerciseId === selectedId);
+
+    // One point per session, oldest first; sessions without events are the good news
+    const chartData = exerciseSessions.slice(0, MAX_SESSIONS).reverse().map(s => {
+        const own = exerciseEvents.filter(e => e.sessionId === s.id);
+        const count = (kind: PainEventKind) => own.filter(e => e.kind === kind).length;
+        return {
+            date: new Date(s.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+            effort: count('effort'),
+            alerts: count('pain-alert'),
+            halts: count('halt'),
+            peak: Math.max(0, ...own.map(e => e.peakPainScore)),
+        };
+    });
+
+    // Last four weeks against the four before
+    const today = toDateKey(new Date());
+    const recentStart = addDays(today, 1 - TREND_DAYS);
+    const previousStart = addDays(recentStart, -TREND_DAYS);
+    const dayOf = (s: WorkoutSession) => toDateKey(new Date(s.date));
+    const recent = summarize(exerciseSessions.filter(s => dayOf(s) >= recentStart), exerciseEvents);
+    const previous = summarize(
+        exerciseSessions.filter(s => dayOf(s) >= previousStart && dayOf(s) < recentStart),
+        exerciseEvents
+    );
+
+    const latestEvents = [...exerciseEvents]
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.startTime - a.startTime)
+        .slice(0, 5);
+
+    return (
+        <div className="glass rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <span className="text-2xl">🩹</span>
+                Pain Timeline
+            </h3>
+
+            {trackedExercises.length === 0 ? (
+                <p className="text-center text-slate-400 py-8">No sessions yet</p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        {trackedExercises.map(e => (
+                            <button
+                                key={e.id}
+                                onClick={() => setExerciseId(e.id)}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${e.id === selectedId
+                                    ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
+                                    : 'bg-slate-800 text-slate-400 hover:text-white'
+                                    }`}
+                            >
+                                {e.icon} {e.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    {recent && previous && (
+                        <p className="text-sm text-slate-400 mb-4">
+                            Pain alerts per session: <span className="text-white font-semibold">{previous.perSession.toFixed(1)}</span>
+                            {' → '}
+                            <span className={`font-semibold ${recent.perSession <= previous.perSession ? 'text-green-400' : 'text-red-400'}`}>
+                                {recent.perSession.toFixed(1)}
+                            </span>
+                            {' '}• mean peak {previous.peak.toFixed(1)} → {recent.peak.toFixed(1)}
+                            <span className="text-slate-500"> (last 4 weeks vs the 4 before)</span>
+                        </p>
+                    )}
+
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                                <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                                <YAxis yAxisId="count" stroke="#64748b" fontSize={12} allowDecimals={false} />
+                                <YAxis yAxisId="pain" orientation="right" stroke="#64748b" fontSize={12} domain={[0, 10]} />
+                                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} />
+                                <Legend />
+                                <Bar yAxisId="count" dataKey="effort" name="High effort" stackId="events" fill="#f59e0b" />
+                                <Bar yAxisId="count" dataKey="alerts" name="Pain alerts" stackId="events" fill="#ef4444" />
+                                <Bar yAxisId="count" dataKey="halts" name="Halts" stackId="events" fill="#7f1d1d" />
+                                <Line yAxisId="pain" type="monotone" dataKey="peak" name="Peak pain (0-10)" stroke="#ec4899" strokeWidth={2} dot={{ r: 3 }} />
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    {latestEvents.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                            {latestEvents.map(e => (
+                                <div key={e.id} className="flex flex-wrap items-center gap-3 p-3 rounded-xl bg-slate-800/50 text-xs">
+                                    <span className={`px-2 py-0.5 rounded font-semibold ${KIND_STYLES[e.kind]}`}>{KIND_LABELS[e.kind]}</span>
+                                    <span className="text-slate-400">{new Date(e.date).toLocaleDateString()}</span>
+                                    <span className="text-white">rep {e.rep} • {e.jointAngle}° • peak {e.peakPainScore}</span>
+                                    <span className="text-slate-400">{((e.endTime - e.startTime) / 1000).toFixed(1)}s</span>
+                                    {e.actionUnits.length > 0 && (
+                                        <span className="text-slate-500">{e.actionUnits.join(', ')}</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -3,13 +3,14 @@
 import React from 'react';
 import Link from 'next/link';
 import { ExerciseDefinition } from '@/types';
-import { exercises } from '@/data/exercises';
+import { getAllExercises } from '@/data/exercises';
 
 interface RecommendationSectionProps {
     currentExerciseId: string;
 }
 
 export default function RecommendationSection({ currentExerciseId }: RecommendationSectionProps) {
+    const exercises = getAllExercises();
     const currentExercise = exercises.find(e => e.id === currentExerciseId);
 
     // Suggest exercises from same category or just others
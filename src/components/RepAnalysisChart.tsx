@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+    BarChart,
+    Bar,
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+    ResponsiveContainer,
+} from 'recharts';
+import { getSessionReps } from '@/lib/db';
+import { ExerciseDefinition, RepRecord, WorkoutSession } from '@/types';
+
+interface RepAnalysisChartProps {
+    sessions: WorkoutSession[];
+    exercises: ExerciseDefinition[];
+}
+
+const tooltipStyle = {
+    backgroundColor: '#1e293b',
+    border: '1px solid #334155',
+    borderRadius: '12px',
+};
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Change from the first third of the set to the last third, as a percentage of the first
+ */
+function fatigueChange(reps: RepRecord[], value: (rep: RepRecord) => number): number | null {
+    if (reps.length < 3) return null;
+    const third = Math.max(1, Math.floor(reps.length / 3));
+    const first = mean(reps.slice(0, third).map(value));
+    const last = mean(reps.slice(-third).map(value));
+    return first > 0 ? Math.round(((last - first) / first) * 100) : null;
+}
+
+export default function RepAnalysisChart({ sessions, exercises }: RepAnalysisChartProps) {
+    const repSessions = sessions.filter(s =>
+        s.id !== undefined && exercises.find(e => e.id === s.exerciseId)?.phaseDirection !== 'isometric'
+    );
+    const [sessionId, setSessionId] = useState<number | undefined>(repSessions[0]?.id);
+    const [reps, setReps] = useState<RepRecord[]>([]);
+
+    useEffect(() => {
+        if (sessionId === undefined) return;
+        getSessionReps(sessionId)
+            .then(setReps)
+            .catch((error) => console.error('Failed to load reps:', error));
+    }, [sessionId]);
+
+    const chartData = reps.map(r => ({
+        rep: r.rep,
+        rom: r.rangeOfMotion,
+        form: r.formScore,
+        quality: r.qualityScore,
+        concentric: +(r.concentricMs / 1000).toFixed(2),
+        eccentric: +(r.eccentricMs / 1000).toFixed(2),
+    }));
+
+    const romChange = fatigueChange(reps, r => r.rangeOfMotion);
+    const tempoChange = fatigueChange(reps, r => r.concentricMs);
+    const formChange = fatigueChange(reps, r => r.formScore);
+
+    return (
+        <div className="glass rounded-2xl p-6">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                    <span className="text-2xl">🔬</span>
+                    Rep-by-Rep Analysis
+                </h3>
+                {repSessions.length > 0 && (
+                    <select
+                        value={sessionId}
+                        onChange={(e) => setSessionId(Number(e.target.value))}
+                        className="bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white"
+                    >
+                        {repSessions.slice(0, 20).map(s => (
+                            <option key={s.id} value={s.id}>
+                                {exercises.find(e => e.id === s.exerciseId)?.name || s.exerciseId} • {new Date(s.date).toLocaleString()}
+                            </option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {reps.length === 0 ? (
+                <p className="text-center text-slate-400 py-8">
+                    No per-rep data yet. Reps are recorded for sessions finished after this update.
+                </p>
+            ) : (
+                <>
+                    {/* Fatigue summary: first third of the set vs last third */}
+                    <div className="grid grid-cols-3 gap-3 mb-6">
+                        {[
+                            { label: 'Range of motion', change: romChange },
+                            { label: 'Lifting time', change: tempoChange, higherIsWorse: true },
+                            { label: 'Form', change: formChange },
+                        ].map(({ label, change, higherIsWorse }) => {
+                            const worse = change !== null && (higherIsWorse ? change > 10 : change < -10);
+                            return (
+                                <div key={label} className="bg-slate-800/50 rounded-xl p-3">
+                                    <p className="text-xs text-slate-400">{label}</p>
+                                    <p className={`text-lg font-bold ${worse ? 'text-yellow-400' : 'text-white'}`}>
+                                        {change === null ? '--' : `${change > 0 ? '+' : ''}${change}%`}
+                                    </p>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                                <XAxis dataKey="rep" stroke="#64748b" fontSize={12} />
+                                <YAxis yAxisId="angle" stroke="#64748b" fontSize={12} unit="°" />
+                                <YAxis yAxisId="score" orientation="right" domain={[0, 100]} stroke="#64748b" fontSize={12} />
+                                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} labelFormatter={(rep) => `Rep ${rep}`} />
+                                <Legend />
+                                <Line yAxisId="angle" type="monotone" dataKey="rom" name="ROM (°)" stroke="#06b6d4" strokeWidth={2} dot={{ r: 3 }} />
+                                <Line yAxisId="score" type="monotone" dataKey="form" name="Form" stroke="#8b5cf6" strokeWidth={2} dot={{ r: 3 }} />
+                                <Line yAxisId="score" type="monotone" dataKey="quality" name="Movement quality" stroke="#10b981" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <div className="h-48 mt-6">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                                <XAxis dataKey="rep" stroke="#64748b" fontSize={12} />
+                                <YAxis stroke="#64748b" fontSize={12} unit="s" />
+                                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} labelFormatter={(rep) => `Rep ${rep}`} />
+                                <Legend />
+                                <Bar dataKey="concentric" name="Concentric (s)" stackId="tempo" fill="#ec4899" />
+                                <Bar dataKey="eccentric" name="Eccentric (s)" stackId="tempo" fill="#f59e0b" radius={[8, 8, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+    ReferenceLine,
+    ResponsiveContainer,
+} from 'recharts';
+import { getAllRomMeasurements } from '@/lib/db';
+import { romTests } from '@/data/romTests';
+import { RomMeasurement } from '@/types';
+
+export default function RomProgressChart() {
+    const [measurements, setMeasurements] = useState<RomMeasurement[]>([]);
+    const [testId, setTestId] = useState<string | null>(null);
+
+    useEffect(() => {
+        getAllRomMeasurements()
+            .then((data) => {
+                setMeasurements(data);
+                setTestId(current => current ?? data[data.length - 1]?.testId ?? null);
+            })
+            .catch((error) => console.error('Failed to load ROM measurements:', error));
+    }, []);
+
+    const measuredTests = romTests.filter(t => measurements.some(m => m.testId === t.id));
+    const test = measuredTests.find(t => t.id === testId);
+
+    // One point per assessment, with the left and right readings side by side
+    const points = new Map<string, { date: string; left?: number; right?: number }>();
+    measurements
+        .filter(m => m.testId === testId)
+        .forEach(m => {
+            const point = points.get(m.assessmentId)
+                ?? { date: new Date(m.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) };
+            point[m.side] = m.peakAngle;
+            points.set(m.assessmentId, point);
+        });
+    const chartData = Array.from(points.values());
+
+    return (
+        <div className="glass rounded-2xl p-6">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                    <span className="text-2xl">📐</span>
+                    Range of Motion
+                </h3>
+                <Link href="/assessment" className="text-cyan-400 text-sm hover:underline">
+                    New assessment
+                </Link>
+            </div>
+
+            {measuredTests.length === 0 ? (
+                <p className="text-center text-slate-400 py-8">No ROM assessments yet</p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        {measuredTests.map(t => (
+                            <button
+                                key={t.id}
+                                onClick={() => setTestId(t.id)}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${t.id === testId
+                                    ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
+                                    : 'bg-slate-800 text-slate-400 hover:text-white'
+                                    }`}
+                            >
+                                {t.name}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                                <XAxis dataKey="date" stroke="#64748b" fontSize={12} />
+                                <YAxis stroke="#64748b" fontSize={12} unit="°" />
+                                <Tooltip
+                                    contentStyle={{
+                                        backgroundColor: '#1e293b',
+                                        border: '1px solid #334155',
+                                        borderRadius: '12px',
+                                    }}
+                                    labelStyle={{ color: '#fff' }}
+                                />
+                                <Legend />
+                                {test && (
+                                    <ReferenceLine y={test.normalRange} stroke="#10b981" strokeDasharray="4 4" label={{ value: 'Normal', fill: '#10b981', fontSize: 12 }} />
+                                )}
+                                <Line type="monotone" dataKey="left" name="Left" stroke="#06b6d4" strokeWidth={2} dot={{ r: 4 }} connectNulls />
+                                <Line type="monotone" dataKey="right" name="Right" stroke="#ec4899" strokeWidth={2} dot={{ r: 4 }} connectNulls />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,11 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { getCurrentStreak } from '@/lib/db';
+import { EVERY_DAY, FREEZE_EARN_DAYS, MAX_FREEZES, getCurrentStreak, setStreakSchedule } from '@/lib/db';
 import { StreakData } from '@/types';
 
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
 interface StreakCounterProps {
     compact?: boolean;
 }
@@ -11,6 +13,7 @@ interface StreakCounterProps {
 export default function StreakCounter({ compact = false }: StreakCounterProps) {
     const [streak, setStreak] = useState<StreakData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [draftDays, setDraftDays] = useState<number[] | null>(null); // set while editing the schedule
 
     useEffect(() => {
         const loadStreak = async () => {
@@ -35,6 +38,24 @@ export default function StreakCounter({ compact = false }: StreakCounterProps) {
 
     const currentStreak = streak?.currentStreak ?? 0;
     const longestStreak = streak?.longestStreak ?? 0;
+    const freezes = streak?.freezesAvailable ?? 0;
+    const trainingDays = streak?.trainingDays ?? EVERY_DAY;
+    const isRestDay = !trainingDays.includes(new Date().getDay());
+
+    const toggleDraftDay = (day: number) => {
+        setDraftDays(days => days && (days.includes(day) ? days.filter(d => d !== day) : [...days, day]));
+    };
+
+    const saveSchedule = async () => {
+        if (!draftDays || draftDays.length === 0) return;
+        try {
+            await setStreakSchedule(draftDays);
+            setStreak(await getCurrentStreak());
+            setDraftDays(null);
+        } catch (error) {
+            console.error('Failed to save schedule:', error);
+        }
+    };
 
     if (compact) {
         return (
@@ -44,6 +65,9 @@ export default function StreakCounter({ compact = false }: StreakCounterProps) {
                     <p className="text-2xl font-bold text-white">{currentStreak}</p>
                     <p className="text-xs text-orange-300">Day Streak</p>
                 </div>
+                {freezes > 0 && (
+                    <div className="text-sm text-cyan-300" title="Streak freezes">❄️ {freezes}</div>
+                )}
             </div>
         );
     }
@@ -73,20 +97,26 @@ export default function StreakCounter({ compact = false }: StreakCounterProps) {
                         )}
                     </div>
                     <p className="text-slate-400 mt-2">
-                        {currentStreak === 0
-                            ? 'Start your streak today!'
-                            : currentStreak === 1
-                                ? 'day - Keep it going!'
-                                : `days - Amazing consistency!`}
+                        {currentStreak > 0 && isRestDay
+                            ? 'Rest day - your streak is safe'
+                            : currentStreak === 0
+                                ? 'Start your streak today!'
+                                : currentStreak === 1
+                                    ? 'day - Keep it going!'
+                                    : `days - Amazing consistency!`}
                     </p>
                 </div>
 
                 {/* Stats */}
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                     <div className="bg-slate-800/50 rounded-xl p-4 text-center">
                         <p className="text-2xl font-bold text-cyan-400">{longestStreak}</p>
                         <p className="text-xs text-slate-400">Longest Streak</p>
                     </div>
+                    <div className="bg-slate-800/50 rounded-xl p-4 text-center" title={`Earn one every ${FREEZE_EARN_DAYS} workout days, up to ${MAX_FREEZES}`}>
+                        <p className="text-2xl font-bold text-sky-300">❄️ {freezes}</p>
+                        <p className="text-xs text-slate-400">Freezes</p>
+                    </div>
                     <div className="bg-slate-800/50 rounded-xl p-4 text-center">
                         <p className="text-2xl font-bold text-purple-400">
                             {currentStreak >= 7 ? '🏆' : currentStreak >= 3 ? '🥈' : '🥉'}
@@ -95,6 +125,54 @@ export default function StreakCounter({ compact = false }: StreakCounterProps) {
                     </div>
                 </div>
 
+                {/* Weekly schedule */}
+                <div className="mt-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs text-slate-400">Training days</p>
+                        {draftDays ? (
+                            <div className="flex gap-3 text-xs">
+                                <button onClick={() => setDraftDays(null)} className="text-slate-400 hover:text-white">
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={saveSchedule}
+                                    disabled={draftDays.length === 0}
+                                    className="text-cyan-400 hover:underline disabled:opacity-50"
+                                >
+                                    Save
+                                </button>
+                            </div>
+                        ) : (
+                            <button onClick={() => setDraftDays(trainingDays)} className="text-xs text-cyan-400 hover:underline">
+                                Edit
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex gap-1">
+                        {DAY_LABELS.map((label, day) => {
+                            const isTraining = (draftDays ?? trainingDays).includes(day);
+                            return (
+                                <button
+                                    key={day}
+                                    onClick={() => toggleDraftDay(day)}
+                                    disabled={!draftDays}
+                                    className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors ${isTraining
+                                        ? 'bg-orange-500/30 text-orange-200'
+                                        : 'bg-slate-800 text-slate-500'
+                                        } ${day === new Date().getDay() ? 'ring-1 ring-white/40' : ''}`}
+                                >
+                                    {label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {streak && streak.frozenDays.length > 0 && (
+                        <p className="text-xs text-sky-300 mt-2">
+                            ❄️ Freezes covered {streak.frozenDays.length} missed day{streak.frozenDays.length === 1 ? '' : 's'}
+                        </p>
+                    )}
+                </div>
+
                 {/* Streak milestones */}
                 <div className="mt-4 flex items-center gap-2">
                     {[3, 7, 14, 30].map((milestone) => (
@@ -0,0 +1,145 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { ExerciseDefinition, ReferenceMotion } from '@/types';
+import type { ThresholdProposal } from '@/lib/DemonstrationRecorder';
+
+interface TeachModePanelProps {
+    exercise: ExerciseDefinition;
+    status: 'recording' | 'review';
+    liveAngle: number;
+    recordedSeconds: number;
+    proposal: ThresholdProposal | null;
+    trace: ReferenceMotion | null;
+    isSaving: boolean;
+    onStop: () => void;
+    onApply: () => void;
+    onRetry: () => void;
+    onCancel: () => void;
+}
+
+export default function TeachModePanel({
+    exercise,
+    status,
+    liveAngle,
+    recordedSeconds,
+    proposal,
+    trace,
+    isSaving,
+    onStop,
+    onApply,
+    onRetry,
+    onCancel,
+}: TeachModePanelProps) {
+    const isIsometric = exercise.phaseDirection === 'isometric';
+
+    if (status === 'recording') {
+        return (
+            <div className="absolute top-4 left-4 right-4 z-30 flex items-center gap-4 bg-slate-950/80 backdrop-blur-xl border border-red-500/40 rounded-2xl px-5 py-3">
+                <div className="w-3 h-3 rounded-full bg-red-500 animate-pulse" />
+                <div className="flex-1">
+                    <p className="text-white font-semibold text-sm">Teach mode: recording</p>
+                    <p className="text-slate-400 text-xs">
+                        {isIsometric ? 'Hold the target position steadily' : 'Perform 3-5 slow, full reps'}
+                    </p>
+                </div>
+                <div className="text-right font-mono">
+                    <p className="text-cyan-400 font-bold">{liveAngle >= 0 ? `${Math.round(liveAngle)}°` : '--'}</p>
+                    <p className="text-slate-500 text-xs">{recordedSeconds.toFixed(1)}s</p>
+                </div>
+                <button onClick={onStop} className="px-4 py-2 rounded-xl bg-red-500 hover:bg-red-600 text-white text-sm font-semibold transition-colors">
+                    Stop
+                </button>
+            </div>
+        );
+    }
+
+    const chartData = trace
+        ? trace.timestamps.map((t, i) => ({ time: Math.round(t / 100) / 10, angle: trace.angles[i] }))
+        : [];
+
+    return (
+        <div className="absolute inset-0 z-30 bg-slate-900/90 backdrop-blur-md flex items-center justify-center rounded-2xl p-6">
+            <div className="w-full max-w-lg space-y-4">
+                <h2 className="text-xl font-bold text-white">Proposed thresholds</h2>
+
+                {!proposal ? (
+                    <p className="text-slate-400 text-sm">
+                        Not enough frames were recorded with the joint in view. Step back so the whole movement is visible and try again.
+                    </p>
+                ) : (
+                    <>
+                        {chartData.length > 0 && (
+                            <div className="h-40 rounded-xl bg-slate-950/60 border border-slate-800 p-2">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData}>
+                                        <XAxis dataKey="time" stroke="#64748b" fontSize={10} unit="s" />
+                                        <YAxis stroke="#64748b" fontSize={10} domain={[0, 180]} />
+                                        {!isIsometric && (
+                                            <ReferenceLine y={proposal.downAngleThreshold} stroke="#8b5cf6" strokeDasharray="4 4" />
+                                        )}
+                                        <ReferenceLine y={proposal.upAngleThreshold} stroke="#06b6d4" strokeDasharray="4 4" />
+                                        <Line type="monotone" dataKey="angle" stroke="#f8fafc" strokeWidth={2} dot={false} />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-3 gap-3 text-center">
+                            {!isIsometric && (
+                                <div className="rounded-xl bg-slate-800/60 p-3">
+                                    <p className="text-xs text-slate-400">Down</p>
+                                    <p className="text-2xl font-bold text-purple-400">{proposal.downAngleThreshold}°</p>
+                                    <p className="text-[10px] text-slate-500">was {exercise.downAngleThreshold}°</p>
+                                </div>
+                            )}
+                            <div className="rounded-xl bg-slate-800/60 p-3">
+                                <p className="text-xs text-slate-400">{isIsometric ? 'Hold' : 'Up'}</p>
+                                <p className="text-2xl font-bold text-cyan-400">{proposal.upAngleThreshold}°</p>
+                                <p className="text-[10px] text-slate-500">was {exercise.upAngleThreshold}°</p>
+                            </div>
+                            <div className="rounded-xl bg-slate-800/60 p-3">
+                                <p className="text-xs text-slate-400">{isIsometric ? 'Tolerance' : 'Hysteresis'}</p>
+                                <p className="text-2xl font-bold text-white">±{proposal.hysteresis}°</p>
+                                <p className="text-[10px] text-slate-500">was ±{exercise.hysteresis}°</p>
+                            </div>
+                        </div>
+
+                        {!isIsometric && (
+                            <p className="text-slate-400 text-sm">
+                                {proposal.repsDetected} reps detected, moving between {proposal.minAngle}° and {proposal.maxAngle}° ({proposal.phaseDirection}).
+                            </p>
+                        )}
+
+                        {proposal.warnings.length > 0 && (
+                            <div className="px-4 py-3 rounded-xl bg-yellow-500/10 border border-yellow-500/30 space-y-1">
+                                {proposal.warnings.map(warning => (
+                                    <p key={warning} className="text-yellow-400 text-sm">{warning}</p>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+
+                <div className="flex justify-end gap-3 pt-2">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white text-sm transition-colors">
+                        Discard
+                    </button>
+                    <button onClick={onRetry} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-white text-sm transition-colors">
+                        Record Again
+                    </button>
+                    {proposal && (
+                        <button
+                            onClick={onApply}
+                            disabled={isSaving}
+                            className="px-4 py-2 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white text-sm font-semibold disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Apply & Save'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { getActiveProgram, getPlanCompletions } from '@/lib/db';
+import { TodaysPlan, getTodaysPlan } from '@/lib/Programs';
+import { getExerciseById } from '@/data/exercises';
+import { WorkoutProgram } from '@/types';
+
+export default function TodaysPlanCard() {
+    const [program, setProgram] = useState<WorkoutProgram | null>(null);
+    const [plan, setPlan] = useState<TodaysPlan | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const loadPlan = async () => {
+            try {
+                const active = await getActiveProgram();
+                if (active) {
+                    setProgram(active);
+                    setPlan(getTodaysPlan(active, await getPlanCompletions(active.id)));
+                }
+            } catch (error) {
+                console.error("Failed to load today's plan:", error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        loadPlan();
+    }, []);
+
+    if (isLoading) {
+        return <div className="animate-pulse h-32 bg-slate-800 rounded-2xl" />;
+    }
+
+    if (!program || !plan) {
+        return (
+            <div className="glass rounded-2xl p-6 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                        <span className="text-2xl">📋</span>
+                        Today&apos;s Plan
+                    </h3>
+                    <p className="text-sm text-slate-400">Follow a multi-week rehab program and your daily exercises appear here.</p>
+                </div>
+                <Link href="/programs" className="btn-secondary">
+                    Browse Programs
+                </Link>
+            </div>
+        );
+    }
+
+    const doneCount = plan.items.filter(s => s.isComplete).length;
+    const firstOpen = plan.items.find(s => !s.isComplete);
+
+    return (
+        <div className="glass rounded-2xl p-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                        <span className="text-2xl">📋</span>
+                        Today&apos;s Plan
+                        <span className="text-sm font-normal text-slate-400">• {plan.day.name}</span>
+                    </h3>
+                    <p className="text-sm text-slate-400">
+                        {program.name} • Day {plan.dayIndex + 1} of {program.days.length}
+                    </p>
+                </div>
+                <div className="flex items-center gap-4">
+                    <Link href="/programs" className="text-cyan-400 text-sm hover:underline">
+                        Program details
+                    </Link>
+                    {firstOpen && (
+                        <Link href={`/exercise/${firstOpen.item.exerciseId}?circuit=plan`} className="btn-primary">
+                            {doneCount > 0 ? 'Resume Circuit' : 'Start Circuit'}
+                        </Link>
+                    )}
+                </div>
+            </div>
+
+            {plan.items.length === 0 ? (
+                <p className="text-slate-400 text-center py-4">😌 Rest day - recovery is part of the plan.</p>
+            ) : (
+                <>
+                    <ul className="space-y-2">
+                        {plan.items.map(({ item, itemIndex, setsDone, isComplete }) => {
+                            const exercise = getExerciseById(item.exerciseId);
+                            const unit = exercise?.phaseDirection === 'isometric' ? 's' : ' reps';
+                            return (
+                                <li key={itemIndex}>
+                                    <Link
+                                        href={`/exercise/${item.exerciseId}`}
+                                        className={`flex items-center gap-4 p-3 rounded-xl transition-colors ${isComplete
+                                            ? 'bg-green-500/10 border border-green-500/20'
+                                            : 'bg-slate-800/50 hover:bg-slate-800'
+                                            }`}
+                                    >
+                                        <span className="text-2xl">{exercise?.icon ?? '🏋️'}</span>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-white font-medium truncate">{exercise?.name ?? item.exerciseId}</p>
+                                            <p className="text-xs text-slate-400">
+                                                {item.sets} × {item.targetReps}{unit} • {item.restSeconds}s rest
+                                            </p>
+                                        </div>
+                                        <div className="flex gap-1">
+                                            {Array.from({ length: item.sets }, (_, i) => (
+                                                <span
+                                                    key={i}
+                                                    className={`w-2.5 h-2.5 rounded-full ${i < setsDone ? 'bg-green-400' : 'bg-slate-600'}`}
+                                                />
+                                            ))}
+                                        </div>
+                                        {isComplete && <span className="text-green-400">✓</span>}
+                                    </Link>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <p className="text-xs text-slate-500 mt-3">
+                        {doneCount}/{plan.items.length} exercises done • every set that reaches the target is ticked
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -2,16 +2,27 @@
 
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 // Force chunk re-compilation
-import { PoseData, Landmark3D, PoseLandmark } from '@/types';
+import { Anthropometry, CameraContext, PoseData, Landmark3D, PoseLandmark } from '@/types';
 import { Pose } from '@mediapipe/pose';
+import { Framing, getBodyScale, getFraming } from '@/lib/Biometrics';
 
 export interface WebcamCanvasProps {
     onPoseDetected: (pose: PoseData | null) => void;
+    onCameraContext?: (camera: CameraContext) => void; // sampled every few seconds
+    anthropometry?: Anthropometry | null; // frames the guide for this body instead of a generic one
     showLandmarks?: boolean;
     width?: number;
     height?: number;
 }
 
+const CAMERA_SAMPLE_MS = 2000;
+
+const FRAMING_HINTS: Record<Exclude<Framing, 'centered'>, string> = {
+    'off-center': 'CENTER YOUR BODY',
+    'too-close': 'STEP BACK',
+    'too-far': 'MOVE CLOSER',
+};
+
 // Pose connections for drawing skeleton
 const POSE_CONNECTIONS: [PoseLandmark, PoseLandmark][] = [
     // Face
@@ -54,6 +65,8 @@ const POSE_CONNECTIONS: [PoseLandmark, PoseLandmark][] = [
 
 export default function WebcamCanvas({
     onPoseDetected,
+    onCameraContext,
+    anthropometry = null,
     showLandmarks = true,
     width = 640,
     height = 480,
@@ -66,11 +79,16 @@ export default function WebcamCanvas({
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [fps, setFps] = useState(0);
-    const [isAligned, setIsAligned] = useState(false);
+    const [framing, setFraming] = useState<Framing>('off-center');
+    const isAligned = framing === 'centered';
 
     const frameCountRef = useRef(0);
     const lastFpsUpdateRef = useRef(Date.now());
 
+    // The pose callback is registered once, so it reads the latest measurements through a ref
+    const anthropometryRef = useRef(anthropometry);
+    anthropometryRef.current = anthropometry;
+
     // Initialize MediaPipe Pose
     const initializePose = useCallback(async () => {
         try {
@@ -122,7 +140,7 @@ export default function WebcamCanvas({
                 } else {
                     onPoseDetected(null);
                     clearCanvas();
-                    setIsAligned(false);
+                    setFraming('off-center');
                 }
             });
 
@@ -249,25 +267,15 @@ export default function WebcamCanvas({
         drawAlignmentGuide(ctx, canvas.width, canvas.height);
     }, [isAligned]);
 
-    // Check if user is centered in frame
+    // Check if user is centered in frame, and at the right distance once their body has been measured
     const checkAlignment = useCallback((landmarks: Landmark3D[]) => {
-        const shoulderL = landmarks[PoseLandmark.LEFT_SHOULDER];
-        const shoulderR = landmarks[PoseLandmark.RIGHT_SHOULDER];
-        const hipL = landmarks[PoseLandmark.LEFT_HIP];
-        const hipR = landmarks[PoseLandmark.RIGHT_HIP];
-
-        if (!shoulderL || !shoulderR || !hipL || !hipR) return;
-
-        // Landmarks are normalized 0-1
-        // Ideal zone: center 60% of width, 70% of height
-        const withinX = (shoulderL.x > 0.1 && shoulderL.x < 0.9) && (shoulderR.x > 0.1 && shoulderR.x < 0.9);
-        const withinY = (shoulderL.y > 0.1 && shoulderL.y < 0.8) && (hipL.y > 0.2 && hipL.y < 0.9);
-
-        const aligned = withinX && withinY;
-        if (aligned !== isAligned) {
-            setIsAligned(aligned);
+        const body = anthropometryRef.current;
+        const scale = body ? getBodyScale(landmarks, body, width / height) : null;
+        const next = getFraming(landmarks, scale);
+        if (next !== framing) {
+            setFraming(next);
         }
-    }, [isAligned]);
+    }, [framing, width, height]);
 
     // Draw the "Green Framework" guide
     const drawAlignmentGuide = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
@@ -311,7 +319,7 @@ export default function WebcamCanvas({
             ctx.fillStyle = '#fff';
             ctx.font = 'bold 14px Inter, sans-serif';
             ctx.textAlign = 'center';
-            ctx.fillText('CENTER YOUR BODY', 0, 5);
+            ctx.fillText(FRAMING_HINTS[framing as Exclude<Framing, 'centered'>], 0, 5);
 
             ctx.restore();
         }
@@ -342,6 +350,35 @@ export default function WebcamCanvas({
         };
     }, [initializePose, startWebcam]);
 
+    // Report the camera and the light level, so a stored calibration can tell when either changed
+    useEffect(() => {
+        if (!onCameraContext) return;
+        const sampler = document.createElement('canvas');
+        sampler.width = 32;
+        sampler.height = 24;
+        const ctx = sampler.getContext('2d', { willReadFrequently: true });
+
+        const interval = setInterval(() => {
+            const video = videoRef.current;
+            if (!ctx || !video || video.readyState < 2) return;
+
+            ctx.drawImage(video, 0, 0, sampler.width, sampler.height);
+            const { data } = ctx.getImageData(0, 0, sampler.width, sampler.height);
+            let luma = 0;
+            for (let i = 0; i < data.length; i += 4) {
+                luma += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            }
+            const track = (video.srcObject as MediaStream | null)?.getVideoTracks()[0];
+            onCameraContext({
+                deviceLabel: track?.label ?? '',
+                width: video.videoWidth,
+                height: video.videoHeight,
+                brightness: Math.round(luma / (data.length / 4)),
+            });
+        }, CAMERA_SAMPLE_MS);
+        return () => clearInterval(interval);
+    }, [onCameraContext]);
+
     // Start processing when video is ready
     useEffect(() => {
         const video = videoRef.current;
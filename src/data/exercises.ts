@@ -1,5 +1,14 @@
 // Exercise definitions with form criteria and gold standard parameters
-import { ExerciseDefinition, PoseLandmark } from '@/types';
+import { ExerciseDefinition, ExercisePhase, LandmarkTriplet, PoseLandmark } from '@/types';
+
+// Left-side joint triplets; the engine mirrors them for the right side
+const ELBOW: LandmarkTriplet = [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW, PoseLandmark.LEFT_WRIST];
+const SHOULDER: LandmarkTriplet = [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW];
+const ARM_ELEVATION: LandmarkTriplet = [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_WRIST];
+const HIP: LandmarkTriplet = [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE];
+const KNEE: LandmarkTriplet = [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE, PoseLandmark.LEFT_ANKLE];
+const ANKLE: LandmarkTriplet = [PoseLandmark.LEFT_KNEE, PoseLandmark.LEFT_ANKLE, PoseLandmark.LEFT_HEEL];
+const BODY_LINE: LandmarkTriplet = [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_ANKLE];
 
 export const exercises: ExerciseDefinition[] = [
     {
@@ -18,8 +27,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_WRIST,
             PoseLandmark.RIGHT_WRIST,
         ],
+        primaryAngle: { landmarks: ELBOW, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
         downAngleThreshold: 160,
         upAngleThreshold: 45,
+        hysteresis: 10,
         formCriteria: [
             { id: 'shoulder-stable', name: 'Shoulder Stability', description: 'No shoulder swing', checkFunction: 'checkShoulderStability', weight: 0.4 },
             { id: 'full-rom', name: 'Full Range of Motion', description: 'Complete curl motion', checkFunction: 'checkFullROM', weight: 0.3 },
@@ -50,8 +62,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_ANKLE,
             PoseLandmark.RIGHT_ANKLE,
         ],
+        primaryAngle: { landmarks: KNEE, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
         downAngleThreshold: 90,
         upAngleThreshold: 170,
+        hysteresis: 10,
         formCriteria: [
             { id: 'knee-angle', name: 'Knee Depth', description: 'Thighs parallel to ground', checkFunction: 'checkKneeAngle', weight: 0.35 },
             { id: 'knee-tracking', name: 'Knee Tracking', description: 'Knees over toes', checkFunction: 'checkKneeTracking', weight: 0.35 },
@@ -82,8 +97,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_WRIST,
             PoseLandmark.RIGHT_WRIST,
         ],
+        primaryAngle: { landmarks: SHOULDER, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.3 },
+        phaseDirection: 'extension-first',
         downAngleThreshold: 90,
         upAngleThreshold: 170,
+        hysteresis: 10,
         formCriteria: [
             { id: 'full-extension', name: 'Full Extension', description: 'Arms fully extended at top', checkFunction: 'checkArmExtension', weight: 0.35 },
             { id: 'core-engaged', name: 'Core Engagement', description: 'No excessive back arch', checkFunction: 'checkCoreEngagement', weight: 0.35 },
@@ -114,8 +132,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_ANKLE,
             PoseLandmark.RIGHT_ANKLE,
         ],
+        primaryAngle: { landmarks: ARM_ELEVATION, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.3 },
+        phaseDirection: 'extension-first',
         downAngleThreshold: 30,
         upAngleThreshold: 160,
+        hysteresis: 10,
         formCriteria: [
             { id: 'arm-extension', name: 'Arm Extension', description: 'Arms fully overhead', checkFunction: 'checkArmExtension', weight: 0.4 },
             { id: 'leg-spread', name: 'Leg Spread', description: 'Feet wider than shoulders', checkFunction: 'checkLegSpread', weight: 0.4 },
@@ -148,8 +169,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_HIP,
             PoseLandmark.RIGHT_HIP,
         ],
+        primaryAngle: { landmarks: ELBOW, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
         downAngleThreshold: 90,
         upAngleThreshold: 160,
+        hysteresis: 10,
         formCriteria: [
             { id: 'elbow-angle', name: 'Elbow Angle', description: 'Elbows at 90° at bottom', checkFunction: 'checkElbowAngle', weight: 0.3 },
             { id: 'back-straight', name: 'Straight Back', description: 'Keep back straight throughout', checkFunction: 'checkSpineAlignment', weight: 0.4 },
@@ -179,12 +203,16 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_ANKLE,
             PoseLandmark.RIGHT_ANKLE,
         ],
+        primaryAngle: { landmarks: KNEE, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
         downAngleThreshold: 90,
         upAngleThreshold: 170,
+        hysteresis: 10,
         formCriteria: [
-            { id: 'front-knee', name: 'Front Knee Angle', description: '90° at bottom position', checkFunction: 'checkFrontKnee', weight: 0.35 },
-            { id: 'back-knee', name: 'Back Knee Position', description: 'Near floor but not touching', checkFunction: 'checkBackKnee', weight: 0.35 },
-            { id: 'balance', name: 'Balance', description: 'Maintain upright posture', checkFunction: 'checkBalance', weight: 0.3 },
+            { id: 'front-knee', name: 'Front Knee Angle', description: '90° at bottom position', checkFunction: 'checkFrontKnee', weight: 0.3 },
+            { id: 'back-knee', name: 'Back Knee Position', description: 'Near floor but not touching', checkFunction: 'checkBackKnee', weight: 0.3 },
+            { id: 'knee-over-toe', name: 'Front Knee Travel', description: 'Front knee stays behind the toes', checkFunction: 'checkKneeOverToe', weight: 0.2 },
+            { id: 'balance', name: 'Balance', description: 'Maintain upright posture', checkFunction: 'checkBalance', weight: 0.2 },
         ],
         instructions: [
             'Stand tall with feet hip-width apart',
@@ -211,8 +239,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_ANKLE,
             PoseLandmark.RIGHT_ANKLE,
         ],
+        primaryAngle: { landmarks: BODY_LINE, sidePolicy: 'most-visible', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'isometric',
         downAngleThreshold: 180,
         upAngleThreshold: 180,
+        hysteresis: 30,
         formCriteria: [
             { id: 'hip-alignment', name: 'Hip Alignment', description: 'Straight line from head to heels', checkFunction: 'checkHipAlignment', weight: 0.5 },
             { id: 'shoulder-position', name: 'Shoulder Position', description: 'Shoulders over wrists', checkFunction: 'checkShoulderPosition', weight: 0.3 },
@@ -243,8 +274,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_WRIST,
             PoseLandmark.RIGHT_WRIST,
         ],
+        primaryAngle: { landmarks: SHOULDER, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.3 },
+        phaseDirection: 'extension-first',
         downAngleThreshold: 20,
         upAngleThreshold: 85,
+        hysteresis: 10,
         formCriteria: [
             { id: 'shoulder-height', name: 'Raise Height', description: 'Arms to shoulder level', checkFunction: 'checkRaiseHeight', weight: 0.4 },
             { id: 'controlled', name: 'Controlled Movement', description: 'No swinging', checkFunction: 'checkVelocity', weight: 0.3 },
@@ -275,8 +309,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_WRIST,
             PoseLandmark.RIGHT_WRIST,
         ],
+        primaryAngle: { landmarks: ELBOW, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
         downAngleThreshold: 90,
         upAngleThreshold: 160,
+        hysteresis: 10,
         formCriteria: [
             { id: 'elbow-angle', name: 'Elbow Depth', description: '90° at bottom position', checkFunction: 'checkElbowAngle', weight: 0.4 },
             { id: 'shoulder-stable', name: 'Shoulder Position', description: 'Keep shoulders down', checkFunction: 'checkShoulderStability', weight: 0.3 },
@@ -309,8 +346,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_HEEL,
             PoseLandmark.RIGHT_HEEL,
         ],
+        primaryAngle: { landmarks: ANKLE, sidePolicy: 'most-visible', aggregation: 'mean', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
         downAngleThreshold: 90,
         upAngleThreshold: 130,
+        hysteresis: 10,
         formCriteria: [
             { id: 'full-extension', name: 'Full Extension', description: 'Raise onto balls of feet', checkFunction: 'checkAnkleExtension', weight: 0.5 },
             { id: 'controlled', name: 'Controlled Movement', description: 'No bouncing', checkFunction: 'checkVelocity', weight: 0.3 },
@@ -341,8 +381,11 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_KNEE,
             PoseLandmark.RIGHT_KNEE,
         ],
-        downAngleThreshold: 45,
-        upAngleThreshold: 170,
+        primaryAngle: { landmarks: HIP, sidePolicy: 'bilateral', aggregation: 'min', minVisibility: 0.5 },
+        phaseDirection: 'flexion-first',
+        downAngleThreshold: 75,
+        upAngleThreshold: 150,
+        hysteresis: 10,
         formCriteria: [
             { id: 'plank-form', name: 'Plank Position', description: 'Maintain plank throughout', checkFunction: 'checkPlankForm', weight: 0.4 },
             { id: 'knee-drive', name: 'Knee Drive', description: 'Bring knee to chest', checkFunction: 'checkKneeDrive', weight: 0.3 },
@@ -375,12 +418,15 @@ export const exercises: ExerciseDefinition[] = [
             PoseLandmark.LEFT_ANKLE,
             PoseLandmark.RIGHT_ANKLE,
         ],
+        primaryAngle: { landmarks: ARM_ELEVATION, sidePolicy: 'bilateral', aggregation: 'mean', minVisibility: 0.3 },
+        phaseDirection: 'extension-first',
         downAngleThreshold: 90,
         upAngleThreshold: 170,
+        hysteresis: 10,
         formCriteria: [
             { id: 'pushup-form', name: 'Push-up Form', description: 'Full push-up at bottom', checkFunction: 'checkPushupForm', weight: 0.3 },
             { id: 'jump-height', name: 'Jump Height', description: 'Explosive jump at top', checkFunction: 'checkJumpHeight', weight: 0.3 },
-            { id: 'coordination', name: 'Flow', description: 'Smooth transitions', checkFunction: 'checkCoordination', weight: 0.4 },
+            { id: 'coordination', name: 'Flow', description: 'Smooth transitions', checkFunction: 'checkFlow', weight: 0.4 },
         ],
         instructions: [
             'Start standing, then squat down',
@@ -393,8 +439,30 @@ export const exercises: ExerciseDefinition[] = [
     },
 ];
 
+// Joint angles offered by the custom exercise builder
+export const jointAnglePresets: { id: string; label: string; landmarks: LandmarkTriplet }[] = [
+    { id: 'elbow', label: 'Elbow (shoulder-elbow-wrist)', landmarks: ELBOW },
+    { id: 'shoulder', label: 'Shoulder (hip-shoulder-elbow)', landmarks: SHOULDER },
+    { id: 'arm-elevation', label: 'Arm elevation (hip-shoulder-wrist)', landmarks: ARM_ELEVATION },
+    { id: 'hip', label: 'Hip (shoulder-hip-knee)', landmarks: HIP },
+    { id: 'knee', label: 'Knee (hip-knee-ankle)', landmarks: KNEE },
+    { id: 'ankle', label: 'Ankle (knee-ankle-heel)', landmarks: ANKLE },
+    { id: 'body-line', label: 'Body line (shoulder-hip-ankle)', landmarks: BODY_LINE },
+];
+
+// User-authored definitions, loaded from IndexedDB at runtime
+let customExercises: ExerciseDefinition[] = [];
+
+export function setCustomExercises(definitions: ExerciseDefinition[]): void {
+    customExercises = definitions;
+}
+
+export function getAllExercises(): ExerciseDefinition[] {
+    return [...exercises, ...customExercises];
+}
+
 export function getExerciseById(id: string): ExerciseDefinition | undefined {
-    return exercises.find(e => e.id === id);
+    return getAllExercises().find(e => e.id === id);
 }
 
 export function getExercisesByCategory(category: string): ExerciseDefinition[] {
@@ -404,3 +472,35 @@ export function getExercisesByCategory(category: string): ExerciseDefinition[] {
 export function getExercisesByDifficulty(difficulty: string): ExerciseDefinition[] {
     return exercises.filter(e => e.difficulty === difficulty);
 }
+
+const DIFFICULTY_RANK: Record<ExerciseDefinition['difficulty'], number> = { beginner: 0, intermediate: 1, advanced: 2 };
+
+/**
+ * Alternatives in the same category at no higher difficulty, easiest first
+ */
+export function getEasierExercises(exercise: ExerciseDefinition): ExerciseDefinition[] {
+    const rank = DIFFICULTY_RANK[exercise.difficulty];
+    return getAllExercises()
+        .filter(e => e.id !== exercise.id && e.category === exercise.category && DIFFICULTY_RANK[e.difficulty] <= rank)
+        .sort((a, b) => DIFFICULTY_RANK[a.difficulty] - DIFFICULTY_RANK[b.difficulty]);
+}
+
+/**
+ * Resolve which phase and threshold mark the peak of a rep and which mark its rest position.
+ * Flexion-first reps peak at the smaller threshold, extension-first reps at the larger one.
+ */
+export function getPhaseTargets(exercise: ExerciseDefinition): {
+    peakPhase: ExercisePhase;
+    restPhase: ExercisePhase;
+    peakAngle: number;
+    restAngle: number;
+} {
+    const { downAngleThreshold, upAngleThreshold, phaseDirection } = exercise;
+    const downIsPeak = phaseDirection === 'flexion-first'
+        ? downAngleThreshold <= upAngleThreshold
+        : downAngleThreshold > upAngleThreshold;
+
+    return downIsPeak
+        ? { peakPhase: 'DOWN', restPhase: 'UP', peakAngle: downAngleThreshold, restAngle: upAngleThreshold }
+        : { peakPhase: 'UP', restPhase: 'DOWN', peakAngle: upAngleThreshold, restAngle: downAngleThreshold };
+}
@@ -0,0 +1,110 @@
+// Built-in multi-week rehab programs
+import { ProgramDay, ProgramItem, ProgramTemplate, ProgressionRule } from '@/types';
+
+const REST: ProgramDay = { name: 'Rest', items: [] };
+
+const defaultProgression: ProgressionRule = {
+    minFormScore: 80,
+    sessions: 2,
+    increment: 2,
+    maxTarget: 20,
+};
+
+const holdProgression: ProgressionRule = {
+    minFormScore: 80,
+    sessions: 2,
+    increment: 5,
+    maxTarget: 60,
+};
+
+function item(exerciseId: string, sets: number, targetReps: number, restSeconds: number, progression?: ProgressionRule): ProgramItem {
+    return { exerciseId, sets, targetReps, restSeconds, ...(progression && { progression }) };
+}
+
+/**
+ * Repeat a 7-day pattern for a number of weeks, prefixing each training day with its week
+ */
+function weeks(count: number, pattern: ProgramDay[]): ProgramDay[] {
+    return Array.from({ length: count }, (_, week) =>
+        pattern.map(day => (day.items.length > 0 ? { ...day, name: `Week ${week + 1} · ${day.name}` } : day))
+    ).flat();
+}
+
+export const programTemplates: ProgramTemplate[] = [
+    {
+        id: 'knee-foundations',
+        name: 'Knee Strength Foundations',
+        description: 'Four weeks of quad, glute and calf work for knee rehab, three sessions a week with rest days between.',
+        progression: defaultProgression,
+        days: weeks(4, [
+            {
+                name: 'Strength A',
+                items: [
+                    item('squat', 3, 8, 60),
+                    item('lunge', 2, 6, 60),
+                    item('calf-raise', 3, 12, 45),
+                ],
+            },
+            REST,
+            {
+                name: 'Strength B',
+                items: [
+                    item('squat', 2, 10, 60),
+                    item('calf-raise', 3, 15, 45),
+                    item('plank', 3, 20, 45, holdProgression),
+                ],
+            },
+            REST,
+            {
+                name: 'Strength A',
+                items: [
+                    item('squat', 3, 8, 60),
+                    item('lunge', 2, 6, 60),
+                    item('calf-raise', 3, 12, 45),
+                ],
+            },
+            REST,
+            REST,
+        ]),
+    },
+    {
+        id: 'shoulder-return',
+        name: 'Shoulder Return to Strength',
+        description: 'Three weeks of light overhead and lateral work to rebuild shoulder control, alternating two session types.',
+        progression: { ...defaultProgression, maxTarget: 15 },
+        days: weeks(3, [
+            {
+                name: 'Control',
+                items: [
+                    item('lateral-raise', 3, 8, 60),
+                    item('shoulder-press', 2, 8, 60),
+                    item('bicep-curl', 2, 10, 45),
+                ],
+            },
+            REST,
+            {
+                name: 'Stability',
+                items: [
+                    item('shoulder-press', 3, 8, 60),
+                    item('lateral-raise', 2, 10, 60),
+                    item('plank', 2, 20, 45, holdProgression),
+                ],
+            },
+            REST,
+            {
+                name: 'Control',
+                items: [
+                    item('lateral-raise', 3, 8, 60),
+                    item('shoulder-press', 2, 8, 60),
+                    item('bicep-curl', 2, 10, 45),
+                ],
+            },
+            REST,
+            REST,
+        ]),
+    },
+];
+
+export function getProgramTemplateById(id: string): ProgramTemplate | undefined {
+    return programTemplates.find(p => p.id === id);
+}
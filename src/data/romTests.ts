@@ -0,0 +1,96 @@
+// Standard active range-of-motion tests for the assessment mode
+import { RomTestDefinition } from '@/types';
+
+// Normal ranges follow the AAOS adult reference values
+export const romTests: RomTestDefinition[] = [
+    {
+        id: 'shoulder-flexion',
+        name: 'Shoulder Flexion',
+        icon: '🙋',
+        joint: 'shoulder',
+        convention: 'direct',
+        cameraView: 'side',
+        normalRange: 180,
+        instructions: [
+            'Stand side-on to the camera with the arm relaxed by your side',
+            'Keep the elbow straight and the thumb pointing up',
+            'Raise the arm forward and up as far as it comfortably goes',
+            'Hold for a moment at the top, then lower slowly',
+        ],
+    },
+    {
+        id: 'shoulder-abduction',
+        name: 'Shoulder Abduction',
+        icon: '🤸',
+        joint: 'shoulder',
+        convention: 'direct',
+        cameraView: 'front',
+        normalRange: 180,
+        instructions: [
+            'Face the camera with the arm relaxed by your side, palm forward',
+            'Keep the elbow straight',
+            'Raise the arm out to the side and overhead as far as comfortable',
+            'Avoid leaning the trunk away from the arm',
+        ],
+    },
+    {
+        id: 'elbow-flexion',
+        name: 'Elbow Flexion',
+        icon: '💪',
+        joint: 'elbow',
+        convention: 'flexion',
+        cameraView: 'side',
+        normalRange: 150,
+        instructions: [
+            'Stand side-on to the camera with the arm straight by your side, palm forward',
+            'Keep the upper arm still against your body',
+            'Bend the elbow to bring the hand toward the shoulder as far as possible',
+        ],
+    },
+    {
+        id: 'hip-flexion',
+        name: 'Hip Flexion',
+        icon: '🦵',
+        joint: 'hip',
+        convention: 'flexion',
+        cameraView: 'side',
+        normalRange: 120,
+        instructions: [
+            'Stand side-on to the camera, holding a chair for balance if needed',
+            'Bend the knee and lift it toward the chest as far as comfortable',
+            'Keep the back upright; do not lean backwards',
+        ],
+    },
+    {
+        id: 'knee-flexion',
+        name: 'Knee Flexion',
+        icon: '🦿',
+        joint: 'knee',
+        convention: 'flexion',
+        cameraView: 'side',
+        normalRange: 135,
+        instructions: [
+            'Stand side-on to the camera, holding a chair for balance',
+            'Keep the thighs level with each other',
+            'Bend the knee to bring the heel toward the buttock as far as possible',
+        ],
+    },
+    {
+        id: 'knee-extension',
+        name: 'Knee Extension',
+        icon: '📏',
+        joint: 'knee',
+        convention: 'extension',
+        cameraView: 'side',
+        normalRange: 0,
+        instructions: [
+            'Sit side-on to the camera on a chair with the foot off the floor',
+            'Straighten the knee as fully as you can',
+            'Hold the straightest position for a moment; 0° is fully straight',
+        ],
+    },
+];
+
+export function getRomTestById(id: string): RomTestDefinition | undefined {
+    return romTests.find(t => t.id === id);
+}
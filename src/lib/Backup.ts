@@ -0,0 +1,295 @@
+// Versioned JSON backup/restore of every local table, plus CSV exports for spreadsheets
+import { Table } from 'dexie';
+import { DailyStats, ExerciseDefinition, WorkoutSession } from '@/types';
+import { DEVICE_SETTINGS, db, loadCustomExercises, openRecords, rebuildDailyStats, sealRecord, updateStreak } from './db';
+import { summarizeHalt } from './HaltRecovery';
+
+export const BACKUP_FORMAT = 'physio-ai/backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    schemaVersion: number; // Dexie schema version of the exporting database
+    exportedAt: string;
+    tables: Record<string, unknown[]>;
+}
+
+// 'keep-local' leaves a matching local record untouched; 'replace' overwrites it with the imported one
+export type ConflictStrategy = 'keep-local' | 'replace';
+
+export interface TableRestoreResult {
+    added: number;
+    replaced: number;
+    skipped: number;
+}
+
+export interface RestorePreview {
+    table: string;
+    incoming: number;
+    conflicts: number;
+}
+
+type BackupRecord = Record<string, unknown> & { id?: number; sessionId?: number };
+
+/**
+ * What makes two records "the same" across devices. Auto-increment ids differ between
+ * browsers, so those tables match on their content instead of their primary key.
+ */
+const naturalKeys: Record<string, (record: BackupRecord) => string> = {
+    sessions: r => `${new Date(r.date as Date).getTime()}|${r.exerciseId}`,
+    dailyStats: r => String(r.date),
+    streaks: r => String(r.startDate),
+    customExercises: r => String(r.id),
+    goldStandards: r => String(r.exerciseId),
+    reps: r => `${r.sessionId}|${r.rep}`,
+    romMeasurements: r => `${r.assessmentId}|${r.testId}|${r.side}`,
+    settings: r => String(r.key),
+    planCompletions: r => `${r.sessionId}|${r.itemIndex}|${r.set}`,
+    painEvents: r => `${r.sessionId}|${r.startTime}|${r.kind}`,
+};
+
+// The passphrase and migration state belong to this device, not to the data
+const isDeviceSetting = (table: Table, record: BackupRecord) =>
+    table.name === 'settings' && DEVICE_SETTINGS.includes(record.key as string);
+
+// Sessions first so the tables that reference them can follow to their new ids
+const RESTORE_ORDER = ['sessions', 'reps', 'planCompletions', 'painEvents'];
+const SESSION_CHILD_TABLES = ['reps', 'planCompletions', 'painEvents'];
+
+/**
+ * Dates don't survive JSON on their own; tag them so restore can revive them
+ */
+function encode(value: unknown): unknown {
+    if (value instanceof Date) return { $date: value.toISOString() };
+    if (Array.isArray(value)) return value.map(encode);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, encode(v)]));
+    }
+    return value;
+}
+
+function decode(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(decode);
+    if (value && typeof value === 'object') {
+        const tagged = value as { $date?: unknown };
+        if (typeof tagged.$date === 'string' && Object.keys(value).length === 1) return new Date(tagged.$date);
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decode(v)]));
+    }
+    return value;
+}
+
+export async function createBackup(): Promise<BackupFile> {
+    const tables: Record<string, unknown[]> = {};
+    for (const table of db.tables) {
+        // Backups hold decrypted records, so they can be restored under any passphrase
+        const rows = (await openRecords(await table.toArray())) as BackupRecord[];
+        tables[table.name] = rows.filter(r => !isDeviceSetting(table, r)).map(encode);
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: db.verno,
+        exportedAt: new Date().toISOString(),
+        tables,
+    };
+}
+
+/**
+ * Validate a backup file; throws with a readable reason when it can't be restored
+ */
+export function parseBackup(data: unknown): BackupFile {
+    const file = data as Partial<BackupFile> | null;
+    if (!file || typeof file !== 'object') throw new Error('Backup must be a JSON object');
+    if (file.format !== BACKUP_FORMAT) throw new Error(`Unknown format "${String(file.format)}"`);
+    if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+        throw new Error(`Unsupported backup version ${String(file.version)}`);
+    }
+    if (!file.tables || typeof file.tables !== 'object') throw new Error('Backup has no tables');
+
+    for (const [name, rows] of Object.entries(file.tables)) {
+        if (!Array.isArray(rows)) throw new Error(`Table "${name}" must be an array`);
+    }
+    return file as BackupFile;
+}
+
+function incomingRecords(file: BackupFile, table: Table): BackupRecord[] {
+    return (decode(file.tables[table.name]) as BackupRecord[]).filter(r => !isDeviceSetting(table, r));
+}
+
+function restorableTables(file: BackupFile): Table[] {
+    const known = db.tables.filter(t => Array.isArray(file.tables[t.name]));
+    return known.sort((a, b) => {
+        const rank = (t: Table) => (RESTORE_ORDER.includes(t.name) ? RESTORE_ORDER.indexOf(t.name) : RESTORE_ORDER.length);
+        return rank(a) - rank(b);
+    });
+}
+
+function recordKey(table: Table, record: BackupRecord): string {
+    const keyOf = naturalKeys[table.name];
+    return keyOf ? keyOf(record) : String(record[table.schema.primKey.keyPath as string]);
+}
+
+async function localIndex(table: Table): Promise<Map<string, BackupRecord>> {
+    const rows = (await openRecords(await table.toArray())) as BackupRecord[];
+    return new Map(rows.map(r => [recordKey(table, r), r]));
+}
+
+/**
+ * How many records each table would bring in, and how many of those already exist locally
+ */
+export async function previewRestore(file: BackupFile): Promise<RestorePreview[]> {
+    const previews: RestorePreview[] = [];
+    for (const table of restorableTables(file)) {
+        const local = await localIndex(table);
+        const incoming = incomingRecords(file, table);
+        const conflicts = incoming.filter(r => local.has(recordKey(table, r))).length;
+        previews.push({ table: table.name, incoming: incoming.length, conflicts });
+    }
+    return previews;
+}
+
+/**
+ * Merge a backup into the local database in one transaction. Records that don't exist
+ * locally are always added; conflicts follow the chosen strategy.
+ */
+export async function restoreBackup(
+    file: BackupFile,
+    strategy: ConflictStrategy
+): Promise<Record<string, TableRestoreResult>> {
+    const tables = restorableTables(file);
+    const results: Record<string, TableRestoreResult> = {};
+    const sessionIds = new Map<number, number>(); // backup session id -> local session id
+
+    // Decrypting local records and encrypting incoming ones can't happen inside the transaction
+    const prepared = await Promise.all(tables.map(async table => {
+        const incoming = incomingRecords(file, table);
+        return {
+            local: await localIndex(table),
+            incoming,
+            sealed: await Promise.all(incoming.map(r => sealRecord(table, r))),
+        };
+    }));
+
+    await db.transaction('rw', tables, async () => {
+        for (const [index, table] of tables.entries()) {
+            const result: TableRestoreResult = { added: 0, replaced: 0, skipped: 0 };
+            const autoIncrement = table.schema.primKey.auto;
+            const { local, incoming, sealed } = prepared[index];
+
+            for (const [i, raw] of incoming.entries()) {
+                const record: BackupRecord = { ...raw };
+                const backupId = record.id;
+
+                if (SESSION_CHILD_TABLES.includes(table.name) && record.sessionId !== undefined) {
+                    const mapped = sessionIds.get(record.sessionId);
+                    if (mapped === undefined) {
+                        // Its session wasn't restored, so the record has nothing to attach to
+                        result.skipped++;
+                        continue;
+                    }
+                    record.sessionId = mapped;
+                }
+
+                const key = recordKey(table, record);
+                const existing = local.get(key);
+
+                if (existing && strategy === 'keep-local') {
+                    if (table.name === 'sessions' && backupId !== undefined && existing.id !== undefined) {
+                        sessionIds.set(backupId, existing.id);
+                    }
+                    result.skipped++;
+                    continue;
+                }
+
+                if (autoIncrement) {
+                    // Reuse the local row when replacing, otherwise let Dexie assign a fresh id
+                    if (existing) record.id = existing.id;
+                    else delete record.id;
+                }
+
+                // Ids and session ids are indexed, so they stay in the clear on the sealed copy
+                const stored: BackupRecord = { ...sealed[i] };
+                if (record.id !== undefined) stored.id = record.id;
+                else delete stored.id;
+                if (record.sessionId !== undefined) stored.sessionId = record.sessionId;
+
+                const newKey = await table.put(stored);
+                if (table.name === 'sessions' && backupId !== undefined) sessionIds.set(backupId, newKey as number);
+                local.set(key, autoIncrement ? { ...record, id: newKey as number } : record);
+
+                if (existing) result.replaced++;
+                else result.added++;
+            }
+            results[table.name] = result;
+        }
+    });
+
+    // Daily stats and streak segments are derived from sessions, which may have just changed,
+    // so the backup's own dailyStats rows are replaced by ones built from the merged sessions
+    await rebuildDailyStats();
+    await updateStreak();
+    await loadCustomExercises();
+    return results;
+}
+
+// CSV export
+
+// Spreadsheets evaluate text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    // Only free text can be a formula; numbers such as negative values are left as they are
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function sessionsToCsv(sessions: WorkoutSession[], exercises: ExerciseDefinition[]): string {
+    return toCsv(
+        ['date', 'exercise_id', 'exercise', 'reps', 'form_score', 'duration_s', 'quality_score',
+            'time_weighted_form', 'rep_weighted_form', 'active_duration_s', 'sets', 'reps_per_set',
+            'camera_pain_mean', 'camera_pain_peak', 'pain_before', 'pain_after', 'rpe', 'notes', 'safety_halts'],
+        sessions.map(s => [
+            new Date(s.date),
+            s.exerciseId,
+            exercises.find(e => e.id === s.exerciseId)?.name ?? '',
+            s.reps,
+            s.formScore,
+            s.duration,
+            s.qualityScore,
+            s.timeWeightedFormScore,
+            s.repWeightedFormScore,
+            s.activeDuration,
+            s.sets?.length,
+            s.sets?.map(set => set.reps).join('/'),
+            s.cameraPainMean,
+            s.cameraPainPeak,
+            s.outcomes?.painBefore,
+            s.outcomes?.painAfter,
+            s.outcomes?.rpe,
+            s.outcomes?.notes,
+            s.safetyHalts?.map(summarizeHalt).join('; '),
+        ])
+    );
+}
+
+export function dailyStatsToCsv(stats: DailyStats[]): string {
+    return toCsv(
+        ['date', 'workouts', 'total_reps', 'avg_form_score', 'total_duration_s', 'exercises'],
+        stats.map(s => [
+            s.date,
+            s.exerciseCount,
+            s.totalReps,
+            Math.round(s.avgFormScore * 10) / 10,
+            s.totalDuration,
+            Object.entries(s.exercises ?? {}).map(([id, reps]) => `${id}:${reps}`).join(';'),
+        ])
+    );
+}
@@ -1,13 +1,16 @@
 // Biomechanical calculations for joint angles, angular velocity, and symmetry
-import { Landmark3D, PoseLandmark, BiometricData, JointStress, PainAnalysis, SafetyLog } from '@/types';
-
-export interface CalibrationBaseline {
-    eyeDist: number;
-    eyeNoseRatio: number;
-    eyeNarrowRatio: number;
-    mouthNoseRatio: number;
-    mouthWidthRatio: number;
-}
+import {
+    Anthropometry,
+    BiometricData,
+    BodySegment,
+    CalibrationBaseline,
+    Landmark3D,
+    LandmarkTriplet,
+    PainAnalysis,
+    PoseLandmark,
+    PrimaryAngleDefinition,
+    SafetyLog
+} from '@/types';
 
 // 3D Vector operations
 interface Vector3D {
@@ -228,6 +231,199 @@ export function getSpineAngle(landmarks: Landmark3D[]): number {
     return calculateAngle3D(nose, shoulderMid, hipMid);
 }
 
+/**
+ * Map a left-side landmark to its right-side counterpart (and vice versa).
+ * Midline landmarks such as the nose map to themselves.
+ */
+export function mirrorLandmark(landmark: PoseLandmark): PoseLandmark {
+    const name = PoseLandmark[landmark];
+    const mirrored = name.startsWith('LEFT_')
+        ? name.replace('LEFT_', 'RIGHT_')
+        : name.replace('RIGHT_', 'LEFT_');
+    return PoseLandmark[mirrored as keyof typeof PoseLandmark] ?? landmark;
+}
+
+export function getTriplet(triplet: LandmarkTriplet, side: 'left' | 'right'): LandmarkTriplet {
+    return side === 'left'
+        ? triplet
+        : [mirrorLandmark(triplet[0]), mirrorLandmark(triplet[1]), mirrorLandmark(triplet[2])];
+}
+
+/**
+ * Angle of a declared joint on one side, or -1 when the side is not visible enough
+ */
+export function getSideAngle(
+    landmarks: Landmark3D[],
+    definition: PrimaryAngleDefinition,
+    side: 'left' | 'right'
+): { angle: number; visibility: number } {
+    const [a, b, c] = getTriplet(definition.landmarks, side).map(i => landmarks[i]);
+    if (!a || !b || !c) return { angle: -1, visibility: 0 };
+
+    const visibility = Math.min(a.visibility ?? 1, b.visibility ?? 1, c.visibility ?? 1);
+    if (visibility < definition.minVisibility) return { angle: -1, visibility };
+
+    return { angle: calculateAngle3D(a, b, c), visibility };
+}
+
+/**
+ * Resolve an exercise's primary joint angle using its side policy and aggregation.
+ * Returns -1 when no permitted side is visible.
+ */
+export function getJointAngle(landmarks: Landmark3D[], definition: PrimaryAngleDefinition): number {
+    if (definition.sidePolicy === 'left' || definition.sidePolicy === 'right') {
+        return getSideAngle(landmarks, definition, definition.sidePolicy).angle;
+    }
+
+    const left = getSideAngle(landmarks, definition, 'left');
+    const right = getSideAngle(landmarks, definition, 'right');
+
+    if (left.angle === -1 && right.angle === -1) return -1;
+    if (left.angle === -1) return right.angle;
+    if (right.angle === -1) return left.angle;
+
+    if (definition.sidePolicy === 'most-visible') {
+        return left.visibility >= right.visibility ? left.angle : right.angle;
+    }
+
+    switch (definition.aggregation) {
+        case 'min':
+            return Math.min(left.angle, right.angle);
+        case 'max':
+            return Math.max(left.angle, right.angle);
+        default:
+            return (left.angle + right.angle) / 2;
+    }
+}
+
+// Body-relative distances: image distances divided by the person's current height in the image,
+// so the same movement scores the same whatever their size or distance from the camera
+
+// [proximal, distal] landmarks, left side first
+const SEGMENT_LANDMARKS: Record<BodySegment, [PoseLandmark, PoseLandmark][]> = {
+    upperArm: [[PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW], [PoseLandmark.RIGHT_SHOULDER, PoseLandmark.RIGHT_ELBOW]],
+    forearm: [[PoseLandmark.LEFT_ELBOW, PoseLandmark.LEFT_WRIST], [PoseLandmark.RIGHT_ELBOW, PoseLandmark.RIGHT_WRIST]],
+    thigh: [[PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE], [PoseLandmark.RIGHT_HIP, PoseLandmark.RIGHT_KNEE]],
+    shin: [[PoseLandmark.LEFT_KNEE, PoseLandmark.LEFT_ANKLE], [PoseLandmark.RIGHT_KNEE, PoseLandmark.RIGHT_ANKLE]],
+    torso: [[PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_HIP], [PoseLandmark.RIGHT_SHOULDER, PoseLandmark.RIGHT_HIP]],
+};
+
+export type Framing = 'centered' | 'off-center' | 'too-close' | 'too-far';
+
+const MIN_BODY_VISIBILITY = 0.5;
+const TYPICAL_TORSO_TO_STATURE = 0.3; // shoulder-to-hip length over standing height, for uncalibrated users
+const SIDE_ON_FOOT = 0.7; // share of the foot's image length that must run horizontally to judge knee-over-toe
+const FRAME_MIN_FILL = 0.4; // standing height as a share of the image height
+const FRAME_MAX_FILL = 0.95;
+
+const isBodyVisible = (landmark: Landmark3D | undefined): landmark is Landmark3D =>
+    !!landmark && (landmark.visibility ?? 1) >= MIN_BODY_VISIBILITY;
+
+/**
+ * Distance in the image plane, in image-height units. Landmark x is normalized to the image width,
+ * so it is scaled by the aspect ratio first.
+ */
+export function imageDistance(a: Landmark3D, b: Landmark3D, aspectRatio: number = 4 / 3): number {
+    return Math.hypot((a.x - b.x) * aspectRatio, a.y - b.y);
+}
+
+/**
+ * Length of a segment on each side that has both ends in view
+ */
+export function getSegmentLengths(landmarks: Landmark3D[], segment: BodySegment, aspectRatio: number = 4 / 3): number[] {
+    return SEGMENT_LANDMARKS[segment].flatMap(([from, to]) => {
+        const a = landmarks[from];
+        const b = landmarks[to];
+        return isBodyVisible(a) && isBodyVisible(b) ? [imageDistance(a, b, aspectRatio)] : [];
+    });
+}
+
+/**
+ * The person's standing height in image-height units on this frame, or null with no torso or limb in view.
+ * With a T-pose measurement the stored stature is scaled by the least foreshortened segment, since turning
+ * or bending only ever shortens a segment in the image; without one it is estimated from a typical torso.
+ */
+export function getBodyScale(
+    landmarks: Landmark3D[],
+    anthropometry: Anthropometry | null,
+    aspectRatio: number = 4 / 3
+): number | null {
+    if (anthropometry) {
+        const ratios = (Object.keys(anthropometry.segments) as BodySegment[]).flatMap(segment => {
+            const stored = anthropometry.segments[segment];
+            return stored ? getSegmentLengths(landmarks, segment, aspectRatio).map(length => length / stored) : [];
+        });
+        if (ratios.length > 0) return anthropometry.stature * Math.max(...ratios);
+    }
+
+    const torso = getSegmentLengths(landmarks, 'torso', aspectRatio);
+    return torso.length > 0 ? Math.max(...torso) / TYPICAL_TORSO_TO_STATURE : null;
+}
+
+/**
+ * How far the knee is ahead of the toes along the foot, in statures (negative when behind).
+ * Returns 0 unless the foot is side-on to the camera, since otherwise forward travel is not visible.
+ */
+export function getKneeOverToe(
+    landmarks: Landmark3D[],
+    side: 'left' | 'right',
+    scale: number,
+    aspectRatio: number = 4 / 3
+): number {
+    const knee = landmarks[side === 'left' ? PoseLandmark.LEFT_KNEE : PoseLandmark.RIGHT_KNEE];
+    const heel = landmarks[side === 'left' ? PoseLandmark.LEFT_HEEL : PoseLandmark.RIGHT_HEEL];
+    const toe = landmarks[side === 'left' ? PoseLandmark.LEFT_FOOT_INDEX : PoseLandmark.RIGHT_FOOT_INDEX];
+    if (!isBodyVisible(knee) || !isBodyVisible(heel) || !isBodyVisible(toe) || scale <= 0) return 0;
+
+    const footX = (toe.x - heel.x) * aspectRatio;
+    const footLength = imageDistance(heel, toe, aspectRatio);
+    if (footLength === 0 || Math.abs(footX) / footLength < SIDE_ON_FOOT) return 0;
+
+    return ((knee.x - toe.x) * aspectRatio * Math.sign(footX)) / scale;
+}
+
+/**
+ * Distance between the ankles in statures, -1 when either is out of view
+ */
+export function getFootWidth(landmarks: Landmark3D[], scale: number, aspectRatio: number = 4 / 3): number {
+    const left = landmarks[PoseLandmark.LEFT_ANKLE];
+    const right = landmarks[PoseLandmark.RIGHT_ANKLE];
+    if (!isBodyVisible(left) || !isBodyVisible(right) || scale <= 0) return -1;
+    return imageDistance(left, right, aspectRatio) / scale;
+}
+
+/**
+ * Height of the ankles above the floor line (their image y when grounded), in statures
+ */
+export function getJumpHeight(landmarks: Landmark3D[], groundY: number, scale: number): number {
+    if (scale <= 0) return 0;
+    const ankleY = (landmarks[PoseLandmark.LEFT_ANKLE].y + landmarks[PoseLandmark.RIGHT_ANKLE].y) / 2;
+    return Math.max(0, groundY - ankleY) / scale;
+}
+
+/**
+ * Whether the person is centred and, given their current body scale, at a distance where the whole
+ * body fits the frame. Without a scale only the generic shoulder and hip zone is checked.
+ */
+export function getFraming(landmarks: Landmark3D[], scale: number | null): Framing {
+    const shoulderL = landmarks[PoseLandmark.LEFT_SHOULDER];
+    const shoulderR = landmarks[PoseLandmark.RIGHT_SHOULDER];
+    const hipL = landmarks[PoseLandmark.LEFT_HIP];
+    if (!shoulderL || !shoulderR || !hipL) return 'off-center';
+
+    const withinX = shoulderL.x > 0.1 && shoulderL.x < 0.9 && shoulderR.x > 0.1 && shoulderR.x < 0.9;
+    if (!withinX) return 'off-center';
+
+    if (scale !== null) {
+        if (scale > FRAME_MAX_FILL) return 'too-close';
+        if (scale < FRAME_MIN_FILL) return 'too-far';
+        return 'centered';
+    }
+
+    const withinY = shoulderL.y > 0.1 && shoulderL.y < 0.8 && hipL.y > 0.2 && hipL.y < 0.9;
+    return withinY ? 'centered' : 'off-center';
+}
+
 /**
  * Clinical Pain Face Detection (FACS-based)
  * Monitors AU4 (Brows), AU6/7 (Eyes), AU9 (Nose), AU10 (Lip)
@@ -407,154 +603,3 @@ export function calculateBiometrics(
         safetyLog,
     };
 }
-
-/**
- * Evaluate form and return joint stress levels
- */
-export function evaluateForm(
-    landmarks: Landmark3D[],
-    exerciseId: string,
-    biometrics: BiometricData
-): JointStress[] {
-    const stresses: JointStress[] = [];
-
-    switch (exerciseId) {
-        case 'pushup':
-            // Check elbow angle at bottom position
-            const avgElbow = (biometrics.jointAngles.leftElbow + biometrics.jointAngles.rightElbow) / 2;
-
-            // Elbow stress
-            if (avgElbow < 70) {
-                stresses.push({ jointId: PoseLandmark.LEFT_ELBOW, stressLevel: 'bad', message: 'Too deep!' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_ELBOW, stressLevel: 'bad', message: 'Too deep!' });
-            } else if (avgElbow > 160) {
-                stresses.push({ jointId: PoseLandmark.LEFT_ELBOW, stressLevel: 'good' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_ELBOW, stressLevel: 'good' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_ELBOW, stressLevel: 'warning', message: 'Go lower' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_ELBOW, stressLevel: 'warning', message: 'Go lower' });
-            }
-
-            // Check spine alignment
-            if (biometrics.jointAngles.spine < 160) {
-                stresses.push({ jointId: PoseLandmark.LEFT_HIP, stressLevel: 'bad', message: 'Keep back straight!' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_HIP, stressLevel: 'good' });
-            }
-            break;
-
-        case 'squat':
-            const leftKneeAngle = biometrics.jointAngles.leftKnee;
-            const rightKneeAngle = biometrics.jointAngles.rightKnee;
-            const leftVis = landmarks[PoseLandmark.LEFT_KNEE].visibility || 0;
-            const rightVis = landmarks[PoseLandmark.RIGHT_KNEE].visibility || 0;
-
-            // Use the more visible knee or average
-            const avgKnee = (leftVis > 0.5 && rightVis > 0.5)
-                ? (leftKneeAngle + rightKneeAngle) / 2
-                : (leftVis > rightVis ? leftKneeAngle : rightKneeAngle);
-
-            if (avgKnee < 80) {
-                stresses.push({ jointId: PoseLandmark.LEFT_KNEE, stressLevel: 'warning', message: 'Too deep for beginners' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_KNEE, stressLevel: 'warning' });
-            } else if (avgKnee > 140) { // Slightly lower threshold for 'up' detection
-                stresses.push({ jointId: PoseLandmark.LEFT_KNEE, stressLevel: 'warning', message: 'Squat deeper' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_KNEE, stressLevel: 'warning' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_KNEE, stressLevel: 'good' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_KNEE, stressLevel: 'good' });
-            }
-
-            // Check symmetry only if both are visible
-            if (leftVis > 0.6 && rightVis > 0.6 && biometrics.symmetryScores.knee < 75) {
-                stresses.push({ jointId: PoseLandmark.LEFT_KNEE, stressLevel: 'bad', message: 'Uneven weight distribution' });
-            }
-            break;
-
-        case 'bicep-curl':
-            // Check for shoulder movement (should be minimal)
-            const shoulderMovement = Math.abs(
-                biometrics.jointAngles.leftShoulder - biometrics.jointAngles.rightShoulder
-            );
-
-            if (shoulderMovement > 20) {
-                stresses.push({ jointId: PoseLandmark.LEFT_SHOULDER, stressLevel: 'bad', message: 'Keep shoulders stable!' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_SHOULDER, stressLevel: 'bad' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_SHOULDER, stressLevel: 'good' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_SHOULDER, stressLevel: 'good' });
-            }
-
-            // Check elbow movement
-            stresses.push({ jointId: PoseLandmark.LEFT_ELBOW, stressLevel: 'good' });
-            stresses.push({ jointId: PoseLandmark.RIGHT_ELBOW, stressLevel: 'good' });
-            break;
-
-        case 'plank':
-            // 1. Check hip alignment (Core stability)
-            // Using the average of both sides for more robustness
-            const leftHipAngle = biometrics.jointAngles.leftHip;
-            const rightHipAngle = biometrics.jointAngles.rightHip;
-            const avgHipAngle = (leftHipAngle + rightHipAngle) / 2;
-
-            if (avgHipAngle < 160) {
-                stresses.push({ jointId: PoseLandmark.LEFT_HIP, stressLevel: 'bad', message: 'Hips too high! Keep body straight.' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_HIP, stressLevel: 'bad' });
-            } else if (avgHipAngle > 200) {
-                stresses.push({ jointId: PoseLandmark.LEFT_HIP, stressLevel: 'bad', message: 'Hips sagging! Engage your core.' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_HIP, stressLevel: 'bad' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_HIP, stressLevel: 'good' });
-                stresses.push({ jointId: PoseLandmark.RIGHT_HIP, stressLevel: 'good' });
-            }
-
-            // 2. Check knee extension (Leg stability)
-            const avgKneeAngle = (biometrics.jointAngles.leftKnee + biometrics.jointAngles.rightKnee) / 2;
-            if (avgKneeAngle < 160) {
-                stresses.push({ jointId: PoseLandmark.LEFT_KNEE, stressLevel: 'warning', message: 'Keep your legs straight' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_KNEE, stressLevel: 'good' });
-            }
-
-            // 3. Check shoulder stability
-            const avgShoulderAngle = (biometrics.jointAngles.leftShoulder + biometrics.jointAngles.rightShoulder) / 2;
-            // In a forearm plank, shoulder-hip-elbow angle should be roughly 90
-            if (avgShoulderAngle > 110 || avgShoulderAngle < 70) {
-                stresses.push({ jointId: PoseLandmark.LEFT_SHOULDER, stressLevel: 'warning', message: 'Shoulders over elbows' });
-            } else {
-                stresses.push({ jointId: PoseLandmark.LEFT_SHOULDER, stressLevel: 'good' });
-            }
-            break;
-            // Default: all joints good
-            [PoseLandmark.LEFT_SHOULDER, PoseLandmark.RIGHT_SHOULDER,
-            PoseLandmark.LEFT_ELBOW, PoseLandmark.RIGHT_ELBOW,
-            PoseLandmark.LEFT_HIP, PoseLandmark.RIGHT_HIP,
-            PoseLandmark.LEFT_KNEE, PoseLandmark.RIGHT_KNEE].forEach(joint => {
-                stresses.push({ jointId: joint, stressLevel: 'good' });
-            });
-    }
-
-    return stresses;
-}
-
-/**
- * Calculate overall form score (0-100)
- */
-export function calculateFormScore(
-    biometrics: BiometricData,
-    jointStresses: JointStress[]
-): number {
-    let score = 100;
-
-    // Deduct points for bad form
-    jointStresses.forEach(stress => {
-        if (stress.stressLevel === 'bad') score -= 15;
-        else if (stress.stressLevel === 'warning') score -= 5;
-    });
-
-    // Factor in symmetry
-    const symmetryBonus = (biometrics.overallSymmetry - 50) / 5;
-    score += symmetryBonus;
-
-    return Math.max(0, Math.min(100, Math.round(score)));
-}
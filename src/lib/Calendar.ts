@@ -0,0 +1,36 @@
+// Local calendar-day keys (YYYY-MM-DD) used to bucket sessions, stats and streaks
+
+/**
+ * The local calendar day of a timestamp as YYYY-MM-DD. Days follow the user's clock, so an
+ * evening workout in the Americas or an early one in Asia counts for the day it happened.
+ */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of a day key; new Date(key) would read it as UTC midnight
+ */
+export function fromDateKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Move a day key by whole calendar days. Adding multiples of 86400000 ms drifts across DST changes.
+ */
+export function addDays(key: string, days: number): string {
+    const date = fromDateKey(key);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+}
+
+/**
+ * Whole calendar days from one key to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+    // Round away the 23- or 25-hour days around DST changes
+    return Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / 86400000);
+}
@@ -0,0 +1,252 @@
+// Personal calibration: the neutral facial baseline, body segment lengths and the camera they were
+// measured with, plus T-pose anthropometry. A stored profile is verified in a short window at each start
+// instead of recalibrating.
+import {
+    Anthropometry,
+    BodySegment,
+    BodySegments,
+    CalibrationBaseline,
+    CalibrationProfile,
+    CameraContext,
+    Landmark3D,
+    PoseLandmark,
+} from '@/types';
+import { calculateDistance3D, getSegmentLengths, imageDistance } from './Biometrics';
+
+export const CALIBRATION_MS = 3000;
+export const VERIFY_MS = 1000;
+export const FACE_DRIFT_TOLERANCE = 0.1; // relative change of a facial ratio
+export const SEGMENT_DRIFT_TOLERANCE = 0.15; // relative change of a segment-to-torso ratio
+export const BRIGHTNESS_DRIFT = 40; // luma, 0-255
+export const TPOSE_MS = 2000; // how long the T-pose has to be held
+const MIN_VISIBILITY = 0.5;
+const MIN_SEGMENT_SAMPLES = 5; // side-frames with both ends in view
+
+// Average proportions used to turn landmarks into a standing height and a camera distance
+const NOSE_TO_ANKLE_STATURE = 0.88; // nose-to-ankle height over standing height
+const REFERENCE_STATURE_M = 1.7;
+const CAMERA_VERTICAL_FOV_DEG = 45; // typical laptop webcam
+const TPOSE_ARM_LEVEL = 0.25; // elbow and wrist height off the shoulder line, in torso lengths
+const TPOSE_MIN_SPAN = 2.5; // wrist-to-wrist span over shoulder width with the arms straight out
+
+// Used when the face is never in view during a full calibration
+export const DEFAULT_FACE_BASELINE: CalibrationBaseline = {
+    eyeDist: 0.1,
+    eyeNoseRatio: 0.6,
+    eyeNarrowRatio: 0.25,
+    mouthNoseRatio: 0.9,
+    mouthWidthRatio: 0.9,
+};
+
+export interface CalibrationResult {
+    status: 'verified' | 'calibrated';
+    face: CalibrationBaseline | null; // null when the face was never in view
+    segments: BodySegments;
+    camera: CameraContext | null;
+    anthropometry: Anthropometry | null; // measured in this calibration's T-pose step, null if skipped or not run
+    drift: string[]; // why a stored profile was rejected, if one was
+}
+
+const SEGMENT_LABELS: Record<BodySegment, string> = {
+    upperArm: 'upper arm',
+    forearm: 'forearm',
+    thigh: 'thigh',
+    shin: 'shin',
+    torso: 'torso',
+};
+
+const FACE_RATIOS: { key: keyof CalibrationBaseline; label: string }[] = [
+    { key: 'eyeNoseRatio', label: 'brow' },
+    { key: 'eyeNarrowRatio', label: 'eye' },
+    { key: 'mouthNoseRatio', label: 'upper lip' },
+    { key: 'mouthWidthRatio', label: 'mouth' },
+];
+
+const isVisible = (landmark: Landmark3D | undefined): landmark is Landmark3D =>
+    !!landmark && (landmark.visibility ?? 1) >= MIN_VISIBILITY;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Mean neutral-expression facial ratios over the frames with the face in view, or null if it never was
+ */
+export function measureFaceBaseline(frames: Landmark3D[][]): CalibrationBaseline | null {
+    let counts = 0;
+    const sums = { eyeDist: 0, eyeNoseRatio: 0, eyeNarrowRatio: 0, mouthNoseRatio: 0, mouthWidthRatio: 0 };
+
+    frames.forEach(frame => {
+        const nose = frame[PoseLandmark.NOSE];
+        const leftEye = frame[PoseLandmark.LEFT_EYE];
+        const rightEye = frame[PoseLandmark.RIGHT_EYE];
+        const leftEyeInner = frame[PoseLandmark.LEFT_EYE_INNER];
+        const rightEyeInner = frame[PoseLandmark.RIGHT_EYE_INNER];
+        const leftEyeOuter = frame[PoseLandmark.LEFT_EYE_OUTER];
+        const rightEyeOuter = frame[PoseLandmark.RIGHT_EYE_OUTER];
+        const mouthLeft = frame[PoseLandmark.MOUTH_LEFT];
+        const mouthRight = frame[PoseLandmark.MOUTH_RIGHT];
+
+        if (isVisible(nose) && isVisible(leftEye) && isVisible(rightEye) && leftEyeInner && rightEyeInner
+            && leftEyeOuter && rightEyeOuter && mouthLeft && mouthRight) {
+            const eyeDist = calculateDistance3D(leftEye, rightEye);
+            if (eyeDist === 0) return;
+
+            sums.eyeDist += eyeDist;
+            sums.eyeNoseRatio += ((calculateDistance3D(leftEyeInner, nose) + calculateDistance3D(rightEyeInner, nose)) / 2) / eyeDist;
+            sums.eyeNarrowRatio += ((Math.abs(leftEyeInner.x - leftEyeOuter.x) + Math.abs(rightEyeInner.x - rightEyeOuter.x)) / 2) / eyeDist;
+            sums.mouthNoseRatio += ((calculateDistance3D(mouthLeft, nose) + calculateDistance3D(mouthRight, nose)) / 2) / eyeDist;
+            sums.mouthWidthRatio += calculateDistance3D(mouthLeft, mouthRight) / eyeDist;
+            counts++;
+        }
+    });
+
+    if (counts === 0) return null;
+
+    return {
+        eyeDist: sums.eyeDist / counts,
+        eyeNoseRatio: sums.eyeNoseRatio / counts,
+        eyeNarrowRatio: sums.eyeNarrowRatio / counts,
+        mouthNoseRatio: sums.mouthNoseRatio / counts,
+        mouthWidthRatio: sums.mouthWidthRatio / counts,
+    };
+}
+
+/**
+ * Median length of each body segment over both sides, in image-height units. Landmark x is
+ * normalized to the image width, so it is scaled by the aspect ratio first.
+ */
+export function measureBodySegments(frames: Landmark3D[][], aspectRatio: number = 4 / 3): BodySegments {
+    const segments: BodySegments = {};
+    (Object.keys(SEGMENT_LABELS) as BodySegment[]).forEach(segment => {
+        const lengths = frames.flatMap(frame => getSegmentLengths(frame, segment, aspectRatio));
+        if (lengths.length >= MIN_SEGMENT_SAMPLES) segments[segment] = median(lengths);
+    });
+    return segments;
+}
+
+/**
+ * Standing tall, whole body in view, with both arms held straight out to the sides at shoulder height
+ */
+export function isTPose(frame: Landmark3D[], aspectRatio: number = 4 / 3): boolean {
+    const required = [
+        PoseLandmark.NOSE,
+        PoseLandmark.LEFT_SHOULDER, PoseLandmark.RIGHT_SHOULDER,
+        PoseLandmark.LEFT_ELBOW, PoseLandmark.RIGHT_ELBOW,
+        PoseLandmark.LEFT_WRIST, PoseLandmark.RIGHT_WRIST,
+        PoseLandmark.LEFT_HIP, PoseLandmark.RIGHT_HIP,
+        PoseLandmark.LEFT_ANKLE, PoseLandmark.RIGHT_ANKLE,
+    ];
+    if (!required.every(landmark => isVisible(frame[landmark]))) return false;
+
+    const torso = Math.max(...getSegmentLengths(frame, 'torso', aspectRatio));
+    const shoulderWidth = imageDistance(frame[PoseLandmark.LEFT_SHOULDER], frame[PoseLandmark.RIGHT_SHOULDER], aspectRatio);
+    if (torso === 0 || shoulderWidth === 0) return false;
+
+    const armsLevel = ([
+        [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW, PoseLandmark.LEFT_WRIST],
+        [PoseLandmark.RIGHT_SHOULDER, PoseLandmark.RIGHT_ELBOW, PoseLandmark.RIGHT_WRIST],
+    ] as const).every(([shoulder, elbow, wrist]) =>
+        Math.abs(frame[elbow].y - frame[shoulder].y) < TPOSE_ARM_LEVEL * torso
+        && Math.abs(frame[wrist].y - frame[shoulder].y) < TPOSE_ARM_LEVEL * torso
+    );
+    const span = imageDistance(frame[PoseLandmark.LEFT_WRIST], frame[PoseLandmark.RIGHT_WRIST], aspectRatio);
+
+    return armsLevel && span > TPOSE_MIN_SPAN * shoulderWidth;
+}
+
+/**
+ * Body measurements from T-pose frames, in image-height units, or null without enough frames in view.
+ * The standing height comes from the nose-to-ankle height and average proportions; the camera distance
+ * assumes an average adult height, so it is an estimate for display and framing rather than a measurement.
+ */
+export function measureAnthropometry(
+    frames: Landmark3D[][],
+    aspectRatio: number = 4 / 3,
+    now: number = Date.now()
+): Anthropometry | null {
+    const between = (from: PoseLandmark, to: PoseLandmark) => frames.flatMap(frame =>
+        isVisible(frame[from]) && isVisible(frame[to]) ? [imageDistance(frame[from], frame[to], aspectRatio)] : []
+    );
+    const statures = frames.flatMap(frame => {
+        const nose = frame[PoseLandmark.NOSE];
+        const left = frame[PoseLandmark.LEFT_ANKLE];
+        const right = frame[PoseLandmark.RIGHT_ANKLE];
+        if (!isVisible(nose) || !isVisible(left) || !isVisible(right)) return [];
+        const height = (left.y + right.y) / 2 - nose.y;
+        return height > 0 ? [height / NOSE_TO_ANKLE_STATURE] : [];
+    });
+    const shoulderWidths = between(PoseLandmark.LEFT_SHOULDER, PoseLandmark.RIGHT_SHOULDER);
+    const hipWidths = between(PoseLandmark.LEFT_HIP, PoseLandmark.RIGHT_HIP);
+    const armSpans = between(PoseLandmark.LEFT_WRIST, PoseLandmark.RIGHT_WRIST);
+    const footLengths = [
+        ...between(PoseLandmark.LEFT_HEEL, PoseLandmark.LEFT_FOOT_INDEX),
+        ...between(PoseLandmark.RIGHT_HEEL, PoseLandmark.RIGHT_FOOT_INDEX),
+    ];
+    const segments = measureBodySegments(frames, aspectRatio);
+
+    if ([statures, shoulderWidths, hipWidths, armSpans].some(samples => samples.length < MIN_SEGMENT_SAMPLES)) return null;
+    if (Object.keys(segments).length === 0) return null;
+
+    const stature = median(statures);
+    const fov = (CAMERA_VERTICAL_FOV_DEG * Math.PI) / 180;
+
+    return {
+        stature,
+        shoulderWidth: median(shoulderWidths),
+        hipWidth: median(hipWidths),
+        armSpan: median(armSpans),
+        footLength: footLengths.length >= MIN_SEGMENT_SAMPLES ? median(footLengths) : 0,
+        segments,
+        cameraDistance: REFERENCE_STATURE_M / (stature * 2 * Math.tan(fov / 2)),
+        capturedAt: now,
+    };
+}
+
+const percent = (ratio: number) => `${Math.round(Math.abs(ratio - 1) * 100)}%`;
+
+/**
+ * What no longer matches a stored profile. Only evidence counts: a face, segment or camera
+ * detail that was not measured this time is not treated as drift.
+ */
+export function detectCalibrationDrift(
+    profile: CalibrationProfile,
+    face: CalibrationBaseline | null,
+    segments: BodySegments,
+    camera: CameraContext | null
+): string[] {
+    const drift: string[] = [];
+
+    if (face) {
+        FACE_RATIOS.forEach(({ key, label }) => {
+            const ratio = face[key] / profile.face[key];
+            if (Math.abs(ratio - 1) > FACE_DRIFT_TOLERANCE) drift.push(`${label} shape changed ${percent(ratio)}`);
+        });
+    }
+
+    // Relative to the torso, so moving nearer or further from the camera is not drift
+    const torso = segments.torso;
+    const storedTorso = profile.segments.torso;
+    if (torso && storedTorso) {
+        (Object.keys(SEGMENT_LABELS) as BodySegment[]).forEach(segment => {
+            const length = segments[segment];
+            const stored = profile.segments[segment];
+            if (segment === 'torso' || !length || !stored) return;
+            const ratio = (length / torso) / (stored / storedTorso);
+            if (Math.abs(ratio - 1) > SEGMENT_DRIFT_TOLERANCE) drift.push(`${SEGMENT_LABELS[segment]} proportion changed ${percent(ratio)}`);
+        });
+    }
+
+    const stored = profile.camera;
+    if (camera && stored) {
+        if (camera.deviceLabel && stored.deviceLabel && camera.deviceLabel !== stored.deviceLabel) {
+            drift.push('different camera');
+        }
+        if (camera.width * stored.height !== stored.width * camera.height) drift.push('camera aspect ratio changed');
+        if (Math.abs(camera.brightness - stored.brightness) > BRIGHTNESS_DRIFT) drift.push('lighting changed');
+    }
+
+    return drift;
+}
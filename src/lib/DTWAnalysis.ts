@@ -1,245 +1,343 @@
 // Dynamic Time Warping analysis for comparing user movement to gold standard
 import { Landmark3D, GoldStandardSequence, DTWResult } from '@/types';
+import { PoseFeatureOptions, PoseFeatures, extractPoseFeatures, featureDistance } from './PoseFeatures';
+
+// Quality falls to ~80 at a mean deviation of 0.15 torso lengths (or 0.15 rad in angle space)
+export const DEFAULT_DTW_SENSITIVITY = 1.5;
 
 /**
- * Calculate Euclidean distance between two pose frames
+ * Features of every gold standard frame, computed once per sequence
  */
-function poseDistance(frame1: Landmark3D[], frame2: Landmark3D[]): number {
-    if (frame1.length !== frame2.length) return Infinity;
-
-    let totalDistance = 0;
-    for (let i = 0; i < frame1.length; i++) {
-        const dx = frame1[i].x - frame2[i].x;
-        const dy = frame1[i].y - frame2[i].y;
-        const dz = frame1[i].z - frame2[i].z;
-        totalDistance += Math.sqrt(dx * dx + dy * dy + dz * dz);
-    }
+export function goldStandardFeatures(goldSequence: GoldStandardSequence, options: PoseFeatureOptions): PoseFeatures[] {
+    return goldSequence.frames.map(frame => extractPoseFeatures(frame.landmarks, options));
+}
+
+export interface DTWOptions {
+    sensitivity?: number; // how quickly the quality score falls with normalized distance
+    band?: number; // Sakoe-Chiba half-width as a fraction of the longer sequence; omit for unconstrained
+}
+
+// Backpointer codes shared by the batch and streaming implementations
+const STEP_START = 0;
+const STEP_MATCH = 1;
+const STEP_INSERT = 2; // advance the user sequence only
+const STEP_DELETE = 3; // advance the gold sequence only
+
+export function qualityFromDistance(normalizedDistance: number, sensitivity: number = DEFAULT_DTW_SENSITIVITY): number {
+    if (!Number.isFinite(normalizedDistance)) return 0;
+    return Math.max(0, Math.min(100, Math.round(100 * Math.exp(-normalizedDistance * sensitivity))));
+}
+
+const emptyResult: DTWResult = {
+    distance: Infinity,
+    normalizedDistance: Infinity,
+    alignmentPath: [],
+    qualityScore: 0,
+};
+
+/**
+ * Cost matrix and backpointers reused across calls; grown only when a larger problem arrives
+ */
+const workspace = {
+    cost: new Float64Array(0),
+    steps: new Uint8Array(0),
+    rowStart: new Int32Array(0),
+    rowEnd: new Int32Array(0),
+};
 
-    return totalDistance / frame1.length;
+function reserveWorkspace(rows: number, cols: number): void {
+    if (workspace.cost.length < rows * cols) {
+        workspace.cost = new Float64Array(rows * cols);
+        workspace.steps = new Uint8Array(rows * cols);
+    }
+    if (workspace.rowStart.length < rows) {
+        workspace.rowStart = new Int32Array(rows);
+        workspace.rowEnd = new Int32Array(rows);
+    }
 }
 
 /**
  * Dynamic Time Warping algorithm for comparing pose sequences
- * @param userSequence - Array of user pose frames
- * @param goldSequence - Gold standard sequence to compare against
+ * @param userSequence - Features of the user's frames
+ * @param goldSequence - Features of the gold standard frames
+ * @param options - Score sensitivity and an optional Sakoe-Chiba band
  * @returns DTW result with distance, alignment path, and quality score
  */
 export function computeDTW(
-    userSequence: Landmark3D[][],
-    goldSequence: GoldStandardSequence
+    userSequence: PoseFeatures[],
+    goldSequence: PoseFeatures[],
+    options: DTWOptions = {}
 ): DTWResult {
     const n = userSequence.length;
-    const m = goldSequence.frames.length;
+    const m = goldSequence.length;
+    const sensitivity = options.sensitivity ?? DEFAULT_DTW_SENSITIVITY;
 
-    if (n === 0 || m === 0) {
-        return {
-            distance: Infinity,
-            normalizedDistance: Infinity,
-            alignmentPath: [],
-            qualityScore: 0,
-        };
-    }
+    if (n === 0 || m === 0) return { ...emptyResult };
+
+    // Row i covers columns [rowStart, rowEnd] around the diagonal from (0, 0) to (n, m).
+    // The band is never narrower than the diagonal's slope so consecutive rows always connect.
+    const cols = m + 1;
+    const halfWidth = options.band === undefined
+        ? m
+        : Math.max(1, Math.ceil(m / n), Math.ceil(options.band * Math.max(n, m)));
+    reserveWorkspace(n + 1, cols);
+    const { cost, steps, rowStart, rowEnd } = workspace;
 
-    // Initialize DTW matrix with infinity
-    const dtw: number[][] = Array(n + 1)
-        .fill(null)
-        .map(() => Array(m + 1).fill(Infinity));
+    const at = (i: number, j: number): number =>
+        j < rowStart[i] || j > rowEnd[i] ? Infinity : cost[i * cols + j];
 
-    dtw[0][0] = 0;
+    rowStart[0] = 0;
+    rowEnd[0] = 0;
+    cost[0] = 0;
 
-    // Fill DTW matrix
     for (let i = 1; i <= n; i++) {
-        for (let j = 1; j <= m; j++) {
-            const cost = poseDistance(
-                userSequence[i - 1],
-                goldSequence.frames[j - 1].landmarks
-            );
-
-            dtw[i][j] = cost + Math.min(
-                dtw[i - 1][j],     // Insertion
-                dtw[i][j - 1],     // Deletion
-                dtw[i - 1][j - 1]  // Match
-            );
+        const centre = (i * m) / n;
+        const lo = Math.max(1, Math.floor(centre - halfWidth));
+        const hi = Math.min(m, Math.ceil(centre + halfWidth));
+        rowStart[i] = lo;
+        rowEnd[i] = hi;
+
+        for (let j = lo; j <= hi; j++) {
+            const match = at(i - 1, j - 1);
+            const insert = at(i - 1, j);
+            const del = j > lo ? cost[i * cols + j - 1] : Infinity;
+
+            let best = match;
+            let step = STEP_MATCH;
+            if (insert < best) {
+                best = insert;
+                step = STEP_INSERT;
+            }
+            if (del < best) {
+                best = del;
+                step = STEP_DELETE;
+            }
+
+            cost[i * cols + j] = best + featureDistance(userSequence[i - 1], goldSequence[j - 1]);
+            steps[i * cols + j] = step;
         }
     }
 
+    const distance = at(n, m);
+    if (!Number.isFinite(distance)) return { ...emptyResult };
+
     // Backtrack to find alignment path
     const path: [number, number][] = [];
     let i = n, j = m;
-
     while (i > 0 && j > 0) {
-        path.unshift([i - 1, j - 1]);
-
-        const diag = dtw[i - 1][j - 1];
-        const left = dtw[i][j - 1];
-        const up = dtw[i - 1][j];
-
-        if (diag <= left && diag <= up) {
+        path.push([i - 1, j - 1]);
+        const step = steps[i * cols + j];
+        if (step === STEP_MATCH) {
             i--;
             j--;
-        } else if (left <= up) {
-            j--;
-        } else {
+        } else if (step === STEP_INSERT) {
             i--;
+        } else {
+            j--;
         }
     }
+    path.reverse();
 
-    const distance = dtw[n][m];
     const normalizedDistance = distance / Math.max(n, m);
 
-    // Calculate quality score (0-100)
-    // Lower distance = higher quality
-    // Typical good performance: normalized distance < 0.1
-    const qualityScore = Math.max(0, Math.min(100,
-        Math.round(100 * Math.exp(-normalizedDistance * 5))
-    ));
-
     return {
         distance,
         normalizedDistance,
         alignmentPath: path,
-        qualityScore,
+        qualityScore: qualityFromDistance(normalizedDistance, sensitivity),
     };
 }
 
 /**
- * Real-time DTW for streaming pose data
- * Uses a sliding window approach for efficiency
+ * Live match of the frames seen so far against the best-fitting prefix of the gold standard
+ */
+export interface StreamingDTWMatch {
+    goldIndex: number; // gold frame aligned with the latest user frame
+    progress: number; // 0-1 through the gold standard
+    normalizedDistance: number;
+    qualityScore: number;
+}
+
+/**
+ * Incremental subsequence DTW for streaming pose data.
+ * Each frame adds one row in O(m): the alignment may begin at any user frame (open begin), live scores
+ * take the best gold frame reached so far (open end), and finish() closes the alignment at the last gold frame.
  */
 export class StreamingDTW {
-    private goldSequence: GoldStandardSequence;
-    private userBuffer: Landmark3D[][] = [];
-    private windowSize: number;
-    private lastResult: DTWResult | null = null;
-
-    constructor(goldSequence: GoldStandardSequence, windowSize: number = 30) {
-        this.goldSequence = goldSequence;
-        this.windowSize = windowSize;
+    private goldFeatures: PoseFeatures[];
+    private options: PoseFeatureOptions;
+    private sensitivity: number;
+    private maxFrames: number;
+
+    // Two cost rows swapped each frame, plus the user frame where each cell's alignment began
+    private previousCost: Float64Array;
+    private currentCost: Float64Array;
+    private previousStart: Int32Array;
+    private currentStart: Int32Array;
+
+    // Backpointers for the last maxFrames rows, used to recover the path at finish()
+    private steps: Uint8Array;
+    private frameCount = 0;
+    private lastMatch: StreamingDTWMatch | null = null;
+
+    constructor(
+        goldSequence: GoldStandardSequence,
+        options: PoseFeatureOptions,
+        maxFrames: number = 300,
+        sensitivity: number = DEFAULT_DTW_SENSITIVITY
+    ) {
+        this.options = options;
+        this.goldFeatures = goldStandardFeatures(goldSequence, options);
+        this.maxFrames = maxFrames;
+        this.sensitivity = sensitivity;
+
+        const m = this.goldFeatures.length;
+        this.previousCost = new Float64Array(m);
+        this.currentCost = new Float64Array(m);
+        this.previousStart = new Int32Array(m);
+        this.currentStart = new Int32Array(m);
+        this.steps = new Uint8Array(maxFrames * m);
     }
 
     /**
-     * Add a new frame and compute DTW if buffer is sufficient
+     * Add a new frame and update the live match
      */
-    addFrame(landmarks: Landmark3D[]): DTWResult | null {
-        this.userBuffer.push(landmarks);
+    addFrame(landmarks: Landmark3D[]): StreamingDTWMatch | null {
+        return this.addFeatures(extractPoseFeatures(landmarks, this.options));
+    }
+
+    addFeatures(features: PoseFeatures): StreamingDTWMatch | null {
+        const gold = this.goldFeatures;
+        const m = gold.length;
+        if (m === 0) return null;
+
+        const i = this.frameCount;
+        const rowOffset = (i % this.maxFrames) * m;
+        const prevCost = this.previousCost;
+        const prevStart = this.previousStart;
+        const cost = this.currentCost;
+        const start = this.currentStart;
+
+        for (let j = 0; j < m; j++) {
+            let best: number;
+            let step: number;
+            let from: number;
 
-        // Keep buffer at window size
-        if (this.userBuffer.length > this.windowSize * 2) {
-            this.userBuffer = this.userBuffer.slice(-this.windowSize);
+            if (j === 0) {
+                // Free start: re-anchoring here is never worse than extending an earlier alignment
+                best = 0;
+                step = STEP_START;
+                from = i;
+            } else {
+                best = i > 0 ? prevCost[j - 1] : Infinity;
+                step = STEP_MATCH;
+                from = i > 0 ? prevStart[j - 1] : i;
+                if (i > 0 && prevCost[j] < best) {
+                    best = prevCost[j];
+                    step = STEP_INSERT;
+                    from = prevStart[j];
+                }
+                if (cost[j - 1] < best) {
+                    best = cost[j - 1];
+                    step = STEP_DELETE;
+                    from = start[j - 1];
+                }
+            }
+
+            cost[j] = best + featureDistance(features, gold[j]);
+            start[j] = from;
+            this.steps[rowOffset + j] = step;
+        }
+
+        // Open end: the gold frame that best explains the motion so far
+        let goldIndex = 0;
+        let bestNormalized = Infinity;
+        for (let j = 0; j < m; j++) {
+            const normalized = cost[j] / Math.max(i - start[j] + 1, j + 1);
+            if (normalized <= bestNormalized) {
+                bestNormalized = normalized;
+                goldIndex = j;
+            }
         }
 
-        // Only compute if we have enough frames
-        if (this.userBuffer.length >= this.windowSize / 2) {
-            this.lastResult = computeDTW(this.userBuffer, this.goldSequence);
-            return this.lastResult;
+        this.previousCost = cost;
+        this.currentCost = prevCost;
+        this.previousStart = start;
+        this.currentStart = prevStart;
+        this.frameCount++;
+
+        this.lastMatch = {
+            goldIndex,
+            progress: m > 1 ? goldIndex / (m - 1) : 1,
+            normalizedDistance: bestNormalized,
+            qualityScore: qualityFromDistance(bestNormalized, this.sensitivity),
+        };
+        return this.lastMatch;
+    }
+
+    /**
+     * Close the alignment at the last gold frame and recover its path.
+     * Paths that began more than maxFrames ago are truncated to the frames still held.
+     */
+    finish(): DTWResult {
+        const m = this.goldFeatures.length;
+        if (m === 0 || this.frameCount === 0) return { ...emptyResult };
+
+        const end = this.frameCount - 1;
+        const distance = this.previousCost[m - 1];
+        const oldest = Math.max(0, this.frameCount - this.maxFrames);
+        const first = Math.max(oldest, this.previousStart[m - 1]);
+
+        const path: [number, number][] = [];
+        let i = end, j = m - 1;
+        while (i >= first) {
+            path.push([i - first, j]);
+            const step = this.steps[(i % this.maxFrames) * m + j];
+            if (step === STEP_START) break;
+            if (step === STEP_MATCH) {
+                i--;
+                j--;
+            } else if (step === STEP_INSERT) {
+                i--;
+            } else {
+                j--;
+            }
         }
+        path.reverse();
 
-        return this.lastResult;
+        const normalizedDistance = distance / Math.max(end - this.previousStart[m - 1] + 1, m);
+
+        return {
+            distance,
+            normalizedDistance,
+            alignmentPath: path,
+            qualityScore: qualityFromDistance(normalizedDistance, this.sensitivity),
+        };
     }
 
     /**
-     * Reset the streaming buffer
+     * Reset the streaming state; buffers are kept for the next rep
      */
     reset(): void {
-        this.userBuffer = [];
-        this.lastResult = null;
+        this.frameCount = 0;
+        this.lastMatch = null;
+    }
+
+    getFrameCount(): number {
+        return this.frameCount;
     }
 
     /**
      * Get the current quality score
      */
     getCurrentScore(): number {
-        return this.lastResult?.qualityScore ?? 0;
+        return this.lastMatch?.qualityScore ?? 0;
     }
-}
 
-/**
- * Placeholder gold standard sequences for exercises
- * In production, these would be recorded from expert demonstrations
- */
-export const goldStandards: { [exerciseId: string]: GoldStandardSequence } = {
-    pushup: {
-        exerciseId: 'pushup',
-        duration: 2000, // 2 seconds per rep
-        frames: [
-            // Top position (extended arms)
-            {
-                landmarks: generatePlaceholderLandmarks(0),
-                phase: 'UP',
-                timestamp: 0,
-            },
-            // Mid descent
-            {
-                landmarks: generatePlaceholderLandmarks(500),
-                phase: 'DOWN',
-                timestamp: 500,
-            },
-            // Bottom position
-            {
-                landmarks: generatePlaceholderLandmarks(1000),
-                phase: 'DOWN',
-                timestamp: 1000,
-            },
-            // Mid ascent
-            {
-                landmarks: generatePlaceholderLandmarks(1500),
-                phase: 'UP',
-                timestamp: 1500,
-            },
-            // Top position
-            {
-                landmarks: generatePlaceholderLandmarks(2000),
-                phase: 'COMPLETE',
-                timestamp: 2000,
-            },
-        ],
-    },
-    squat: {
-        exerciseId: 'squat',
-        duration: 3000,
-        frames: [
-            {
-                landmarks: generatePlaceholderLandmarks(0),
-                phase: 'UP',
-                timestamp: 0,
-            },
-            {
-                landmarks: generatePlaceholderLandmarks(750),
-                phase: 'DOWN',
-                timestamp: 750,
-            },
-            {
-                landmarks: generatePlaceholderLandmarks(1500),
-                phase: 'HOLD',
-                timestamp: 1500,
-            },
-            {
-                landmarks: generatePlaceholderLandmarks(2250),
-                phase: 'UP',
-                timestamp: 2250,
-            },
-            {
-                landmarks: generatePlaceholderLandmarks(3000),
-                phase: 'COMPLETE',
-                timestamp: 3000,
-            },
-        ],
-    },
-};
-
-/**
- * Generate placeholder landmarks for gold standard
- * In production, replace with actual recorded landmarks
- */
-function generatePlaceholderLandmarks(timestamp: number): Landmark3D[] {
-    const landmarks: Landmark3D[] = [];
-    for (let i = 0; i < 33; i++) {
-        landmarks.push({
-            x: 0.5 + Math.sin(timestamp / 1000) * 0.1,
-            y: 0.5 + Math.cos(timestamp / 1000) * 0.1,
-            z: 0,
-            visibility: 1,
-        });
+    /**
+     * How far through the gold standard the user currently is (0-1)
+     */
+    getProgress(): number {
+        return this.lastMatch?.progress ?? 0;
     }
-    return landmarks;
 }
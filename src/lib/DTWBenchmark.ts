@@ -0,0 +1,134 @@
+// Per-frame cost of the DTW variants on synthetic pose features
+import { GoldStandardSequence, Landmark3D } from '@/types';
+import { StreamingDTW, computeDTW } from './DTWAnalysis';
+import { PoseFeatureOptions, PoseFeatures, extractPoseFeatures } from './PoseFeatures';
+
+export type DTWBenchmarkMethod = 'full' | 'banded' | 'streaming';
+
+export interface DTWBenchmarkResult {
+    method: DTWBenchmarkMethod;
+    goldFrames: number;
+    userFrames: number;
+    msPerFrame: number;
+    maxMsPerFrame: number;
+    qualityScore: number;
+}
+
+export interface DTWBenchmarkOptions {
+    goldLengths: number[];
+    userFrames: number; // length of the simulated rep
+    band: number;
+    featureOptions: PoseFeatureOptions;
+}
+
+export const DEFAULT_DTW_BENCHMARK: DTWBenchmarkOptions = {
+    goldLengths: [60, 150, 300, 600],
+    userFrames: 90,
+    band: 0.1,
+    featureOptions: { space: 'position', landmarks: [], alignRotation: true },
+};
+
+// Whole frame time at 24 FPS; DTW must stay well inside it alongside pose detection
+export const FRAME_BUDGET_MS = 1000 / 24;
+
+/**
+ * A squat-like pose: every landmark bobs with the rep phase so all feature groups vary
+ */
+function syntheticPose(phase: number, jitter: number): Landmark3D[] {
+    const depth = (1 - Math.cos(phase * 2 * Math.PI)) / 2;
+    return Array.from({ length: 33 }, (_, i) => ({
+        x: (i % 2 === 0 ? -0.1 : 0.1) + Math.sin(i) * 0.05 + jitter * Math.sin(i * 7 + phase * 13),
+        y: 0.2 + (i / 33) * 0.6 - depth * 0.2 * (i / 33) + jitter * Math.cos(i * 5 + phase * 11),
+        z: Math.cos(i) * 0.05,
+        visibility: 0.9,
+    }));
+}
+
+function syntheticSequence(frames: number): GoldStandardSequence {
+    return {
+        exerciseId: 'benchmark',
+        duration: Math.round((frames * 1000) / 30),
+        frames: Array.from({ length: frames }, (_, i) => ({
+            landmarks: syntheticPose(i / (frames - 1), 0),
+            phase: 'DOWN',
+            timestamp: Math.round((i * 1000) / 30),
+        })),
+    };
+}
+
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Recompute a batch DTW over the rep so far on every frame, as the old streaming path did
+ */
+function timeRecompute(
+    user: PoseFeatures[],
+    gold: PoseFeatures[],
+    band: number | undefined
+): { total: number; max: number; qualityScore: number } {
+    let total = 0;
+    let max = 0;
+    let qualityScore = 0;
+    for (let i = 1; i <= user.length; i++) {
+        const started = now();
+        qualityScore = computeDTW(user.slice(0, i), gold, { band }).qualityScore;
+        const elapsed = now() - started;
+        total += elapsed;
+        max = Math.max(max, elapsed);
+    }
+    return { total, max, qualityScore };
+}
+
+function timeStreaming(
+    user: PoseFeatures[],
+    sequence: GoldStandardSequence,
+    options: PoseFeatureOptions
+): { total: number; max: number; qualityScore: number } {
+    const dtw = new StreamingDTW(sequence, options, user.length);
+    let total = 0;
+    let max = 0;
+    user.forEach(frame => {
+        const started = now();
+        dtw.addFeatures(frame);
+        const elapsed = now() - started;
+        total += elapsed;
+        max = Math.max(max, elapsed);
+    });
+    const started = now();
+    const qualityScore = dtw.finish().qualityScore;
+    total += now() - started;
+    return { total, max, qualityScore };
+}
+
+/**
+ * Time full, banded and streaming DTW for each gold standard length.
+ * The user rep is the same motion at a different tempo with a little noise.
+ */
+export function runDTWBenchmark(options: DTWBenchmarkOptions = DEFAULT_DTW_BENCHMARK): DTWBenchmarkResult[] {
+    const { userFrames, band, featureOptions } = options;
+    const user = Array.from({ length: userFrames }, (_, i) =>
+        extractPoseFeatures(syntheticPose(i / (userFrames - 1), 0.01), featureOptions)
+    );
+
+    return options.goldLengths.flatMap(goldFrames => {
+        const sequence = syntheticSequence(goldFrames);
+        const gold = sequence.frames.map(f => extractPoseFeatures(f.landmarks, featureOptions));
+
+        const runs: [DTWBenchmarkMethod, { total: number; max: number; qualityScore: number }][] = [
+            ['full', timeRecompute(user, gold, undefined)],
+            ['banded', timeRecompute(user, gold, band)],
+            ['streaming', timeStreaming(user, sequence, featureOptions)],
+        ];
+
+        return runs.map(([method, run]) => ({
+            method,
+            goldFrames,
+            userFrames,
+            msPerFrame: run.total / userFrames,
+            maxMsPerFrame: run.max,
+            qualityScore: run.qualityScore,
+        }));
+    });
+}
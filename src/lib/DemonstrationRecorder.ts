@@ -0,0 +1,183 @@
+// Teach mode: derive rep thresholds from a clinician's demonstration
+import { ExerciseDefinition, Landmark3D, PhaseDirection, ReferenceMotion } from '@/types';
+import { getJointAngle } from './Biometrics';
+
+export interface ThresholdProposal {
+    downAngleThreshold: number;
+    upAngleThreshold: number;
+    hysteresis: number;
+    phaseDirection: PhaseDirection;
+    repsDetected: number;
+    minAngle: number; // median of the demonstrated low extremes
+    maxAngle: number; // median of the demonstrated high extremes
+    warnings: string[];
+}
+
+const SMOOTHING_WINDOW = 5;
+const MIN_SAMPLES = 30;
+const MIN_RANGE = 20; // degrees; smaller movements cannot be told apart from tracking noise
+const PROMINENCE_RATIO = 0.3; // share of the range a turn must cover to count as an extreme
+const MIN_HYSTERESIS = 5;
+const MAX_HYSTERESIS = 15;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function percentile(values: number[], p: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+/**
+ * Alternating local minima and maxima, ignoring wobble smaller than prominence
+ */
+function findExtremes(angles: number[], prominence: number): { type: 'min' | 'max'; angle: number }[] {
+    const extremes: { type: 'min' | 'max'; angle: number }[] = [];
+    let candidateMin = angles[0];
+    let candidateMax = angles[0];
+    let direction: 'down' | 'up' | null = null;
+
+    for (const angle of angles) {
+        candidateMin = Math.min(candidateMin, angle);
+        candidateMax = Math.max(candidateMax, angle);
+
+        if (direction !== 'up' && angle - candidateMin >= prominence) {
+            if (direction === 'down') extremes.push({ type: 'min', angle: candidateMin });
+            direction = 'up';
+            candidateMax = angle;
+        } else if (direction !== 'down' && candidateMax - angle >= prominence) {
+            if (direction === 'up') extremes.push({ type: 'max', angle: candidateMax });
+            direction = 'down';
+            candidateMin = angle;
+        }
+    }
+
+    // A turn is only recorded once the movement has come back from it
+    return extremes;
+}
+
+/**
+ * Collects the primary angle while a clinician performs a few reps
+ */
+export class DemonstrationRecorder {
+    private exercise: ExerciseDefinition;
+    private timestamps: number[] = [];
+    private rawAngles: number[] = [];
+    private startTime: number | null = null;
+
+    constructor(exercise: ExerciseDefinition) {
+        this.exercise = exercise;
+    }
+
+    /**
+     * Record one frame; returns the measured angle or -1 when the joint is not visible
+     */
+    addFrame(landmarks: Landmark3D[], timestamp: number): number {
+        const angle = getJointAngle(landmarks, this.exercise.primaryAngle);
+        if (angle < 0) return -1;
+
+        if (this.startTime === null) this.startTime = timestamp;
+        this.timestamps.push(timestamp - this.startTime);
+        this.rawAngles.push(angle);
+        return angle;
+    }
+
+    getSampleCount(): number {
+        return this.rawAngles.length;
+    }
+
+    getDuration(): number {
+        return this.timestamps.length > 0 ? this.timestamps[this.timestamps.length - 1] : 0;
+    }
+
+    reset(): void {
+        this.timestamps = [];
+        this.rawAngles = [];
+        this.startTime = null;
+    }
+
+    /**
+     * Moving-average smoothed trace, suitable for storing as the reference motion
+     */
+    getReferenceMotion(): ReferenceMotion {
+        const angles = this.rawAngles.map((_, i) => {
+            const window = this.rawAngles.slice(Math.max(0, i - SMOOTHING_WINDOW + 1), i + 1);
+            return Math.round((window.reduce((a, b) => a + b, 0) / window.length) * 10) / 10;
+        });
+        return { timestamps: [...this.timestamps], angles, recordedAt: new Date() };
+    }
+
+    /**
+     * Propose thresholds every demonstrated rep would have passed, or null if too little was recorded
+     */
+    propose(): ThresholdProposal | null {
+        if (this.rawAngles.length < MIN_SAMPLES) return null;
+
+        const { angles } = this.getReferenceMotion();
+        const low = percentile(angles, 2);
+        const high = percentile(angles, 98);
+        const range = high - low;
+        const warnings: string[] = [];
+
+        if (this.exercise.phaseDirection === 'isometric') {
+            const hold = Math.round(median(angles));
+            const tolerance = Math.round(Math.min(30, Math.max(10, range / 2 + 5)));
+            if (this.getDuration() < 5000) warnings.push('Hold the position for at least 5 seconds');
+            return {
+                downAngleThreshold: this.exercise.downAngleThreshold,
+                upAngleThreshold: hold,
+                hysteresis: tolerance,
+                phaseDirection: 'isometric',
+                repsDetected: 0,
+                minAngle: Math.round(low),
+                maxAngle: Math.round(high),
+                warnings,
+            };
+        }
+
+        if (range < MIN_RANGE) {
+            warnings.push(`Only ${Math.round(range)}° of movement was seen; check the joint is in view`);
+        }
+
+        const extremes = findExtremes(angles, Math.max(range * PROMINENCE_RATIO, 5));
+        const minima = extremes.filter(e => e.type === 'min').map(e => e.angle);
+        const maxima = extremes.filter(e => e.type === 'max').map(e => e.angle);
+
+        // Reps start from whichever end the trace left first
+        const phaseDirection: PhaseDirection = extremes.length > 0
+            ? (extremes[0].type === 'min' ? 'flexion-first' : 'extension-first')
+            : this.exercise.phaseDirection;
+        const repsDetected = phaseDirection === 'flexion-first' ? minima.length : maxima.length;
+
+        if (repsDetected < 3) warnings.push(`Detected ${repsDetected} reps; demonstrate 3-5 for a reliable proposal`);
+        if (repsDetected > 5) warnings.push(`Detected ${repsDetected} reps; 3-5 is enough`);
+
+        // Shallowest demonstrated extreme on each end, so every rep would have counted
+        const lowThreshold = Math.round(minima.length > 0 ? Math.max(...minima) : low);
+        const highThreshold = Math.round(maxima.length > 0 ? Math.min(...maxima) : high);
+        const gap = highThreshold - lowThreshold;
+
+        let hysteresis = Math.round(Math.min(MAX_HYSTERESIS, Math.max(MIN_HYSTERESIS, gap * 0.1)));
+        if (gap <= 2 * hysteresis) {
+            hysteresis = Math.max(0, Math.floor((gap - 1) / 2));
+            warnings.push('The demonstrated range is narrow; thresholds have little slack');
+        }
+
+        // Keep the exercise's existing orientation of down/up
+        const downIsLow = this.exercise.downAngleThreshold <= this.exercise.upAngleThreshold;
+
+        return {
+            downAngleThreshold: downIsLow ? lowThreshold : highThreshold,
+            upAngleThreshold: downIsLow ? highThreshold : lowThreshold,
+            hysteresis,
+            phaseDirection,
+            repsDetected,
+            minAngle: Math.round(minima.length > 0 ? median(minima) : low),
+            maxAngle: Math.round(maxima.length > 0 ? median(maxima) : high),
+            warnings,
+        };
+    }
+}
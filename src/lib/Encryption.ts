@@ -0,0 +1,74 @@
+// Passphrase-based encryption (WebCrypto PBKDF2 + AES-GCM) for health records at rest
+import { EncryptedPayload } from '@/types';
+
+export const PBKDF2_ITERATIONS = 310000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// The derived key only ever lives in memory; reloading the page locks the database again
+let activeKey: CryptoKey | null = null;
+
+export function getActiveKey(): CryptoKey | null {
+    return activeKey;
+}
+
+export function setActiveKey(key: CryptoKey | null): void {
+    activeKey = key;
+}
+
+export function isUnlocked(): boolean {
+    return activeKey !== null;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+}
+
+function fromBase64(text: string): ArrayBuffer {
+    return Uint8Array.from(atob(text), c => c.charCodeAt(0)).buffer as ArrayBuffer;
+}
+
+export function generateSalt(): string {
+    return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+export async function deriveKey(passphrase: string, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(JSON.stringify(value))
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a payload; AES-GCM authentication makes this throw for a wrong key or tampered data
+ */
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+    const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+        key,
+        fromBase64(payload.data)
+    );
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+}
@@ -1,26 +1,58 @@
 // Exercise engine for rep counting, phase detection, and form validation
 import {
+    Anthropometry,
+    CalibrationBaseline,
+    CalibrationProfile,
+    CameraContext,
     ExerciseDefinition,
     ExercisePhase,
     ExerciseState,
+    GoldStandardSequence,
     JointStress,
     Landmark3D,
-    PoseLandmark,
-    SafetyLog
+    PainAnalysis,
+    PainEvent,
+    PainEventKind,
+    RepMetrics,
+    SafetyLog,
+    SessionSummary
 } from '@/types';
 import {
-    CalibrationBaseline,
-    calculateAngle3D,
     calculateBiometrics,
-    calculateDistance3D,
-    calculateFormScore,
-    evaluateForm,
-    getElbowAngle,
-    getRobustElbowAngle,
-    getKneeAngle,
-    getShoulderAngle
+    getJointAngle
 } from './Biometrics';
-import { getExerciseById } from '@/data/exercises';
+import { calculateFormScore, criteriaToJointStress, evaluateCriteria } from './FormCriteria';
+import { StreamingDTW } from './DTWAnalysis';
+import { featureOptionsFor } from './PoseFeatures';
+import {
+    CALIBRATION_MS,
+    CalibrationResult,
+    DEFAULT_FACE_BASELINE,
+    TPOSE_MS,
+    VERIFY_MS,
+    detectCalibrationDrift,
+    isTPose,
+    measureAnthropometry,
+    measureBodySegments,
+    measureFaceBaseline,
+} from './CalibrationProfile';
+import { getExerciseById, getPhaseTargets } from '@/data/exercises';
+
+/**
+ * Running totals for the rep in progress
+ */
+interface RepAccumulator {
+    restTime: number; // last frame spent in the rest zone
+    peakTime: number; // frame of the most extreme angle toward the peak
+    peakAngle: number;
+    minAngle: number;
+    maxAngle: number;
+    peakAngularVelocity: number;
+    formSum: number;
+    symmetrySum: number;
+    frames: number;
+    painPeak: number;
+}
 
 /**
  * ExerciseEngine - Handles exercise tracking, rep counting, and form validation
@@ -37,12 +69,22 @@ export class ExerciseEngine {
     private cumulativeHoldDuration: number = 0;
     private lastHoldTick: number = 0;
     private acutePainStartTime: number | null = null;
+    private haltLogged: boolean = false; // one halt per acute pain episode
     private stopCallbacks: (() => void)[] = [];
 
+    // Pain log: closed episodes plus the one in progress
+    private painEvents: PainEvent[] = [];
+    private painEpisode: PainEvent | null = null;
+
     // RCAFT Calibration
     private calibrationFrames: Landmark3D[][] = [];
     private calibrationStartTime: number | null = null;
     private baseline: CalibrationBaseline | null = null;
+    private profile: CalibrationProfile | null = null; // verified at each start instead of recalibrating
+    private camera: CameraContext | null = null;
+    private anthropometry: Anthropometry | null = null; // body scale for distance checks
+    private pendingCalibration: CalibrationResult | null = null; // face stage done, waiting for the T-pose
+    private calibrationCallbacks: ((result: CalibrationResult) => void)[] = [];
 
     // Movement Smoothing & Robustness
     private smaAngleHistory: number[] = [];
@@ -58,6 +100,29 @@ export class ExerciseEngine {
     private readonly MIN_PHASE_FRAMES = 4; // Increased for damping
     private lastValidAngleTimestamp: number = 0;
 
+    // Form Criteria
+    private formCheckMemory: Record<string, number> = {};
+    private currentRepPeakAngle: number | null = null;
+    private lastRepPeakAngle: number | null = null;
+
+    // Movement quality (DTW against the gold standard)
+    private repDTW: StreamingDTW | null = null;
+    private readonly MAX_REP_FRAMES = 300; // ~10 s of backpointers kept for the rep's alignment path
+
+    // Per-rep analytics
+    private repAccumulator: RepAccumulator | null = null;
+
+    // Session form score, accumulated over active frames only
+    private trackedMs: number = 0;
+    private activeMs: number = 0;
+    private weightedFormSum: number = 0;
+
+    // Session camera pain score, for comparison with patient-reported pain
+    private painMs: number = 0;
+    private weightedPainSum: number = 0;
+    private painPeak: number = 0;
+    private readonly MAX_FRAME_GAP_MS = 500; // longer gaps are pauses or lost tracking, not exercise time
+
     constructor(exerciseId: string) {
         this.exerciseId = exerciseId;
         this.exercise = getExerciseById(exerciseId);
@@ -68,6 +133,10 @@ export class ExerciseEngine {
             repCount: 0,
             currentAngle: 0,
             formScore: 100,
+            criteria: [],
+            qualityScore: null,
+            repQuality: [],
+            repMetrics: [],
             jointStress: [],
             startTime: Date.now(),
             angularVelocity: 0,
@@ -89,6 +158,8 @@ export class ExerciseEngine {
                 system_command: null
             },
             isCalibrating: true,
+            calibrationMode: 'calibrate',
+            calibrationDrift: [],
             calibrationProgress: 0
         };
     }
@@ -109,6 +180,11 @@ export class ExerciseEngine {
             return this.state;
         }
 
+        // Advance this rep's alignment against the gold standard; closed at countRep
+        if (this.repDTW && this.exercise.phaseDirection !== 'isometric') {
+            this.repDTW.addFrame(landmarks);
+        }
+
         // Calculate biometrics with baseline normalization
         const biometrics = calculateBiometrics(
             landmarks,
@@ -119,6 +195,7 @@ export class ExerciseEngine {
 
         // Get primary angle for this exercise
         let primaryAngle = this.getPrimaryAngle(landmarks);
+        const jointVisible = primaryAngle !== -1;
 
         // Latching Logic: If visibility is lost briefly (< 300ms), reuse last valid angle
         if (primaryAngle === -1) {
@@ -165,10 +242,27 @@ export class ExerciseEngine {
         // Update symmetry score
         this.state.symmetryScore = biometrics.overallSymmetry;
 
-        // Evaluate form
-        const jointStresses = evaluateForm(landmarks, this.exerciseId, biometrics);
+        // Evaluate form criteria
+        this.trackRepPeak(smoothedAngle);
+        const criteria = evaluateCriteria({
+            exercise: this.exercise,
+            landmarks,
+            biometrics,
+            phase: this.state.phase,
+            primaryAngle: smoothedAngle,
+            angularVelocity: this.state.angularVelocity,
+            repPeakAngle: this.state.phase === getPhaseTargets(this.exercise).peakPhase
+                ? this.currentRepPeakAngle
+                : this.lastRepPeakAngle,
+            memory: this.formCheckMemory,
+            anthropometry: this.anthropometry,
+            aspectRatio: this.getAspectRatio(),
+        });
+        const jointStresses = criteriaToJointStress(criteria);
+        this.state.criteria = criteria;
         this.state.jointStress = jointStresses;
-        this.state.formScore = calculateFormScore(biometrics, jointStresses);
+        this.state.formScore = calculateFormScore(criteria);
+        this.accumulateSessionForm(deltaTimeMs, jointVisible);
 
         // Update pain score and analysis with EMA Smoothing
         const rawPainScore = biometrics.painScore;
@@ -184,6 +278,8 @@ export class ExerciseEngine {
             pain_level: Math.round(this.painEMA)
         };
 
+        this.accumulateSessionPain(deltaTimeMs);
+
         // Clinical Temporal Differentiation: Effort vs Acute Pain
         this.handleClinicalPainThresholds(biometrics.painAnalysis, timestamp);
 
@@ -192,6 +288,10 @@ export class ExerciseEngine {
         const isGlitching = this.state.angularVelocity > 1000;
         const cooldownActive = timestamp - this.lastRepTimestamp < this.REP_COOLDOWN_MS;
 
+        if (smoothedAngle !== -1 && smoothedAngle !== 0 && !isGlitching) {
+            this.accumulateRep(smoothedAngle, biometrics.overallSymmetry, timestamp);
+        }
+
         if (smoothedAngle !== -1 && smoothedAngle !== 0 && !isGlitching && !cooldownActive) {
             this.detectPhaseTransition(smoothedAngle, timestamp);
         }
@@ -210,40 +310,8 @@ export class ExerciseEngine {
      * Get the primary angle for the current exercise
      */
     private getPrimaryAngle(landmarks: Landmark3D[]): number {
-        switch (this.exerciseId) {
-            case 'pushup':
-            case 'tricep-dip':
-                return getRobustElbowAngle(landmarks);
-
-            case 'squat':
-            case 'lunge':
-                const leftKnee = (landmarks[PoseLandmark.LEFT_KNEE].visibility || 0) > 0.5 ? getKneeAngle(landmarks, 'left') : -1;
-                const rightKnee = (landmarks[PoseLandmark.RIGHT_KNEE].visibility || 0) > 0.5 ? getKneeAngle(landmarks, 'right') : -1;
-
-                if (leftKnee !== -1 && rightKnee !== -1) return (leftKnee + rightKnee) / 2;
-                if (leftKnee !== -1) return leftKnee;
-                if (rightKnee !== -1) return rightKnee;
-                return (getKneeAngle(landmarks, 'left') + getKneeAngle(landmarks, 'right')) / 2;
-
-            case 'bicep-curl':
-                return getRobustElbowAngle(landmarks);
-
-            case 'shoulder-press':
-            case 'lateral-raise':
-                return (getShoulderAngle(landmarks, 'left') + getShoulderAngle(landmarks, 'right')) / 2;
-
-            case 'jumping-jack':
-                return this.getJumpingJackAngle(landmarks);
-
-            case 'calf-raise':
-                return this.getAnkleAngle(landmarks);
-
-            case 'plank':
-                return this.getPlankAngle(landmarks);
-
-            default:
-                return (getElbowAngle(landmarks, 'left') + getElbowAngle(landmarks, 'right')) / 2;
-        }
+        if (!this.exercise) return -1;
+        return getJointAngle(landmarks, this.exercise.primaryAngle);
     }
 
     /**
@@ -265,154 +333,214 @@ export class ExerciseEngine {
     private detectPhaseTransition(currentAngle: number, timestamp: number): void {
         if (!this.exercise) return;
 
-        const { downAngleThreshold, upAngleThreshold } = this.exercise;
+        if (this.exercise.phaseDirection === 'isometric') {
+            this.detectHold(currentAngle);
+            return;
+        }
 
-        // Different exercises have different phase detection logic
-        switch (this.exerciseId) {
-            case 'pushup':
-            case 'tricep-dip':
-                if (this.state.phase === 'IDLE' || this.state.phase === 'UP' || this.state.phase === 'COMPLETE') {
-                    if (currentAngle < downAngleThreshold + 10) {
-                        this.updatePhase('DOWN');
-                    }
-                } else if (this.state.phase === 'DOWN') {
-                    if (currentAngle > upAngleThreshold - 10) {
-                        this.countRep();
-                        this.lastRepTimestamp = timestamp;
-                        this.updatePhase('UP');
-                    }
-                }
-                break;
+        const { hysteresis, phaseDirection } = this.exercise;
+        const { peakPhase, restPhase, peakAngle, restAngle } = getPhaseTargets(this.exercise);
+        const closesFirst = phaseDirection === 'flexion-first';
 
-            case 'squat':
-            case 'lunge':
-                if (this.state.phase === 'IDLE' || this.state.phase === 'UP' || this.state.phase === 'COMPLETE') {
-                    if (currentAngle < downAngleThreshold + 10) {
-                        this.updatePhase('DOWN');
-                    }
-                } else if (this.state.phase === 'DOWN') {
-                    if (currentAngle > upAngleThreshold - 10) {
-                        this.countRep();
-                        this.updatePhase('UP');
-                    }
-                }
-                break;
+        const reachedPeak = closesFirst
+            ? currentAngle < peakAngle + hysteresis
+            : currentAngle > peakAngle - hysteresis;
+        const returnedToRest = closesFirst
+            ? currentAngle > restAngle - hysteresis
+            : currentAngle < restAngle + hysteresis;
 
-            case 'bicep-curl':
-                if (this.state.phase === 'IDLE' || this.state.phase === 'DOWN' || this.state.phase === 'COMPLETE') {
-                    // Start: Need to reach near-full contraction
-                    if (currentAngle < upAngleThreshold + 10) {
-                        this.updatePhase('UP');
-                    }
-                } else if (this.state.phase === 'UP') {
-                    // End: Need to reach near-full extension
-                    if (currentAngle > downAngleThreshold - 10) {
-                        this.countRep();
-                        this.lastRepTimestamp = timestamp;
-                        this.updatePhase('DOWN');
-                    }
-                }
-                break;
+        if (this.state.phase === 'IDLE' || this.state.phase === restPhase || this.state.phase === 'COMPLETE') {
+            if (reachedPeak) {
+                this.updatePhase(peakPhase);
+            }
+        } else if (this.state.phase === peakPhase) {
+            if (returnedToRest) {
+                this.countRep(timestamp);
+                this.lastRepTimestamp = timestamp;
+                this.updatePhase(restPhase);
+            }
+        }
+    }
 
-            case 'shoulder-press':
-            case 'lateral-raise':
-                if (this.state.phase === 'IDLE' || this.state.phase === 'DOWN' || this.state.phase === 'COMPLETE') {
-                    if (currentAngle > upAngleThreshold - 10) {
-                        this.updatePhase('UP');
-                    }
-                } else if (this.state.phase === 'UP') {
-                    if (currentAngle < downAngleThreshold + 10) {
-                        this.countRep();
-                        this.lastRepTimestamp = timestamp;
-                        this.updatePhase('DOWN');
-                    }
-                }
-                break;
+    /**
+     * Isometric holds count one "rep" per second spent within tolerance of the hold angle
+     */
+    private detectHold(currentAngle: number): void {
+        const { upAngleThreshold, hysteresis } = this.exercise!;
+        const isGoodForm = this.state.formScore > 70;
+        const isAligned = Math.abs(currentAngle - upAngleThreshold) < hysteresis;
+
+        if (isGoodForm && isAligned) {
+            const now = Date.now();
+
+            // Use persistence for holding
+            if (this.lastAttemptedPhase !== 'HOLD') {
+                this.lastAttemptedPhase = 'HOLD';
+                this.phaseFrameCount = 1;
+            } else {
+                this.phaseFrameCount++;
+            }
 
-            case 'jumping-jack':
-                if (this.state.phase === 'IDLE' || this.state.phase === 'DOWN' || this.state.phase === 'COMPLETE') {
-                    if (currentAngle > upAngleThreshold - 10) {
-                        this.updatePhase('UP');
-                    }
-                } else if (this.state.phase === 'UP') {
-                    if (currentAngle < downAngleThreshold + 10) {
-                        this.countRep();
-                        this.lastRepTimestamp = timestamp;
-                        this.updatePhase('DOWN');
+            if (this.phaseFrameCount >= this.MIN_PHASE_FRAMES) {
+                if (!this.state.isHolding) {
+                    this.state.isHolding = true;
+                    this.state.phase = 'HOLD';
+                    this.lastHoldTick = now;
+                } else {
+                    const delta = now - this.lastHoldTick;
+                    if (delta > 0) {
+                        this.cumulativeHoldDuration += delta;
+                        const newCount = Math.floor(this.cumulativeHoldDuration / 1000);
+
+                        if (newCount > this.state.repCount) {
+                            this.state.repCount = newCount;
+                            this.state.lastRepTime = now;
+                            this.repCallbacks.forEach(cb => cb(this.state.repCount));
+                        }
                     }
+                    this.lastHoldTick = now;
                 }
-                break;
+            }
+        } else {
+            if (this.lastAttemptedPhase !== 'IDLE') {
+                this.lastAttemptedPhase = 'IDLE';
+                this.phaseFrameCount = 1;
+            } else {
+                this.phaseFrameCount++;
+            }
 
-            case 'plank':
-                const isGoodForm = this.state.formScore > 70;
-                const isAligned = Math.abs(currentAngle - 180) < 30;
+            if (this.phaseFrameCount >= this.MIN_PHASE_FRAMES && this.state.isHolding) {
+                this.state.isHolding = false;
+                this.state.phase = 'IDLE';
+            }
+        }
+    }
 
-                if (isGoodForm && isAligned) {
-                    const now = Date.now();
+    /**
+     * Track the most extreme angle toward the peak reached in the current rep
+     */
+    private trackRepPeak(angle: number): void {
+        if (!this.exercise || this.exercise.phaseDirection === 'isometric' || angle === -1) return;
 
-                    // Use persistence for plank holding
-                    if (this.lastAttemptedPhase !== 'HOLD') {
-                        this.lastAttemptedPhase = 'HOLD';
-                        this.phaseFrameCount = 1;
-                    } else {
-                        this.phaseFrameCount++;
-                    }
+        if (this.currentRepPeakAngle === null) {
+            this.currentRepPeakAngle = angle;
+        } else {
+            this.currentRepPeakAngle = this.exercise.phaseDirection === 'flexion-first'
+                ? Math.min(this.currentRepPeakAngle, angle)
+                : Math.max(this.currentRepPeakAngle, angle);
+        }
+    }
 
-                    if (this.phaseFrameCount >= this.MIN_PHASE_FRAMES) {
-                        if (!this.state.isHolding) {
-                            this.state.isHolding = true;
-                            this.state.phase = 'HOLD';
-                            this.lastHoldTick = now;
-                        } else {
-                            const delta = now - this.lastHoldTick;
-                            if (delta > 0) {
-                                this.cumulativeHoldDuration += delta;
-                                const newCount = Math.floor(this.cumulativeHoldDuration / 1000);
-
-                                if (newCount > this.state.repCount) {
-                                    this.state.repCount = newCount;
-                                    this.state.lastRepTime = now;
-                                    this.repCallbacks.forEach(cb => cb(this.state.repCount));
-                                }
-                            }
-                            this.lastHoldTick = now;
-                        }
-                    }
-                } else {
-                    if (this.lastAttemptedPhase !== 'IDLE') {
-                        this.lastAttemptedPhase = 'IDLE';
-                        this.phaseFrameCount = 1;
-                    } else {
-                        this.phaseFrameCount++;
-                    }
+    /**
+     * Weight this frame's form score by its duration; frames after a long gap or without the joint in view don't count
+     */
+    private accumulateSessionForm(deltaTimeMs: number, jointVisible: boolean): void {
+        if (deltaTimeMs <= 0 || deltaTimeMs > this.MAX_FRAME_GAP_MS) return;
 
-                    if (this.phaseFrameCount >= this.MIN_PHASE_FRAMES && this.state.isHolding) {
-                        this.state.isHolding = false;
-                        this.state.phase = 'IDLE';
-                    }
-                }
-                break;
+        this.trackedMs += deltaTimeMs;
+        if (!jointVisible) return;
+        this.activeMs += deltaTimeMs;
+        this.weightedFormSum += this.state.formScore * deltaTimeMs;
+    }
 
-            default:
-                if (this.state.phase === 'IDLE' || this.state.phase === 'UP' || this.state.phase === 'COMPLETE') {
-                    if (currentAngle < downAngleThreshold + 10) {
-                        this.updatePhase('DOWN');
-                    }
-                } else if (this.state.phase === 'DOWN') {
-                    if (currentAngle > upAngleThreshold - 10) {
-                        this.countRep();
-                        this.lastRepTimestamp = timestamp;
-                        this.updatePhase('UP');
-                    }
-                }
-                break;
+    private accumulateSessionPain(deltaTimeMs: number): void {
+        if (deltaTimeMs <= 0 || deltaTimeMs > this.MAX_FRAME_GAP_MS) return;
+
+        const score = this.state.painAnalysis.pain_score_raw;
+        this.painMs += deltaTimeMs;
+        this.weightedPainSum += score * deltaTimeMs;
+        this.painPeak = Math.max(this.painPeak, score);
+    }
+
+    /**
+     * Fold one valid frame into the running totals of the rep in progress
+     */
+    private accumulateRep(angle: number, symmetry: number, timestamp: number): void {
+        if (!this.exercise || this.exercise.phaseDirection === 'isometric') return;
+
+        const closesFirst = this.exercise.phaseDirection === 'flexion-first';
+        const { restAngle } = getPhaseTargets(this.exercise);
+        const atRest = closesFirst
+            ? angle > restAngle - this.exercise.hysteresis
+            : angle < restAngle + this.exercise.hysteresis;
+
+        const acc = this.repAccumulator;
+        if (!acc) {
+            this.repAccumulator = {
+                restTime: timestamp,
+                peakTime: timestamp,
+                peakAngle: angle,
+                minAngle: angle,
+                maxAngle: angle,
+                peakAngularVelocity: this.state.angularVelocity,
+                formSum: this.state.formScore,
+                symmetrySum: symmetry,
+                frames: 1,
+                painPeak: this.state.painScore,
+            };
+            return;
         }
+
+        // Time spent idling at rest before the rep is not part of it
+        if (atRest && this.state.phase !== getPhaseTargets(this.exercise).peakPhase) {
+            acc.restTime = timestamp;
+            acc.peakTime = timestamp;
+            acc.peakAngle = angle;
+        } else if (closesFirst ? angle < acc.peakAngle : angle > acc.peakAngle) {
+            acc.peakAngle = angle;
+            acc.peakTime = timestamp;
+        }
+
+        acc.minAngle = Math.min(acc.minAngle, angle);
+        acc.maxAngle = Math.max(acc.maxAngle, angle);
+        acc.peakAngularVelocity = Math.max(acc.peakAngularVelocity, this.state.angularVelocity);
+        acc.formSum += this.state.formScore;
+        acc.symmetrySum += symmetry;
+        acc.frames++;
+        acc.painPeak = Math.max(acc.painPeak, this.state.painScore);
     }
 
-    private countRep(): void {
+    /**
+     * Close the running totals into the metrics of the rep just counted.
+     * Moving toward the peak is concentric when the peak is the UP phase (curl, press, raise)
+     * and eccentric when it is DOWN (squat, push-up, lunge).
+     */
+    private recordRepMetrics(timestamp: number): void {
+        const acc = this.repAccumulator;
+        this.repAccumulator = null;
+        if (!this.exercise || !acc) return;
+
+        const towardPeakMs = Math.max(0, acc.peakTime - acc.restTime);
+        const returnMs = Math.max(0, timestamp - acc.peakTime);
+        const liftsToPeak = getPhaseTargets(this.exercise).peakPhase === 'UP';
+        const quality = this.state.repQuality.find(r => r.rep === this.state.repCount);
+
+        const metrics: RepMetrics = {
+            rep: this.state.repCount,
+            startTime: acc.restTime,
+            endTime: timestamp,
+            minAngle: Math.round(acc.minAngle),
+            maxAngle: Math.round(acc.maxAngle),
+            rangeOfMotion: Math.round(acc.maxAngle - acc.minAngle),
+            concentricMs: Math.round(liftsToPeak ? towardPeakMs : returnMs),
+            eccentricMs: Math.round(liftsToPeak ? returnMs : towardPeakMs),
+            peakAngularVelocity: Math.round(acc.peakAngularVelocity),
+            symmetryScore: Math.round(acc.symmetrySum / acc.frames),
+            formScore: Math.round(acc.formSum / acc.frames),
+            painLevel: Math.round(acc.painPeak),
+            ...(quality && { qualityScore: quality.qualityScore }),
+        };
+        this.state.repMetrics = [...this.state.repMetrics, metrics];
+    }
+
+    private countRep(timestamp: number): void {
+        this.lastRepPeakAngle = this.currentRepPeakAngle;
+        this.currentRepPeakAngle = null;
         this.state.repCount++;
         this.state.lastRepTime = Date.now();
         this.state.phase = 'COMPLETE';
+        this.scoreRepQuality();
+        this.recordRepMetrics(timestamp);
         this.repCallbacks.forEach(cb => cb(this.state.repCount));
 
         // Clear phase history to force a clean reset for the next rep
@@ -420,68 +548,103 @@ export class ExerciseEngine {
         this.phaseFrameCount = 0;
     }
 
-    private getJumpingJackAngle(landmarks: Landmark3D[]): number {
-        const leftWrist = landmarks[PoseLandmark.LEFT_WRIST];
-        const rightWrist = landmarks[PoseLandmark.RIGHT_WRIST];
-        const leftShoulder = landmarks[PoseLandmark.LEFT_SHOULDER];
-        const rightShoulder = landmarks[PoseLandmark.RIGHT_SHOULDER];
-
-        const leftArmAngle = Math.atan2(leftWrist.x - leftShoulder.x, leftShoulder.y - leftWrist.y) * 180 / Math.PI;
-        const rightArmAngle = Math.atan2(rightShoulder.x - rightWrist.x, rightShoulder.y - rightWrist.y) * 180 / Math.PI;
-
-        return (Math.abs(leftArmAngle) + Math.abs(rightArmAngle)) / 2;
+    /**
+     * Compare the rep that just ended against the gold standard
+     */
+    private scoreRepQuality(): void {
+        if (!this.repDTW || this.repDTW.getFrameCount() === 0) return;
+
+        const result = this.repDTW.finish();
+        this.repDTW.reset();
+        if (!Number.isFinite(result.normalizedDistance)) return;
+
+        this.state.repQuality = [...this.state.repQuality, {
+            rep: this.state.repCount,
+            qualityScore: result.qualityScore,
+            normalizedDistance: result.normalizedDistance,
+            alignmentPath: result.alignmentPath,
+        }];
+        this.state.qualityScore = Math.round(
+            this.state.repQuality.reduce((sum, r) => sum + r.qualityScore, 0) / this.state.repQuality.length
+        );
     }
 
-    private getAnkleAngle(landmarks: Landmark3D[]): number {
-        const leftKnee = landmarks[PoseLandmark.LEFT_KNEE];
-        const leftAnkle = landmarks[PoseLandmark.LEFT_ANKLE];
-        const leftHeel = landmarks[PoseLandmark.LEFT_HEEL];
-
-        const dx1 = leftKnee.x - leftAnkle.x;
-        const dy1 = leftKnee.y - leftAnkle.y;
-        const dx2 = leftHeel.x - leftAnkle.x;
-        const dy2 = leftHeel.y - leftAnkle.y;
-
-        const dotProduct = dx1 * dx2 + dy1 * dy2;
-        const mag1 = Math.sqrt(dx1 * dx1 + dy1 * dy1);
-        const mag2 = Math.sqrt(dx2 * dx2 + dy2 * dy2);
+    /**
+     * Reference motion each rep is compared against; null disables movement quality scoring
+     */
+    setGoldStandard(sequence: GoldStandardSequence | null): void {
+        this.repDTW = this.exercise && sequence && sequence.frames.length > 0
+            ? new StreamingDTW(sequence, featureOptionsFor(this.exercise), this.MAX_REP_FRAMES)
+            : null;
+    }
 
-        if (mag1 === 0 || mag2 === 0) return 90;
-        const cosAngle = dotProduct / (mag1 * mag2);
-        return Math.acos(Math.max(-1, Math.min(1, cosAngle))) * 180 / Math.PI;
+    onRep(callback: (count: number) => void): void {
+        this.repCallbacks.push(callback);
     }
 
-    private getPlankAngle(landmarks: Landmark3D[]): number {
-        const leftShoulder = landmarks[PoseLandmark.LEFT_SHOULDER];
-        const leftHip = landmarks[PoseLandmark.LEFT_HIP];
-        const leftAnkle = landmarks[PoseLandmark.LEFT_ANKLE];
-        const rightShoulder = landmarks[PoseLandmark.RIGHT_SHOULDER];
-        const rightHip = landmarks[PoseLandmark.RIGHT_HIP];
-        const rightAnkle = landmarks[PoseLandmark.RIGHT_ANKLE];
+    onFormUpdate(callback: (score: number, stresses: JointStress[]) => void): void {
+        this.formCallbacks.push(callback);
+    }
 
-        const leftScore = (leftShoulder.visibility || 0) + (leftHip.visibility || 0) + (leftAnkle.visibility || 0);
-        const rightScore = (rightShoulder.visibility || 0) + (rightHip.visibility || 0) + (rightAnkle.visibility || 0);
+    onCalibrated(callback: (result: CalibrationResult) => void): void {
+        this.calibrationCallbacks.push(callback);
+    }
 
-        if (leftScore > rightScore && leftScore > 1.5) {
-            return calculateAngle3D(leftShoulder, leftHip, leftAnkle);
-        } else if (rightScore > 1.5) {
-            return calculateAngle3D(rightShoulder, rightHip, rightAnkle);
+    /**
+     * Stored calibration to verify at the next start instead of recalibrating; null forces a full calibration
+     */
+    setCalibrationProfile(profile: CalibrationProfile | null): void {
+        this.profile = profile;
+        this.anthropometry = profile?.anthropometry ?? null;
+        if (this.state.isCalibrating && this.state.calibrationMode !== 'body'
+            && (!profile || this.calibrationStartTime === null)) {
+            this.state.calibrationMode = profile ? 'verify' : 'calibrate';
         }
-        return 180;
     }
 
-    onRep(callback: (count: number) => void): void {
-        this.repCallbacks.push(callback);
+    setCameraContext(camera: CameraContext): void {
+        this.camera = camera;
     }
 
-    onFormUpdate(callback: (score: number, stresses: JointStress[]) => void): void {
-        this.formCallbacks.push(callback);
+    /**
+     * Finish calibrating without the T-pose, e.g. when the arms cannot be raised; distance checks then
+     * keep the stored body scale or fall back to a typical body
+     */
+    skipBodyCalibration(): void {
+        if (!this.state.isCalibrating || this.state.calibrationMode !== 'body' || !this.pendingCalibration) return;
+        this.finishCalibration(this.pendingCalibration);
     }
 
+    /**
+     * Called once per HALT_WORKOUT; the engine stays halted until clearHalt()
+     */
     onStopRequest(callback: () => void): void {
         this.stopCallbacks.push(callback);
     }
 
+    /**
+     * Lift a safety halt so the set can carry on. The open pain episode is closed and the smoothed
+     * pain score and any hold restart, so the rest in between counts as neither pain nor hold time.
+     */
+    clearHalt(): void {
+        if (this.painEpisode) {
+            this.painEvents.push(this.painEpisode);
+            this.painEpisode = null;
+        }
+        this.acutePainStartTime = null;
+        this.painEMA = 0;
+        this.state.isHolding = false;
+        this.state.painScore = 0;
+        this.state.painAnalysis = { ...this.state.painAnalysis, pain_score_raw: 0, recommended_action: 'Continue' };
+        this.state.safetyLog = {
+            ...this.state.safetyLog,
+            status: 'Scanning',
+            pain_level: 0,
+            ui_message: 'Resumed after a safety halt. Stop if the pain returns.',
+            system_command: null,
+        };
+    }
+
     getState(): ExerciseState {
         return { ...this.state };
     }
@@ -494,13 +657,75 @@ export class ExerciseEngine {
         return (Date.now() - this.state.startTime) / 1000;
     }
 
+    /**
+     * Session totals to persist. The headline form score is rep-weighted when reps were counted
+     * (so standing up to click Finish doesn't drag it down) and time-weighted otherwise (holds).
+     */
+    getSessionSummary(): SessionSummary {
+        const timeWeighted = this.activeMs > 0 ? Math.round(this.weightedFormSum / this.activeMs) : 0;
+        const { repMetrics, repQuality, qualityScore } = this.state;
+        const repWeighted = repMetrics.length > 0
+            ? Math.round(repMetrics.reduce((sum, r) => sum + r.formScore, 0) / repMetrics.length)
+            : undefined;
+
+        return {
+            date: new Date(),
+            exerciseId: this.exerciseId,
+            reps: this.state.repCount,
+            formScore: repWeighted ?? timeWeighted,
+            duration: Math.round(this.trackedMs / 1000),
+            timeWeightedFormScore: timeWeighted,
+            ...(repWeighted !== undefined && { repWeightedFormScore: repWeighted }),
+            activeDuration: Math.round(this.activeMs / 1000),
+            ...(this.painMs > 0 && {
+                cameraPainMean: Math.round((this.weightedPainSum / this.painMs) * 10) / 10,
+                cameraPainPeak: Math.round(this.painPeak * 10) / 10,
+            }),
+            ...(qualityScore !== null && {
+                qualityScore,
+                repQualityScores: repQuality.map(r => r.qualityScore),
+            }),
+            repMetrics,
+            painEvents: this.painEpisode ? [...this.painEvents, { ...this.painEpisode }] : [...this.painEvents],
+        };
+    }
+
+    /**
+     * Start over for a new workout, calibration included
+     */
     reset(): void {
+        this.clearSet(true);
+        this.calibrationFrames = [];
+        this.calibrationStartTime = null;
+        this.pendingCalibration = null;
+        this.baseline = null;
+    }
+
+    /**
+     * Mark the boundary between sets: reps, phase, DTW and the set's totals start again, while the
+     * calibration baseline, profile and body measurements carry over so the next set goes straight
+     * to analysis. Before calibration has finished this is the same as reset().
+     */
+    resetSet(): void {
+        if (this.state.isCalibrating) {
+            this.reset();
+            return;
+        }
+        this.clearSet(false);
+    }
+
+    private clearSet(calibrate: boolean): void {
+        const { calibrationMode, calibrationDrift, calibrationProgress } = this.state;
         this.state = {
             exerciseId: this.exerciseId,
             phase: 'IDLE',
             repCount: 0,
             currentAngle: 0,
             formScore: 100,
+            criteria: [],
+            qualityScore: null,
+            repQuality: [],
+            repMetrics: [],
             jointStress: [],
             startTime: Date.now(),
             angularVelocity: 0,
@@ -518,11 +743,13 @@ export class ExerciseEngine {
             safetyLog: {
                 status: 'Scanning',
                 pain_level: 0,
-                ui_message: 'Starting calibration...',
+                ui_message: calibrate ? 'Starting calibration...' : 'Starting analysis.',
                 system_command: null
             },
-            isCalibrating: true,
-            calibrationProgress: 0
+            isCalibrating: calibrate,
+            calibrationMode: calibrate ? (this.profile ? 'verify' : 'calibrate') : calibrationMode,
+            calibrationDrift: calibrate ? [] : calibrationDrift,
+            calibrationProgress: calibrate ? 0 : calibrationProgress
         };
         this.previousLandmarks = null;
         this.previousTimestamp = 0;
@@ -530,76 +757,148 @@ export class ExerciseEngine {
         this.cumulativeHoldDuration = 0;
         this.lastHoldTick = 0;
         this.acutePainStartTime = null;
-        this.calibrationFrames = [];
-        this.calibrationStartTime = null;
-        this.baseline = null;
+        this.haltLogged = false;
+        this.painEvents = [];
+        this.painEpisode = null;
         this.smaAngleHistory = [];
         this.painEMA = 0;
         this.lastRepTimestamp = 0;
+        this.lastAttemptedPhase = 'IDLE';
+        this.phaseFrameCount = 0;
+        this.lastValidAngleTimestamp = 0;
+        this.formCheckMemory = {};
+        this.currentRepPeakAngle = null;
+        this.lastRepPeakAngle = null;
+        this.repDTW?.reset();
+        this.repAccumulator = null;
+        this.trackedMs = 0;
+        this.activeMs = 0;
+        this.weightedFormSum = 0;
+        this.painMs = 0;
+        this.weightedPainSum = 0;
+        this.painPeak = 0;
     }
 
+    /**
+     * A stored profile only needs a short verification window; if it has drifted, or there is none,
+     * the full calibration runs and its result is handed to onCalibrated to be stored. A full calibration,
+     * or a profile without body measurements, then waits for a T-pose.
+     */
     private handleCalibration(landmarks: Landmark3D[], timestamp: number): void {
+        if (this.state.calibrationMode === 'body') {
+            this.handleBodyCalibration(landmarks, timestamp);
+            return;
+        }
+
         if (!this.calibrationStartTime) {
             this.calibrationStartTime = timestamp;
         }
 
+        const verifying = this.state.calibrationMode === 'verify' && this.profile !== null;
+        const windowMs = verifying ? VERIFY_MS : CALIBRATION_MS;
         const elapsed = timestamp - this.calibrationStartTime;
-        this.state.calibrationProgress = Math.min(100, (elapsed / 3000) * 100);
+        this.state.calibrationProgress = Math.min(100, (elapsed / windowMs) * 100);
         this.state.safetyLog.status = 'Calibrating';
-        this.state.safetyLog.ui_message = 'Please maintain a neutral expression...';
+        this.state.safetyLog.ui_message = verifying
+            ? 'Checking your saved calibration...'
+            : this.state.calibrationDrift.length > 0
+                ? `Recalibrating (${this.state.calibrationDrift.join(', ')}). Please maintain a neutral expression...`
+                : 'Please maintain a neutral expression...';
 
         this.calibrationFrames.push(landmarks);
+        if (elapsed < windowMs) return;
+
+        const face = measureFaceBaseline(this.calibrationFrames);
+        const segments = measureBodySegments(this.calibrationFrames, this.getAspectRatio());
+
+        if (verifying && this.profile) {
+            const drift = detectCalibrationDrift(this.profile, face, segments, this.camera);
+            if (drift.length > 0) {
+                this.state.calibrationDrift = drift;
+                this.state.calibrationMode = 'calibrate';
+                this.state.calibrationProgress = 0;
+                this.calibrationFrames = [];
+                this.calibrationStartTime = timestamp;
+                return;
+            }
+            this.baseline = this.profile.face;
+        } else {
+            this.baseline = face ?? DEFAULT_FACE_BASELINE;
+        }
 
-        if (elapsed >= 3000) {
-            this.baseline = this.computeBaseline();
-            this.state.isCalibrating = false;
-            this.state.safetyLog.status = 'Scanning';
-            this.state.safetyLog.ui_message = 'Calibration complete. Starting analysis.';
+        const result: CalibrationResult = {
+            status: verifying ? 'verified' : 'calibrated',
+            face,
+            segments,
+            camera: this.camera,
+            anthropometry: null,
+            drift: this.state.calibrationDrift,
+        };
+
+        if (verifying && this.profile?.anthropometry) {
+            this.finishCalibration(result);
+            return;
         }
+
+        this.pendingCalibration = result;
+        this.state.calibrationMode = 'body';
+        this.state.calibrationProgress = 0;
+        this.calibrationFrames = [];
+        this.calibrationStartTime = null;
     }
 
-    private computeBaseline(): CalibrationBaseline {
-        let counts = 0;
-        const sums = { eyeDist: 0, eyeNoseRatio: 0, eyeNarrowRatio: 0, mouthNoseRatio: 0, mouthWidthRatio: 0 };
-
-        this.calibrationFrames.forEach(frame => {
-            const nose = frame[PoseLandmark.NOSE];
-            const leftEye = frame[PoseLandmark.LEFT_EYE];
-            const rightEye = frame[PoseLandmark.RIGHT_EYE];
-            const leftEyeInner = frame[PoseLandmark.LEFT_EYE_INNER];
-            const rightEyeInner = frame[PoseLandmark.RIGHT_EYE_INNER];
-            const leftEyeOuter = frame[PoseLandmark.LEFT_EYE_OUTER];
-            const rightEyeOuter = frame[PoseLandmark.RIGHT_EYE_OUTER];
-            const mouthLeft = frame[PoseLandmark.MOUTH_LEFT];
-            const mouthRight = frame[PoseLandmark.MOUTH_RIGHT];
-
-            if (nose && leftEye && rightEye && leftEyeInner && rightEyeInner && mouthLeft && mouthRight) {
-                const eyeDist = calculateDistance3D(leftEye, rightEye);
-                if (eyeDist === 0) return;
-
-                sums.eyeDist += eyeDist;
-                sums.eyeNoseRatio += ((calculateDistance3D(leftEyeInner, nose) + calculateDistance3D(rightEyeInner, nose)) / 2) / eyeDist;
-                sums.eyeNarrowRatio += ((Math.abs(leftEyeInner.x - leftEyeOuter.x) + Math.abs(rightEyeInner.x - rightEyeOuter.x)) / 2) / eyeDist;
-                sums.mouthNoseRatio += ((calculateDistance3D(mouthLeft, nose) + calculateDistance3D(mouthRight, nose)) / 2) / eyeDist;
-                sums.mouthWidthRatio += calculateDistance3D(mouthLeft, mouthRight) / eyeDist;
-                counts++;
-            }
-        });
+    /**
+     * The T-pose has to be held for TPOSE_MS; dropping it starts the hold again
+     */
+    private handleBodyCalibration(landmarks: Landmark3D[], timestamp: number): void {
+        const aspectRatio = this.getAspectRatio();
+        if (!isTPose(landmarks, aspectRatio)) {
+            this.calibrationFrames = [];
+            this.calibrationStartTime = null;
+            this.state.calibrationProgress = 0;
+            this.state.safetyLog.ui_message = 'Step back until your whole body is in view, then hold your arms straight out to the sides';
+            return;
+        }
 
-        if (counts === 0) {
-            return { eyeDist: 0.1, eyeNoseRatio: 0.6, eyeNarrowRatio: 0.25, mouthNoseRatio: 0.9, mouthWidthRatio: 0.9 };
+        if (this.calibrationStartTime === null) {
+            this.calibrationStartTime = timestamp;
         }
+        const elapsed = timestamp - this.calibrationStartTime;
+        this.state.calibrationProgress = Math.min(100, (elapsed / TPOSE_MS) * 100);
+        this.state.safetyLog.ui_message = 'Hold the T-pose...';
 
-        return {
-            eyeDist: sums.eyeDist / counts,
-            eyeNoseRatio: sums.eyeNoseRatio / counts,
-            eyeNarrowRatio: sums.eyeNarrowRatio / counts,
-            mouthNoseRatio: sums.mouthNoseRatio / counts,
-            mouthWidthRatio: sums.mouthWidthRatio / counts,
-        };
+        this.calibrationFrames.push(landmarks);
+        if (elapsed < TPOSE_MS || !this.pendingCalibration) return;
+
+        const anthropometry = measureAnthropometry(this.calibrationFrames, aspectRatio);
+        if (!anthropometry) {
+            this.calibrationFrames = [];
+            this.calibrationStartTime = null;
+            return;
+        }
+
+        this.anthropometry = anthropometry;
+        this.finishCalibration({ ...this.pendingCalibration, anthropometry });
+    }
+
+    private finishCalibration(result: CalibrationResult): void {
+        this.pendingCalibration = null;
+        this.state.isCalibrating = false;
+        this.state.safetyLog.status = 'Scanning';
+        this.state.safetyLog.ui_message = result.status === 'verified'
+            ? 'Calibration verified. Starting analysis.'
+            : 'Calibration complete. Starting analysis.';
+        this.calibrationCallbacks.forEach(cb => cb(result));
     }
 
-    private handleClinicalPainThresholds(analysis: any, timestamp: number): void {
+    /**
+     * Width over height of the capture, 4:3 until the camera has been reported
+     */
+    private getAspectRatio(): number {
+        return this.camera ? this.camera.width / this.camera.height : 4 / 3;
+    }
+
+    private handleClinicalPainThresholds(analysis: PainAnalysis, timestamp: number): void {
         const painScoreRaw = analysis.pain_score_raw;
         const isPeak = this.isPeakOfContraction();
 
@@ -610,40 +909,83 @@ export class ExerciseEngine {
                 this.state.safetyLog.status = 'Effort Detected';
                 this.state.safetyLog.ui_message = 'High effort detected. Keep breathing.';
                 this.acutePainStartTime = null;
+                this.trackPainEpisode('effort', analysis, timestamp);
             } else {
                 this.state.safetyLog.status = 'PAIN ALERT';
                 this.state.safetyLog.ui_message = 'Sudden muscle tension! Ease up.';
+                this.trackPainEpisode('pain-alert', analysis, timestamp);
 
                 if (this.acutePainStartTime === null) {
                     this.acutePainStartTime = timestamp;
+                    this.haltLogged = false;
                 } else if (timestamp - this.acutePainStartTime > 2500) {
                     this.state.safetyLog.ui_message = 'Stop! Drop the weights';
                     this.state.safetyLog.system_command = 'HALT_WORKOUT';
                     this.state.painAnalysis.recommended_action = 'STOP_EXERCISE';
-                    this.stopCallbacks.forEach(cb => cb());
+                    if (!this.haltLogged) {
+                        this.painEvents.push(this.createPainEvent('halt', analysis, timestamp));
+                        this.haltLogged = true;
+                        this.stopCallbacks.forEach(cb => cb());
+                    }
                 }
             }
         } else {
             this.state.safetyLog.status = 'Scanning';
             this.state.safetyLog.ui_message = 'Motion within safe comfort zones.';
             this.acutePainStartTime = null;
+            this.trackPainEpisode(null, analysis, timestamp);
         }
     }
 
+    private createPainEvent(kind: PainEventKind, analysis: PainAnalysis, timestamp: number): PainEvent {
+        return {
+            kind,
+            startTime: timestamp,
+            endTime: timestamp,
+            rep: this.state.repCount,
+            jointAngle: Math.round(this.state.currentAngle),
+            peakPainScore: Math.round(analysis.pain_score_raw * 10) / 10,
+            intensity: analysis.intensity_level,
+            actionUnits: [...analysis.primary_action_units],
+        };
+    }
+
+    /**
+     * Consecutive frames with the same status form one episode; a change of status closes it
+     */
+    private trackPainEpisode(kind: PainEventKind | null, analysis: PainAnalysis, timestamp: number): void {
+        if (this.painEpisode && this.painEpisode.kind !== kind) {
+            this.painEvents.push(this.painEpisode);
+            this.painEpisode = null;
+        }
+        if (!kind) return;
+
+        if (!this.painEpisode) {
+            this.painEpisode = this.createPainEvent(kind, analysis, timestamp);
+            return;
+        }
+
+        const episode = this.painEpisode;
+        episode.endTime = timestamp;
+        const score = Math.round(analysis.pain_score_raw * 10) / 10;
+        if (score > episode.peakPainScore) {
+            episode.peakPainScore = score;
+            episode.intensity = analysis.intensity_level;
+        }
+        analysis.primary_action_units.forEach(au => {
+            if (!episode.actionUnits.includes(au)) episode.actionUnits.push(au);
+        });
+    }
+
     private isPeakOfContraction(): boolean {
-        if (!this.exercise) return false;
+        if (!this.exercise || this.exercise.phaseDirection === 'isometric') return false;
         const { currentAngle } = this.state;
-        const { downAngleThreshold, upAngleThreshold } = this.exercise;
-
-        // Peak exertion is usually at the bottom of a squat/pushup or top of a curl
-        switch (this.exerciseId) {
-            case 'bicep-curl':
-                return currentAngle < upAngleThreshold + 15;
-            case 'squat':
-            case 'pushup':
-                return currentAngle < downAngleThreshold + 15;
-            default:
-                return false;
-        }
+        const { peakAngle } = getPhaseTargets(this.exercise);
+        const margin = this.exercise.hysteresis + 5;
+
+        // Peak exertion sits around the peak threshold (bottom of a squat, top of a curl or press)
+        return this.exercise.phaseDirection === 'flexion-first'
+            ? currentAngle < peakAngle + margin
+            : currentAngle > peakAngle - margin;
     }
 }
@@ -0,0 +1,398 @@
+// FHIR R4 Bundle export of exercise adherence, ROM and pain for clinician EHR handoff
+import { v4 as uuidv4 } from 'uuid';
+import { DailyStats, ExerciseDefinition, RepRecord, RomMeasurement, RomTestDefinition, WorkoutSession } from '@/types';
+import {
+    getAllDailyStats,
+    getAllRepRecords,
+    getAllRomMeasurements,
+    getAllSessions,
+    getFhirPatientId,
+    loadCustomExercises
+} from './db';
+import { getAllExercises } from '@/data/exercises';
+import { romTests } from '@/data/romTests';
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// Metrics with no standard code live in an app-local code system
+export const LOCAL_CODE_SYSTEM = 'urn:physio-ai:fhir:metric';
+export const PATIENT_IDENTIFIER_SYSTEM = 'urn:physio-ai:patient';
+
+export interface FhirCoding {
+    system: string;
+    code: string;
+    display?: string;
+}
+
+export interface FhirCodeableConcept {
+    coding?: FhirCoding[];
+    text?: string;
+}
+
+export interface FhirQuantity {
+    value: number;
+    unit: string;
+    system: typeof UCUM;
+    code: string;
+}
+
+export interface FhirObservationComponent {
+    code: FhirCodeableConcept;
+    valueQuantity?: FhirQuantity;
+}
+
+export interface FhirObservation {
+    resourceType: 'Observation';
+    id: string;
+    status: 'final';
+    category: FhirCodeableConcept[];
+    code: FhirCodeableConcept;
+    subject: { reference: string };
+    effectiveDateTime?: string;
+    effectivePeriod?: { start: string; end: string };
+    valueQuantity?: FhirQuantity;
+    valueCodeableConcept?: FhirCodeableConcept;
+    bodySite?: FhirCodeableConcept;
+    component?: FhirObservationComponent[];
+    note?: { text: string }[];
+}
+
+export interface FhirPatient {
+    resourceType: 'Patient';
+    id: string;
+    identifier?: { system: string; value: string }[];
+}
+
+export type FhirResource = FhirObservation | FhirPatient;
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    id: string;
+    type: 'collection';
+    timestamp: string;
+    entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export interface FhirExportData {
+    patientId: string; // kept across exports so a receiving system can link them
+    sessions: WorkoutSession[];
+    dailyStats: DailyStats[];
+    romMeasurements: RomMeasurement[];
+    reps: RepRecord[];
+    exercises: ExerciseDefinition[];
+}
+
+export interface FhirExportOptions {
+    patientIdentifier?: string; // the clinic's identifier for the patient, if known
+}
+
+const codes = {
+    exerciseActivity: { system: LOINC, code: '73985-4', display: 'Exercise activity' },
+    exerciseDuration: { system: LOINC, code: '55411-3', display: 'Exercise duration' },
+    jointRange: { system: SNOMED, code: '364564000', display: 'Range of joint movement' },
+    repetitions: { system: LOCAL_CODE_SYSTEM, code: 'repetitions', display: 'Repetitions completed' },
+    holdTime: { system: LOCAL_CODE_SYSTEM, code: 'hold-time', display: 'Isometric hold time' },
+    formScore: { system: LOCAL_CODE_SYSTEM, code: 'form-score', display: 'Exercise form score' },
+    movementQuality: { system: LOCAL_CODE_SYSTEM, code: 'movement-quality', display: 'Movement quality vs reference' },
+    dailySummary: { system: LOCAL_CODE_SYSTEM, code: 'daily-exercise-summary', display: 'Daily home exercise summary' },
+    workouts: { system: LOCAL_CODE_SYSTEM, code: 'exercise-sessions', display: 'Exercise sessions completed' },
+    estimatedPain: { system: LOCAL_CODE_SYSTEM, code: 'camera-estimated-pain', display: 'Camera-estimated pain expression (0-10)' },
+    reportedPain: { system: LOINC, code: '72514-3', display: 'Pain severity - 0-10 verbal numeric rating [Score] - Reported' },
+    perceivedExertion: { system: LOCAL_CODE_SYSTEM, code: 'borg-rpe', display: 'Rating of perceived exertion (Borg 6-20)' },
+};
+
+const CATEGORY_DISPLAY = { activity: 'Activity', exam: 'Exam', survey: 'Survey' };
+
+function category(code: keyof typeof CATEGORY_DISPLAY): FhirCodeableConcept[] {
+    return [{ coding: [{ system: OBSERVATION_CATEGORY, code, display: CATEGORY_DISPLAY[code] }] }];
+}
+
+function quantity(value: number, unit: string, code: string): FhirQuantity {
+    return { value: Math.round(value * 100) / 100, unit, system: UCUM, code };
+}
+
+function component(coding: FhirCoding, value: FhirQuantity): FhirObservationComponent {
+    return { code: { coding: [coding], text: coding.display }, valueQuantity: value };
+}
+
+function sessionObservation(session: WorkoutSession, exercise: ExerciseDefinition | undefined, subject: string): FhirObservation {
+    const name = exercise?.name ?? session.exerciseId;
+    const end = new Date(session.date);
+    const start = new Date(end.getTime() - session.duration * 1000);
+    const isometric = exercise?.phaseDirection === 'isometric';
+
+    const components: FhirObservationComponent[] = [
+        component(codes.exerciseDuration, quantity(session.duration / 60, 'min', 'min')),
+        isometric
+            ? component(codes.holdTime, quantity(session.reps, 's', 's'))
+            : component(codes.repetitions, quantity(session.reps, 'repetitions', '{#}')),
+        component(codes.formScore, quantity(session.formScore, '%', '%')),
+    ];
+    if (session.qualityScore !== undefined) {
+        components.push(component(codes.movementQuality, quantity(session.qualityScore, '%', '%')));
+    }
+
+    return {
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: category('activity'),
+        code: { coding: [codes.exerciseActivity], text: 'Home exercise session' },
+        subject: { reference: subject },
+        effectivePeriod: { start: start.toISOString(), end: end.toISOString() },
+        valueCodeableConcept: { text: name },
+        component: components,
+        ...(session.outcomes?.notes && { note: [{ text: session.outcomes.notes }] }),
+    };
+}
+
+/**
+ * Patient-reported NPRS before (at the session start) and after (at its end), and the Borg RPE
+ */
+function outcomeObservations(session: WorkoutSession, subject: string): FhirObservation[] {
+    const outcomes = session.outcomes;
+    if (!outcomes) return [];
+    const end = new Date(session.date);
+    const start = new Date(end.getTime() - session.duration * 1000);
+
+    const survey = (coding: FhirCoding, value: number, at: Date, text: string): FhirObservation => ({
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: category('survey'),
+        code: { coding: [coding], text },
+        subject: { reference: subject },
+        effectiveDateTime: at.toISOString(),
+        valueQuantity: quantity(value, 'score', '{score}'),
+    });
+
+    return [
+        ...(outcomes.painBefore !== undefined
+            ? [survey(codes.reportedPain, outcomes.painBefore, start, 'Pain before exercise (NPRS)')]
+            : []),
+        ...(outcomes.painAfter !== undefined
+            ? [survey(codes.reportedPain, outcomes.painAfter, end, 'Pain after exercise (NPRS)')]
+            : []),
+        ...(outcomes.rpe !== undefined
+            ? [survey(codes.perceivedExertion, outcomes.rpe, end, codes.perceivedExertion.display)]
+            : []),
+    ];
+}
+
+function dailyObservation(stats: DailyStats, subject: string): FhirObservation {
+    return {
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: category('activity'),
+        code: { coding: [codes.dailySummary], text: codes.dailySummary.display },
+        subject: { reference: subject },
+        effectiveDateTime: stats.date,
+        component: [
+            component(codes.workouts, quantity(stats.exerciseCount, 'sessions', '{#}')),
+            component(codes.repetitions, quantity(stats.totalReps, 'repetitions', '{#}')),
+            component(codes.exerciseDuration, quantity(stats.totalDuration / 60, 'min', 'min')),
+            component(codes.formScore, quantity(stats.avgFormScore, '%', '%')),
+        ],
+    };
+}
+
+function romObservation(measurement: RomMeasurement, test: RomTestDefinition | undefined, subject: string): FhirObservation {
+    const side = measurement.side === 'left' ? 'Left' : 'Right';
+    const name = test?.name ?? measurement.testId;
+
+    return {
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: category('exam'),
+        code: { coding: [codes.jointRange], text: `${name} active ROM` },
+        subject: { reference: subject },
+        effectiveDateTime: new Date(measurement.date).toISOString(),
+        valueQuantity: quantity(measurement.peakAngle, 'deg', 'deg'),
+        bodySite: { text: `${side} ${test?.joint ?? ''}`.trim() },
+        note: [{ text: `Camera-based estimate; typical adult range ${measurement.normalRange} deg` }],
+    };
+}
+
+/**
+ * Peak camera-estimated pain over a session's reps, on a 0-10 scale
+ */
+function painObservation(session: WorkoutSession, reps: RepRecord[], subject: string): FhirObservation | null {
+    if (reps.length === 0) return null;
+    const peak = Math.max(...reps.map(r => r.painLevel)) / 10;
+
+    return {
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: category('exam'),
+        code: { coding: [codes.estimatedPain], text: codes.estimatedPain.display },
+        subject: { reference: subject },
+        effectiveDateTime: new Date(session.date).toISOString(),
+        valueQuantity: quantity(peak, 'score', '{score}'),
+        note: [{ text: 'Estimated from facial expression during exercise; not a patient-reported pain score' }],
+    };
+}
+
+/**
+ * Assemble a FHIR R4 collection Bundle: one Patient, then Observations referencing it
+ */
+export function buildFhirBundle(data: FhirExportData, options: FhirExportOptions = {}): FhirBundle {
+    const subject = `urn:uuid:${data.patientId}`;
+    const patient: FhirPatient = {
+        resourceType: 'Patient',
+        id: data.patientId,
+        ...(options.patientIdentifier && {
+            identifier: [{ system: PATIENT_IDENTIFIER_SYSTEM, value: options.patientIdentifier }],
+        }),
+    };
+
+    const observations: FhirObservation[] = [
+        ...data.sessions.flatMap(session => {
+            const exercise = data.exercises.find(e => e.id === session.exerciseId);
+            const pain = painObservation(session, data.reps.filter(r => r.sessionId === session.id), subject);
+            return [
+                sessionObservation(session, exercise, subject),
+                ...(pain ? [pain] : []),
+                ...outcomeObservations(session, subject),
+            ];
+        }),
+        ...data.dailyStats.map(stats => dailyObservation(stats, subject)),
+        ...data.romMeasurements.map(m => romObservation(m, romTests.find(t => t.id === m.testId), subject)),
+    ];
+
+    return {
+        resourceType: 'Bundle',
+        id: uuidv4(),
+        type: 'collection',
+        timestamp: new Date().toISOString(),
+        entry: [patient, ...observations].map(resource => ({ fullUrl: `urn:uuid:${resource.id}`, resource })),
+    };
+}
+
+export async function exportFhirBundle(options: FhirExportOptions = {}): Promise<FhirBundle> {
+    await loadCustomExercises();
+    const [patientId, sessions, dailyStats, romMeasurements, reps] = await Promise.all([
+        getFhirPatientId(),
+        getAllSessions(),
+        getAllDailyStats(),
+        getAllRomMeasurements(),
+        getAllRepRecords(),
+    ]);
+    return buildFhirBundle({ patientId, sessions, dailyStats, romMeasurements, reps, exercises: getAllExercises() }, options);
+}
+
+// Structural validation
+
+const FHIR_DATE_TIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+const FHIR_ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const URN_UUID = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const LOINC_CODE = /^(\d{1,7})-(\d)$/;
+
+/**
+ * LOINC codes end in a mod 10 check digit over the digits before the hyphen
+ */
+function isLoincCode(code: string): boolean {
+    const match = LOINC_CODE.exec(code);
+    if (!match) return false;
+    const sum = match[1].split('').reverse().reduce((acc, digit, i) => {
+        const value = i % 2 === 0 ? Number(digit) * 2 : Number(digit);
+        return acc + Math.floor(value / 10) + (value % 10);
+    }, 0);
+    return (10 - (sum % 10)) % 10 === Number(match[2]);
+}
+
+function checkCodeableConcept(concept: FhirCodeableConcept | undefined, path: string, errors: string[]): void {
+    if (!concept || typeof concept !== 'object') {
+        errors.push(`${path} is required`);
+        return;
+    }
+    if (!concept.text && (!Array.isArray(concept.coding) || concept.coding.length === 0)) {
+        errors.push(`${path} needs a coding or text`);
+    }
+    concept.coding?.forEach((coding, i) => {
+        if (!coding.system || !coding.code) errors.push(`${path}.coding[${i}] needs system and code`);
+        else if (coding.system === LOINC && !isLoincCode(coding.code)) {
+            errors.push(`${path}.coding[${i}] "${coding.code}" is not a valid LOINC code`);
+        }
+    });
+}
+
+function checkQuantity(value: FhirQuantity | undefined, path: string, errors: string[]): void {
+    if (value === undefined) return;
+    if (typeof value.value !== 'number' || !Number.isFinite(value.value)) errors.push(`${path}.value must be a finite number`);
+    if (value.system !== UCUM || !value.code) errors.push(`${path} must carry a UCUM system and code`);
+}
+
+function checkDateTime(value: string | undefined, path: string, errors: string[]): void {
+    if (value !== undefined && !FHIR_DATE_TIME.test(value)) errors.push(`${path} is not a FHIR dateTime`);
+}
+
+/**
+ * Check a bundle against the R4 structural rules this exporter relies on.
+ * Returns human-readable problems; an empty list means the bundle is well formed.
+ */
+export function validateFhirBundle(bundle: unknown): string[] {
+    const errors: string[] = [];
+    const b = bundle as Partial<FhirBundle> | null;
+
+    if (!b || b.resourceType !== 'Bundle') return ['resourceType must be "Bundle"'];
+    if (b.type !== 'collection') errors.push('Bundle.type must be "collection"');
+    checkDateTime(b.timestamp, 'Bundle.timestamp', errors);
+    if (!Array.isArray(b.entry)) return [...errors, 'Bundle.entry must be an array'];
+
+    const fullUrls = new Set<string>();
+    b.entry.forEach((entry, i) => {
+        if (!entry.fullUrl) errors.push(`entry[${i}].fullUrl is required`);
+        else if (!URN_UUID.test(entry.fullUrl)) errors.push(`entry[${i}].fullUrl must be a urn:uuid`);
+        else if (fullUrls.has(entry.fullUrl)) errors.push(`entry[${i}].fullUrl is duplicated`);
+        else fullUrls.add(entry.fullUrl);
+    });
+
+    b.entry.forEach((entry, i) => {
+        const resource = entry.resource;
+        const path = `entry[${i}].resource`;
+        if (!resource) {
+            errors.push(`${path} is required`);
+            return;
+        }
+        if (!FHIR_ID.test(resource.id ?? '')) errors.push(`${path}.id is not a valid FHIR id`);
+        if (resource.resourceType === 'Patient') return;
+        if (resource.resourceType !== 'Observation') {
+            errors.push(`${path}.resourceType "${String((resource as { resourceType?: string }).resourceType)}" is not exported`);
+            return;
+        }
+
+        if (!['registered', 'preliminary', 'final', 'amended'].includes(resource.status)) {
+            errors.push(`${path}.status is invalid`);
+        }
+        checkCodeableConcept(resource.code, `${path}.code`, errors);
+        resource.category?.forEach((c, j) => checkCodeableConcept(c, `${path}.category[${j}]`, errors));
+        if (!resource.subject?.reference || !fullUrls.has(resource.subject.reference)) {
+            errors.push(`${path}.subject must reference a resource in the bundle`);
+        }
+
+        if (!resource.effectiveDateTime && !resource.effectivePeriod) errors.push(`${path} needs effective[x]`);
+        if (resource.effectiveDateTime && resource.effectivePeriod) errors.push(`${path} has more than one effective[x]`);
+        checkDateTime(resource.effectiveDateTime, `${path}.effectiveDateTime`, errors);
+        checkDateTime(resource.effectivePeriod?.start, `${path}.effectivePeriod.start`, errors);
+        checkDateTime(resource.effectivePeriod?.end, `${path}.effectivePeriod.end`, errors);
+
+        if (resource.valueQuantity && resource.valueCodeableConcept) errors.push(`${path} has more than one value[x]`);
+        if (!resource.valueQuantity && !resource.valueCodeableConcept && !resource.component?.length) {
+            errors.push(`${path} needs a value[x] or components`);
+        }
+        checkQuantity(resource.valueQuantity, `${path}.valueQuantity`, errors);
+        resource.component?.forEach((c, j) => {
+            checkCodeableConcept(c.code, `${path}.component[${j}].code`, errors);
+            if (!c.valueQuantity) errors.push(`${path}.component[${j}] needs a value`);
+            checkQuantity(c.valueQuantity, `${path}.component[${j}].valueQuantity`, errors);
+        });
+    });
+
+    return errors;
+}
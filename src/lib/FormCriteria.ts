@@ -0,0 +1,442 @@
+// Executable form criteria: named check functions referenced by FormCriterion.checkFunction
+import {
+    Anthropometry,
+    BiometricData,
+    CriterionResult,
+    ExerciseDefinition,
+    ExercisePhase,
+    JointStress,
+    Landmark3D,
+    PoseLandmark
+} from '@/types';
+import { getPhaseTargets } from '@/data/exercises';
+import {
+    calculateAngle3D,
+    calculateDistance3D,
+    getBodyScale,
+    getFootWidth,
+    getJumpHeight,
+    getKneeOverToe,
+    getSpineAngle,
+    mirrorLandmark
+} from './Biometrics';
+
+/**
+ * Everything a check function may look at for the current frame
+ */
+export interface FormCheckContext {
+    exercise: ExerciseDefinition;
+    landmarks: Landmark3D[];
+    biometrics: BiometricData;
+    phase: ExercisePhase;
+    primaryAngle: number; // smoothed, -1 when unavailable
+    angularVelocity: number; // deg/s of the primary angle
+    repPeakAngle: number | null; // most extreme angle toward the peak in the current (or last) rep
+    memory: Record<string, number>; // per-session scratch space for stateful checks
+    anthropometry: Anthropometry | null; // from the T-pose calibration, null when not measured
+    aspectRatio: number; // capture width over height
+}
+
+export interface FormCheckResult {
+    score: number; // 0-100
+    message?: string;
+    joints: PoseLandmark[];
+}
+
+export type FormCheckFunction = (ctx: FormCheckContext) => FormCheckResult;
+
+// Scores at or above this are considered passing and carry no message
+const GOOD_SCORE = 80;
+const WARNING_SCORE = 50;
+
+// Body-relative limits, in statures (standing height)
+const MIN_JUMP_HEIGHT = 0.05;
+const KNEE_PAST_TOE_TOLERANCE = 0.03;
+const KNEE_PAST_TOE_LIMIT = 0.1;
+const LEG_SPREAD_FACTOR = 1.2; // feet apart over shoulder width at the top of a jumping jack
+
+/**
+ * 100 while error is within tolerance, falling linearly to 0 at zeroAt
+ */
+function linearScore(error: number, tolerance: number, zeroAt: number): number {
+    if (error <= tolerance) return 100;
+    if (error >= zeroAt) return 0;
+    return Math.round(100 * (1 - (error - tolerance) / (zeroAt - tolerance)));
+}
+
+function result(score: number, joints: PoseLandmark[], message: string): FormCheckResult {
+    return score >= GOOD_SCORE ? { score, joints } : { score, joints, message };
+}
+
+function pass(joints: PoseLandmark[]): FormCheckResult {
+    return { score: 100, joints };
+}
+
+function midpoint(a: Landmark3D, b: Landmark3D): Landmark3D {
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 };
+}
+
+function torsoLength(landmarks: Landmark3D[]): number {
+    const shoulderMid = midpoint(landmarks[PoseLandmark.LEFT_SHOULDER], landmarks[PoseLandmark.RIGHT_SHOULDER]);
+    const hipMid = midpoint(landmarks[PoseLandmark.LEFT_HIP], landmarks[PoseLandmark.RIGHT_HIP]);
+    return Math.max(calculateDistance3D(shoulderMid, hipMid), 0.01);
+}
+
+/**
+ * Current standing height in the image, personal when a T-pose was measured
+ */
+function bodyScale(ctx: FormCheckContext): number | null {
+    return getBodyScale(ctx.landmarks, ctx.anthropometry, ctx.aspectRatio);
+}
+
+/**
+ * Ankle spread over shoulder width. With a T-pose measurement the calibrated shoulder width is used,
+ * which unlike the live one does not shrink when the person turns away from the camera.
+ */
+function legSpread(ctx: FormCheckContext): number | null {
+    const lm = ctx.landmarks;
+    const scale = bodyScale(ctx);
+    if (ctx.anthropometry && scale !== null) {
+        const feet = getFootWidth(lm, scale, ctx.aspectRatio);
+        return feet === -1 ? null : feet / (ctx.anthropometry.shoulderWidth / ctx.anthropometry.stature);
+    }
+
+    const shoulderWidth = calculateDistance3D(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.RIGHT_SHOULDER]);
+    if (shoulderWidth === 0) return null;
+    return calculateDistance3D(lm[PoseLandmark.LEFT_ANKLE], lm[PoseLandmark.RIGHT_ANKLE]) / shoulderWidth;
+}
+
+function bothSides(joint: PoseLandmark): PoseLandmark[] {
+    return [joint, mirrorLandmark(joint)];
+}
+
+function primaryJoints(ctx: FormCheckContext): PoseLandmark[] {
+    return bothSides(ctx.exercise.primaryAngle.landmarks[1]);
+}
+
+function isAtPeak(ctx: FormCheckContext): boolean {
+    return ctx.phase === getPhaseTargets(ctx.exercise).peakPhase;
+}
+
+/**
+ * Degrees by which an angle falls short of the exercise's peak threshold
+ */
+function shortOfPeak(ctx: FormCheckContext, angle: number): number {
+    const { peakAngle } = getPhaseTargets(ctx.exercise);
+    return ctx.exercise.phaseDirection === 'flexion-first'
+        ? Math.max(0, angle - peakAngle)
+        : Math.max(0, peakAngle - angle);
+}
+
+/**
+ * Degrees by which an angle goes past a safety limit in the direction of the peak
+ */
+function pastLimit(ctx: FormCheckContext, angle: number, limit: number): number {
+    return ctx.exercise.phaseDirection === 'flexion-first'
+        ? Math.max(0, limit - angle)
+        : Math.max(0, angle - limit);
+}
+
+/**
+ * Range-of-motion check: did the last rep reach the peak, and is the current angle past a safe limit?
+ */
+function rangeCheck(
+    ctx: FormCheckContext,
+    shortMessage: string,
+    overshoot?: { limit: number; message: string }
+): FormCheckResult {
+    const joints = primaryJoints(ctx);
+
+    if (overshoot && ctx.primaryAngle !== -1) {
+        const over = pastLimit(ctx, ctx.primaryAngle, overshoot.limit);
+        if (over > 0) return result(linearScore(over, 0, 30), joints, overshoot.message);
+    }
+
+    if (ctx.repPeakAngle === null) return pass(joints);
+    const short = shortOfPeak(ctx, ctx.repPeakAngle);
+    return result(linearScore(short, ctx.exercise.hysteresis, 45), joints, shortMessage);
+}
+
+// Vertex landmark of the primary angle -> key in BiometricData.symmetryScores
+const SYMMETRY_KEYS: Partial<Record<PoseLandmark, string>> = {
+    [PoseLandmark.LEFT_ELBOW]: 'elbow',
+    [PoseLandmark.LEFT_SHOULDER]: 'shoulder',
+    [PoseLandmark.LEFT_KNEE]: 'knee',
+    [PoseLandmark.LEFT_HIP]: 'hip',
+};
+
+/**
+ * Registry of named check functions
+ */
+export const formChecks: Record<string, FormCheckFunction> = {
+    checkFullROM: ctx => rangeCheck(ctx, 'Use the full range of motion'),
+
+    checkKneeAngle: ctx => rangeCheck(ctx, 'Squat deeper', { limit: 70, message: 'Too deep for beginners' }),
+
+    checkElbowAngle: ctx => rangeCheck(ctx, 'Go lower', { limit: 70, message: 'Too deep!' }),
+
+    checkRaiseHeight: ctx => rangeCheck(ctx, 'Raise to shoulder height', { limit: 110, message: 'Stop at shoulder height' }),
+
+    checkAnkleExtension: ctx => rangeCheck(ctx, 'Rise higher onto the balls of your feet'),
+
+    checkKneeDrive: ctx => rangeCheck(ctx, 'Drive your knee closer to your chest'),
+
+    checkVelocity: ctx => result(
+        linearScore(ctx.angularVelocity, 120, 300),
+        primaryJoints(ctx),
+        'Slow down and control the movement'
+    ),
+
+    checkFlow: ctx => result(
+        linearScore(ctx.angularVelocity, 350, 700),
+        primaryJoints(ctx),
+        'Smooth out your transitions'
+    ),
+
+    checkSymmetry: ctx => {
+        const vertex = ctx.exercise.primaryAngle.landmarks[1];
+        const joints = bothSides(vertex);
+        const bothVisible = joints.every(j => (ctx.landmarks[j].visibility || 0) > 0.6);
+        if (!bothVisible) return pass(joints);
+
+        const key = SYMMETRY_KEYS[vertex];
+        const symmetry = key ? ctx.biometrics.symmetryScores[key] : ctx.biometrics.overallSymmetry;
+        return result(linearScore(100 - symmetry, 10, 40), joints, 'Move both sides evenly');
+    },
+
+    checkShoulderStability: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_SHOULDER);
+        const swing = Math.max(ctx.biometrics.jointAngles.leftShoulder, ctx.biometrics.jointAngles.rightShoulder);
+        return result(linearScore(swing, 35, 70), joints, 'Keep shoulders stable!');
+    },
+
+    checkKneeTracking: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_KNEE);
+        const { leftKnee, rightKnee } = ctx.biometrics.jointAngles;
+        // Only meaningful once the knees are bent
+        if (leftKnee === -1 || rightKnee === -1 || Math.min(leftKnee, rightKnee) > 150) return pass(joints);
+
+        const kneeWidth = Math.abs(ctx.landmarks[PoseLandmark.LEFT_KNEE].x - ctx.landmarks[PoseLandmark.RIGHT_KNEE].x);
+        const ankleWidth = Math.abs(ctx.landmarks[PoseLandmark.LEFT_ANKLE].x - ctx.landmarks[PoseLandmark.RIGHT_ANKLE].x);
+        if (ankleWidth === 0) return pass(joints);
+
+        // Knees collapsing inward (valgus) bring them closer together than the ankles
+        return result(linearScore(1 - kneeWidth / ankleWidth, 0.1, 0.4), joints, 'Push knees out over toes');
+    },
+
+    checkSpineAlignment: ctx => result(
+        linearScore(180 - ctx.biometrics.jointAngles.spine, 20, 60),
+        bothSides(PoseLandmark.LEFT_HIP),
+        'Keep back straight!'
+    ),
+
+    checkHeadPosition: ctx => result(
+        linearScore(180 - getSpineAngle(ctx.landmarks), 25, 60),
+        [PoseLandmark.NOSE],
+        'Keep your head neutral'
+    ),
+
+    checkArmExtension: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_ELBOW);
+        if (!isAtPeak(ctx)) return pass(joints);
+        const elbow = Math.min(ctx.biometrics.jointAngles.leftElbow, ctx.biometrics.jointAngles.rightElbow);
+        return result(linearScore(180 - elbow, 20, 60), joints, 'Fully extend your arms');
+    },
+
+    checkCoreEngagement: ctx => {
+        const hip = (ctx.biometrics.jointAngles.leftHip + ctx.biometrics.jointAngles.rightHip) / 2;
+        return result(linearScore(180 - hip, 15, 40), bothSides(PoseLandmark.LEFT_HIP), 'Brace your core, avoid arching');
+    },
+
+    checkLegSpread: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_ANKLE);
+        if (!isAtPeak(ctx)) return pass(joints);
+        const spread = legSpread(ctx);
+        if (spread === null) return pass(joints);
+        return result(linearScore(LEG_SPREAD_FACTOR - spread, 0, 0.4), joints, 'Jump your feet wider');
+    },
+
+    checkCoordination: ctx => {
+        const joints = [...bothSides(PoseLandmark.LEFT_WRIST), ...bothSides(PoseLandmark.LEFT_ANKLE)];
+        if (ctx.primaryAngle === -1) return pass(joints);
+
+        const { peakAngle, restAngle } = getPhaseTargets(ctx.exercise);
+        const armProgress = Math.max(0, Math.min(1, (ctx.primaryAngle - restAngle) / (peakAngle - restAngle)));
+
+        const spread = legSpread(ctx);
+        if (spread === null) return pass(joints);
+        const legProgress = Math.max(0, Math.min(1, (spread - 0.8) / 0.4));
+
+        return result(linearScore(Math.abs(armProgress - legProgress), 0.25, 0.75), joints, 'Move arms and legs together');
+    },
+
+    checkFrontKnee: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_KNEE);
+        const { leftKnee, rightKnee } = ctx.biometrics.jointAngles;
+        if (!isAtPeak(ctx) || leftKnee === -1 || rightKnee === -1) return pass(joints);
+        return result(linearScore(Math.abs(Math.min(leftKnee, rightKnee) - 90), 15, 45), joints, 'Bend your front knee to 90°');
+    },
+
+    checkBackKnee: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_KNEE);
+        const { leftKnee, rightKnee } = ctx.biometrics.jointAngles;
+        if (!isAtPeak(ctx) || leftKnee === -1 || rightKnee === -1) return pass(joints);
+        return result(linearScore(Math.max(leftKnee, rightKnee), 110, 150), joints, 'Lower your back knee toward the floor');
+    },
+
+    checkKneeOverToe: ctx => {
+        const joints = bothSides(PoseLandmark.LEFT_KNEE);
+        const { leftKnee, rightKnee } = ctx.biometrics.jointAngles;
+        const scale = bodyScale(ctx);
+        if (!isAtPeak(ctx) || leftKnee === -1 || rightKnee === -1 || scale === null) return pass(joints);
+
+        // The front knee is the more bent one
+        const side = leftKnee <= rightKnee ? 'left' : 'right';
+        const ahead = getKneeOverToe(ctx.landmarks, side, scale, ctx.aspectRatio);
+        return result(
+            linearScore(ahead, KNEE_PAST_TOE_TOLERANCE, KNEE_PAST_TOE_LIMIT),
+            side === 'left' ? joints : [...joints].reverse(),
+            'Keep your front knee behind your toes'
+        );
+    },
+
+    checkBalance: ctx => {
+        const lm = ctx.landmarks;
+        const shoulderMid = midpoint(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.RIGHT_SHOULDER]);
+        const hipMid = midpoint(lm[PoseLandmark.LEFT_HIP], lm[PoseLandmark.RIGHT_HIP]);
+        const lean = Math.abs(shoulderMid.x - hipMid.x) / torsoLength(lm);
+        return result(linearScore(lean, 0.1, 0.35), bothSides(PoseLandmark.LEFT_HIP), 'Stay upright and balanced');
+    },
+
+    checkHipAlignment: ctx => {
+        const lm = ctx.landmarks;
+        const joints = bothSides(PoseLandmark.LEFT_HIP);
+        const leftLine = calculateAngle3D(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.LEFT_HIP], lm[PoseLandmark.LEFT_ANKLE]);
+        const rightLine = calculateAngle3D(lm[PoseLandmark.RIGHT_SHOULDER], lm[PoseLandmark.RIGHT_HIP], lm[PoseLandmark.RIGHT_ANKLE]);
+        const score = linearScore(180 - (leftLine + rightLine) / 2, 15, 40);
+
+        // Image y grows downward: hips below the shoulder-ankle line are sagging
+        const shoulderMid = midpoint(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.RIGHT_SHOULDER]);
+        const ankleMid = midpoint(lm[PoseLandmark.LEFT_ANKLE], lm[PoseLandmark.RIGHT_ANKLE]);
+        const hipMid = midpoint(lm[PoseLandmark.LEFT_HIP], lm[PoseLandmark.RIGHT_HIP]);
+        const lineY = (shoulderMid.y + ankleMid.y) / 2;
+        const message = hipMid.y > lineY ? 'Hips sagging! Engage your core.' : 'Hips too high! Keep body straight.';
+
+        return result(score, joints, message);
+    },
+
+    checkShoulderPosition: ctx => {
+        const shoulder = (ctx.biometrics.jointAngles.leftShoulder + ctx.biometrics.jointAngles.rightShoulder) / 2;
+        // In a forearm plank, the hip-shoulder-elbow angle should be roughly 90
+        return result(linearScore(Math.abs(shoulder - 90), 20, 50), bothSides(PoseLandmark.LEFT_SHOULDER), 'Shoulders over elbows');
+    },
+
+    checkPlankForm: ctx => {
+        const lm = ctx.landmarks;
+        // The driving leg bends, so judge the body line on the straighter side
+        const line = Math.max(
+            calculateAngle3D(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.LEFT_HIP], lm[PoseLandmark.LEFT_ANKLE]),
+            calculateAngle3D(lm[PoseLandmark.RIGHT_SHOULDER], lm[PoseLandmark.RIGHT_HIP], lm[PoseLandmark.RIGHT_ANKLE])
+        );
+        return result(linearScore(180 - line, 25, 55), bothSides(PoseLandmark.LEFT_HIP), 'Hold a strong plank');
+    },
+
+    checkHipPosition: ctx => {
+        const lm = ctx.landmarks;
+        const shoulderMid = midpoint(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.RIGHT_SHOULDER]);
+        const hipMid = midpoint(lm[PoseLandmark.LEFT_HIP], lm[PoseLandmark.RIGHT_HIP]);
+        // Raised hips sit above the shoulders in the image (smaller y)
+        const raise = Math.max(0, shoulderMid.y - hipMid.y) / torsoLength(lm);
+        return result(linearScore(raise, 0.1, 0.4), bothSides(PoseLandmark.LEFT_HIP), 'Keep your hips down');
+    },
+
+    checkPushupForm: ctx => {
+        const lm = ctx.landmarks;
+        const joints = bothSides(PoseLandmark.LEFT_HIP);
+        const shoulderMid = midpoint(lm[PoseLandmark.LEFT_SHOULDER], lm[PoseLandmark.RIGHT_SHOULDER]);
+        const hipMid = midpoint(lm[PoseLandmark.LEFT_HIP], lm[PoseLandmark.RIGHT_HIP]);
+        // Only judge while the torso is close to horizontal (the plank / push-up portion)
+        const isHorizontal = Math.abs(shoulderMid.y - hipMid.y) / torsoLength(lm) < 0.4;
+        if (!isHorizontal) return pass(joints);
+        return result(linearScore(180 - ctx.biometrics.jointAngles.spine, 20, 60), joints, 'Keep a straight plank in the push-up');
+    },
+
+    checkJumpHeight: ctx => {
+        const lm = ctx.landmarks;
+        const joints = bothSides(PoseLandmark.LEFT_ANKLE);
+        const ankleY = (lm[PoseLandmark.LEFT_ANKLE].y + lm[PoseLandmark.RIGHT_ANKLE].y) / 2;
+
+        // Remember the floor as the lowest ankle position seen (image y grows downward)
+        ctx.memory.groundY = Math.max(ctx.memory.groundY ?? ankleY, ankleY);
+        const scale = bodyScale(ctx);
+        if (!isAtPeak(ctx) || scale === null) return pass(joints);
+
+        const lift = getJumpHeight(lm, ctx.memory.groundY, scale);
+        return result(linearScore(MIN_JUMP_HEIGHT - lift, 0, MIN_JUMP_HEIGHT), joints, 'Jump higher at the top');
+    },
+};
+
+/**
+ * Register (or replace) a named check function
+ */
+export function registerFormCheck(name: string, check: FormCheckFunction): void {
+    formChecks[name] = check;
+}
+
+/**
+ * Run every criterion of the exercise. Criteria naming an unknown check are skipped.
+ */
+export function evaluateCriteria(ctx: FormCheckContext): CriterionResult[] {
+    const results: CriterionResult[] = [];
+
+    ctx.exercise.formCriteria.forEach(criterion => {
+        const check = formChecks[criterion.checkFunction];
+        if (!check) return;
+
+        const { score, message, joints } = check(ctx);
+        results.push({
+            criterionId: criterion.id,
+            name: criterion.name,
+            score: Math.max(0, Math.min(100, Math.round(score))),
+            weight: criterion.weight,
+            message,
+            joints,
+        });
+    });
+
+    return results;
+}
+
+/**
+ * Weighted sum of criterion scores (0-100). Exercises without runnable criteria score 100.
+ */
+export function calculateFormScore(results: CriterionResult[]): number {
+    const totalWeight = results.reduce((acc, r) => acc + r.weight, 0);
+    if (totalWeight === 0) return 100;
+
+    const weighted = results.reduce((acc, r) => acc + r.score * r.weight, 0);
+    return Math.round(weighted / totalWeight);
+}
+
+/**
+ * Joint stress for the avatar: each joint takes the worst score of the criteria touching it
+ */
+export function criteriaToJointStress(results: CriterionResult[]): JointStress[] {
+    const worst = new Map<PoseLandmark, { score: number; message?: string }>();
+
+    results.forEach(r => {
+        r.joints.forEach((joint, i) => {
+            const current = worst.get(joint);
+            if (!current || r.score < current.score) {
+                // Only the first joint carries the message so feedback isn't repeated
+                worst.set(joint, { score: r.score, message: i === 0 ? r.message : undefined });
+            }
+        });
+    });
+
+    return Array.from(worst.entries()).map(([jointId, { score, message }]) => ({
+        jointId,
+        stressLevel: score >= GOOD_SCORE ? 'good' : score >= WARNING_SCORE ? 'warning' : 'bad',
+        message,
+    }));
+}
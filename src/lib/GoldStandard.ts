@@ -0,0 +1,261 @@
+// Gold standard capture, normalization and the JSON exchange format
+import {
+    ExerciseDefinition,
+    ExercisePhase,
+    GoldStandardFrame,
+    GoldStandardSequence,
+    Landmark3D
+} from '@/types';
+import { getPhaseTargets } from '@/data/exercises';
+import { getJointAngle } from './Biometrics';
+import { getGoldStandard } from './db';
+import { normalizePose } from './PoseFeatures';
+
+export const GOLD_STANDARD_FORMAT = 'physio-ai/gold-standard';
+export const GOLD_STANDARD_VERSION = 1;
+
+// Stored sequences are resampled to this rate so DTW compares like with like
+export const GOLD_STANDARD_FPS = 30;
+
+const LANDMARK_COUNT = 33;
+const MIN_ISOMETRIC_MS = 2000;
+const REST_TOLERANCE = 3; // degrees of noise tolerated while extending a rep boundary
+const SETTLE_FRAMES = 10; // frames at rest without progress that end a rep boundary
+
+/**
+ * On-disk representation: compact [x, y, z, visibility] tuples per landmark
+ */
+export interface GoldStandardFile {
+    format: typeof GOLD_STANDARD_FORMAT;
+    version: number;
+    exerciseId: string;
+    recordedAt?: string;
+    fps: number;
+    duration: number;
+    frames: {
+        t: number;
+        phase: ExercisePhase;
+        landmarks: [number, number, number, number][];
+    }[];
+}
+
+function lerpPose(a: Landmark3D[], b: Landmark3D[], t: number): Landmark3D[] {
+    return a.map((la, i) => ({
+        x: la.x + (b[i].x - la.x) * t,
+        y: la.y + (b[i].y - la.y) * t,
+        z: la.z + (b[i].z - la.z) * t,
+        visibility: Math.min(la.visibility ?? 1, b[i].visibility ?? 1),
+    }));
+}
+
+/**
+ * Rebase timestamps to zero, resample at GOLD_STANDARD_FPS and normalize every pose
+ */
+export function normalizeSequence(exerciseId: string, frames: GoldStandardFrame[]): GoldStandardSequence {
+    if (frames.length === 0) return { exerciseId, frames: [], duration: 0 };
+
+    const start = frames[0].timestamp;
+    const duration = frames[frames.length - 1].timestamp - start;
+    const step = 1000 / GOLD_STANDARD_FPS;
+    const resampled: GoldStandardFrame[] = [];
+
+    let source = 0;
+    for (let t = 0; t <= duration; t += step) {
+        while (source < frames.length - 2 && frames[source + 1].timestamp - start < t) source++;
+
+        const a = frames[source];
+        const b = frames[Math.min(source + 1, frames.length - 1)];
+        const span = b.timestamp - a.timestamp;
+        const ratio = span > 0 ? Math.min(1, Math.max(0, (t - (a.timestamp - start)) / span)) : 0;
+
+        resampled.push({
+            landmarks: normalizePose(lerpPose(a.landmarks, b.landmarks, ratio)),
+            phase: ratio < 0.5 ? a.phase : b.phase,
+            timestamp: Math.round(t),
+        });
+    }
+
+    return { exerciseId, frames: resampled, duration: Math.round(duration) };
+}
+
+/**
+ * Records an expert demonstration and cuts one clean rep out of it
+ */
+export class GoldStandardRecorder {
+    private exercise: ExerciseDefinition;
+    private frames: { landmarks: Landmark3D[]; timestamp: number; angle: number }[] = [];
+
+    constructor(exercise: ExerciseDefinition) {
+        this.exercise = exercise;
+    }
+
+    /**
+     * Record one frame; returns the primary angle or -1 when the joint is not visible
+     */
+    addFrame(landmarks: Landmark3D[], timestamp: number): number {
+        if (landmarks.length < LANDMARK_COUNT) return -1;
+        const angle = getJointAngle(landmarks, this.exercise.primaryAngle);
+        if (angle >= 0) this.frames.push({ landmarks: landmarks.map(l => ({ ...l })), timestamp, angle });
+        return angle;
+    }
+
+    getFrameCount(): number {
+        return this.frames.length;
+    }
+
+    reset(): void {
+        this.frames = [];
+    }
+
+    /**
+     * The recorded rep as a normalized sequence, or null if no complete rep was seen
+     */
+    finish(): GoldStandardSequence | null {
+        const segment = this.exercise.phaseDirection === 'isometric'
+            ? this.segmentHold()
+            : this.segmentRep();
+        if (!segment) return null;
+
+        return {
+            ...normalizeSequence(this.exercise.id, segment),
+            recordedAt: new Date(),
+            source: 'recorded',
+        };
+    }
+
+    /**
+     * Middle of the recording, dropping the first and last 10% where the expert settles in and out
+     */
+    private segmentHold(): GoldStandardFrame[] | null {
+        if (this.frames.length < 2) return null;
+        const duration = this.frames[this.frames.length - 1].timestamp - this.frames[0].timestamp;
+        if (duration < MIN_ISOMETRIC_MS) return null;
+
+        const trim = Math.floor(this.frames.length * 0.1);
+        return this.frames
+            .slice(trim, this.frames.length - trim)
+            .map(f => ({ landmarks: f.landmarks, phase: 'HOLD' as ExercisePhase, timestamp: f.timestamp }));
+    }
+
+    /**
+     * The rep around the deepest point, bounded by the most-rested frame on either side
+     */
+    private segmentRep(): GoldStandardFrame[] | null {
+        if (this.frames.length < 3) return null;
+
+        const { hysteresis, phaseDirection } = this.exercise;
+        const { peakPhase, restPhase, peakAngle, restAngle } = getPhaseTargets(this.exercise);
+        const closesFirst = phaseDirection === 'flexion-first';
+        const angles = this.frames.map(f => f.angle);
+
+        // Signed so that larger always means "closer to rest"
+        const toRest = (angle: number) => (closesFirst ? angle : -angle);
+        const atRest = (angle: number) => (closesFirst ? angle > restAngle - hysteresis : angle < restAngle + hysteresis);
+        const atPeak = (angle: number) => (closesFirst ? angle < peakAngle + hysteresis : angle > peakAngle - hysteresis);
+
+        let peak = 0;
+        angles.forEach((angle, i) => {
+            if (toRest(angle) < toRest(angles[peak])) peak = i;
+        });
+        if (!atPeak(angles[peak])) return null;
+
+        // Follow the angle back toward rest; stop once it settles or turns into a neighbouring rep
+        const walk = (from: number, dir: -1 | 1): number => {
+            let best = from;
+            for (let next = from + dir; next >= 0 && next < angles.length; next += dir) {
+                if (toRest(angles[next]) > toRest(angles[best]) + 0.5) best = next;
+                if (!atRest(angles[best])) continue;
+                if (toRest(angles[next]) < toRest(angles[best]) - REST_TOLERANCE) break;
+                if (Math.abs(next - best) > SETTLE_FRAMES) break;
+            }
+            return best;
+        };
+
+        const start = walk(peak, -1);
+        const end = walk(peak, 1);
+        if (!atRest(angles[start]) || !atRest(angles[end])) return null;
+
+        return this.frames.slice(start, end + 1).map((f, i, rep) => ({
+            landmarks: f.landmarks,
+            phase: i === rep.length - 1 ? 'COMPLETE' : i === 0 || start + i > peak ? restPhase : peakPhase,
+            timestamp: f.timestamp,
+        }));
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+export function serializeGoldStandard(sequence: GoldStandardSequence): GoldStandardFile {
+    return {
+        format: GOLD_STANDARD_FORMAT,
+        version: GOLD_STANDARD_VERSION,
+        exerciseId: sequence.exerciseId,
+        recordedAt: sequence.recordedAt ? new Date(sequence.recordedAt).toISOString() : undefined,
+        fps: GOLD_STANDARD_FPS,
+        duration: sequence.duration,
+        frames: sequence.frames.map(f => ({
+            t: f.timestamp,
+            phase: f.phase,
+            landmarks: f.landmarks.map(l => [round(l.x), round(l.y), round(l.z), round(l.visibility ?? 1)]),
+        })),
+    };
+}
+
+/**
+ * Validate and decode a gold standard file; throws with a readable reason when malformed
+ */
+export function parseGoldStandard(data: unknown, source: GoldStandardSequence['source'] = 'imported'): GoldStandardSequence {
+    const file = data as Partial<GoldStandardFile> | null;
+    if (!file || typeof file !== 'object') throw new Error('Gold standard must be a JSON object');
+    if (file.format !== GOLD_STANDARD_FORMAT) throw new Error(`Unknown format "${String(file.format)}"`);
+    if (typeof file.version !== 'number' || file.version > GOLD_STANDARD_VERSION) {
+        throw new Error(`Unsupported version ${String(file.version)}`);
+    }
+    if (typeof file.exerciseId !== 'string' || !file.exerciseId) throw new Error('Missing exerciseId');
+    if (!Array.isArray(file.frames) || file.frames.length === 0) throw new Error('No frames');
+
+    const frames: GoldStandardFrame[] = file.frames.map((frame, index) => {
+        if (!Array.isArray(frame.landmarks) || frame.landmarks.length !== LANDMARK_COUNT) {
+            throw new Error(`Frame ${index} must have ${LANDMARK_COUNT} landmarks`);
+        }
+        return {
+            timestamp: Number(frame.t),
+            phase: frame.phase,
+            landmarks: frame.landmarks.map(([x, y, z, visibility]) => {
+                if (![x, y, z].every(Number.isFinite)) throw new Error(`Frame ${index} has a non-numeric landmark`);
+                return { x, y, z, visibility };
+            }),
+        };
+    });
+
+    return {
+        exerciseId: file.exerciseId,
+        frames,
+        duration: typeof file.duration === 'number' ? file.duration : frames[frames.length - 1].timestamp,
+        recordedAt: file.recordedAt ? new Date(file.recordedAt) : undefined,
+        source,
+    };
+}
+
+/**
+ * Bundled reference motions live at public/gold-standards/<exerciseId>.json
+ */
+export async function fetchBundledGoldStandard(exerciseId: string): Promise<GoldStandardSequence | undefined> {
+    try {
+        const response = await fetch(`/gold-standards/${encodeURIComponent(exerciseId)}.json`);
+        if (!response.ok) return undefined;
+        return parseGoldStandard(await response.json(), 'bundled');
+    } catch (error) {
+        console.error(`Failed to load bundled gold standard for ${exerciseId}:`, error);
+        return undefined;
+    }
+}
+
+/**
+ * A locally recorded or imported sequence wins over the bundled one
+ */
+export async function loadGoldStandard(exerciseId: string): Promise<GoldStandardSequence | undefined> {
+    return (await getGoldStandard(exerciseId)) ?? fetchBundledGoldStandard(exerciseId);
+}
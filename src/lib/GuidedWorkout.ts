@@ -0,0 +1,111 @@
+// Guided sets: a target per set, a number of sets and rest between them.
+// The engine is reset at every set boundary, so the finished sets are kept here and merged on finish.
+import { PainEvent, ProgramItem, RepMetrics, SessionSummary, SetRecord } from '@/types';
+
+export type SetPlan = Pick<ProgramItem, 'sets' | 'targetReps' | 'restSeconds'>;
+
+export const DEFAULT_SET_PLAN: SetPlan = { sets: 3, targetReps: 10, restSeconds: 60 };
+
+function mean(values: number[]): number {
+    return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+export class GuidedSession {
+    private plan: SetPlan;
+    private completed: SessionSummary[] = [];
+    private targets: number[] = []; // per finished set, since a safety halt can lower the target mid-workout
+
+    constructor(plan: SetPlan) {
+        this.plan = plan;
+    }
+
+    getPlan(): SetPlan {
+        return this.plan;
+    }
+
+    /**
+     * 1-based number of the set in progress, or of the last set once finished
+     */
+    getCurrentSet(): number {
+        return Math.min(this.completed.length + 1, this.plan.sets);
+    }
+
+    isFinished(): boolean {
+        return this.completed.length >= this.plan.sets;
+    }
+
+    hasReachedTarget(reps: number): boolean {
+        return reps >= this.plan.targetReps;
+    }
+
+    /**
+     * Close the set in progress; target defaults to the plan's
+     */
+    completeSet(summary: SessionSummary, target: number = this.plan.targetReps): void {
+        if (this.isFinished()) return;
+        this.completed.push(summary);
+        this.targets.push(target);
+    }
+
+    /**
+     * Lower the target of the sets still to come
+     */
+    reduceTarget(targetReps: number): void {
+        this.plan = { ...this.plan, targetReps };
+    }
+
+    /**
+     * All sets as one session: totals are summed, form scores are re-weighted over every rep (or
+     * every active second for holds), and reps and pain events are renumbered across sets.
+     * Null before the first set.
+     */
+    getSessionSummary(): SessionSummary | null {
+        const sets = this.completed;
+        if (sets.length === 0) return null;
+
+        // Reps completed before each set
+        const offsets = sets.map((_, i) => sets.slice(0, i).reduce((sum, s) => sum + s.reps, 0));
+        const repMetrics: RepMetrics[] = sets.flatMap((s, i) => s.repMetrics.map(r => ({ ...r, rep: r.rep + offsets[i] })));
+        const painEvents: PainEvent[] = sets.flatMap((s, i) => s.painEvents.map(e => ({ ...e, rep: e.rep + offsets[i] })));
+        const activeDuration = sets.reduce((sum, s) => sum + (s.activeDuration ?? 0), 0);
+        const timeWeighted = activeDuration > 0
+            ? Math.round(sets.reduce((sum, s) => sum + (s.timeWeightedFormScore ?? 0) * (s.activeDuration ?? 0), 0) / activeDuration)
+            : 0;
+        const repWeighted = repMetrics.length > 0 ? mean(repMetrics.map(r => r.formScore)) : undefined;
+        const repQualityScores = sets.flatMap(s => s.repQualityScores ?? []);
+        const painSets = sets.filter(s => s.cameraPainMean !== undefined && s.cameraPainPeak !== undefined);
+        const painWeight = (s: SessionSummary) => Math.max(1, s.duration); // seconds; very short sets still count
+        const records: SetRecord[] = sets.map((s, i) => ({
+            set: i + 1,
+            reps: s.reps,
+            target: this.targets[i],
+            formScore: s.formScore,
+            duration: s.duration,
+        }));
+
+        return {
+            date: sets[sets.length - 1].date,
+            exerciseId: sets[0].exerciseId,
+            reps: sets.reduce((sum, s) => sum + s.reps, 0),
+            formScore: repWeighted ?? timeWeighted,
+            duration: sets.reduce((sum, s) => sum + s.duration, 0),
+            timeWeightedFormScore: timeWeighted,
+            ...(repWeighted !== undefined && { repWeightedFormScore: repWeighted }),
+            activeDuration,
+            ...(painSets.length > 0 && {
+                cameraPainMean: Math.round(
+                    (painSets.reduce((sum, s) => sum + (s.cameraPainMean ?? 0) * painWeight(s), 0)
+                        / painSets.reduce((sum, s) => sum + painWeight(s), 0)) * 10
+                ) / 10,
+                cameraPainPeak: Math.max(...painSets.map(s => s.cameraPainPeak ?? 0)),
+            }),
+            ...(repQualityScores.length > 0 && {
+                qualityScore: mean(repQualityScores),
+                repQualityScores,
+            }),
+            repMetrics,
+            painEvents,
+            sets: records,
+        };
+    }
+}
@@ -0,0 +1,120 @@
+// Recovery after a HALT_WORKOUT safety stop: a mandatory rest, a pain check-in, then
+// resume at a reduced target, switch to an easier exercise or end. Every step is logged.
+import { HaltRecoveryEntry, PainAnalysis, SafetyHalt } from '@/types';
+
+export type HaltPhase = 'resting' | 'check-in' | 'deciding' | 'closed';
+export type HaltRecoveryAction = 'resume' | 'switch' | 'end';
+
+export const HALT_REST_SECONDS = 30;
+export const HALT_RESUME_MAX_PAIN = 3; // NPRS at or below which resuming is offered
+export const HALT_SWITCH_MAX_PAIN = 6; // NPRS at or below which an easier exercise is offered
+export const HALT_TARGET_FACTOR = 0.5;
+
+/**
+ * Why the engine stopped the workout, from the pain analysis on the halting frame
+ */
+export function describeHalt(analysis: PainAnalysis): string {
+    const units = analysis.primary_action_units.length > 0 ? ` (${analysis.primary_action_units.join(', ')})` : '';
+    return `${analysis.intensity_level} pain expression held for over 2.5 seconds${units}`;
+}
+
+/**
+ * Rep count (or seconds) a resumed set ends at: half of what was left of the target, at least one more
+ */
+export function resumeTarget(repsDone: number, target: number): number {
+    return repsDone + Math.max(1, Math.round((target - repsDone) * HALT_TARGET_FACTOR));
+}
+
+/**
+ * Target for the sets that follow a halt
+ */
+export function reducedTarget(target: number): number {
+    return Math.max(1, Math.round(target * HALT_TARGET_FACTOR));
+}
+
+/**
+ * One-line outcome of a logged halt, e.g. "pain 2/10, resumed to 8"
+ */
+export function summarizeHalt(halt: SafetyHalt): string {
+    const checkIn = halt.steps.find(e => e.step === 'checked-in');
+    const last = halt.steps[halt.steps.length - 1];
+    const outcome = last.step === 'resumed' ? `resumed to ${last.target}`
+        : last.step === 'switched' ? `switched to ${last.exerciseId}`
+            : last.step === 'ended' ? 'ended'
+                : 'unresolved';
+    return checkIn ? `pain ${checkIn.painScore}/10, ${outcome}` : outcome;
+}
+
+export class HaltRecovery {
+    private phase: HaltPhase = 'resting';
+    private painScore: number | null = null;
+    private record: SafetyHalt;
+
+    constructor(reason: string, set: number, rep: number, now: number = Date.now()) {
+        this.record = { reason, set, rep, steps: [{ step: 'halted', at: now }] };
+    }
+
+    getPhase(): HaltPhase {
+        return this.phase;
+    }
+
+    getRecord(): SafetyHalt {
+        return { ...this.record, steps: [...this.record.steps] };
+    }
+
+    finishRest(now: number = Date.now()): void {
+        this.expect('resting');
+        this.log({ step: 'rested', at: now });
+        this.phase = 'check-in';
+    }
+
+    checkIn(painScore: number, now: number = Date.now()): void {
+        this.expect('check-in');
+        this.painScore = painScore;
+        this.log({ step: 'checked-in', at: now, painScore });
+        this.phase = 'deciding';
+    }
+
+    /**
+     * What the check-in allows; ending is always allowed
+     */
+    getOptions(): HaltRecoveryAction[] {
+        if (this.phase !== 'deciding' || this.painScore === null) return [];
+        if (this.painScore <= HALT_RESUME_MAX_PAIN) return ['resume', 'switch', 'end'];
+        if (this.painScore <= HALT_SWITCH_MAX_PAIN) return ['switch', 'end'];
+        return ['end'];
+    }
+
+    resume(target: number, now: number = Date.now()): void {
+        this.expectOption('resume');
+        this.log({ step: 'resumed', at: now, target });
+        this.phase = 'closed';
+    }
+
+    switchTo(exerciseId: string, now: number = Date.now()): void {
+        this.expectOption('switch');
+        this.log({ step: 'switched', at: now, exerciseId });
+        this.phase = 'closed';
+    }
+
+    /**
+     * End the session from any phase; a no-op once the halt is closed
+     */
+    end(now: number = Date.now()): void {
+        if (this.phase === 'closed') return;
+        this.log({ step: 'ended', at: now });
+        this.phase = 'closed';
+    }
+
+    private log(entry: HaltRecoveryEntry): void {
+        this.record.steps.push(entry);
+    }
+
+    private expect(phase: HaltPhase): void {
+        if (this.phase !== phase) throw new Error(`Halt recovery is ${this.phase}, not ${phase}`);
+    }
+
+    private expectOption(action: HaltRecoveryAction): void {
+        if (!this.getOptions().includes(action)) throw new Error(`Cannot ${action} after this check-in`);
+    }
+}
@@ -0,0 +1,89 @@
+// Versioned Dexie schema history; PhysioDatabase replays it in order
+import { Transaction } from 'dexie';
+
+export interface SchemaMigration {
+    version: number;
+    description: string;
+    stores: Record<string, string | null>; // only the tables that change; null deletes a table
+    upgrade?: (tx: Transaction) => Promise<unknown>; // runs once when an older database opens
+}
+
+/**
+ * Append new versions here; never edit a shipped entry, since browsers that already
+ * ran it will not run it again. Upgrades cannot decrypt sealed records, so they may
+ * only touch plain fields; derived data that needs the contents goes in a backfill.
+ */
+export const schemaMigrations: SchemaMigration[] = [
+    {
+        version: 1,
+        description: 'Sessions, daily stats and streaks',
+        stores: {
+            sessions: '++id, date, exerciseId, reps, formScore, duration',
+            dailyStats: 'date, totalReps, avgFormScore, exerciseCount, totalDuration',
+            streaks: '++id, lastActiveDate, currentStreak, longestStreak',
+        },
+    },
+    {
+        version: 2,
+        description: 'Custom exercises',
+        stores: { customExercises: 'id, name, category' },
+    },
+    {
+        version: 3,
+        description: 'Gold standard reference motions',
+        stores: { goldStandards: 'exerciseId' },
+    },
+    {
+        version: 4,
+        description: 'Per-rep metrics',
+        stores: { reps: '++id, sessionId, exerciseId, date' },
+    },
+    {
+        version: 5,
+        description: 'Range-of-motion measurements',
+        stores: { romMeasurements: '++id, assessmentId, testId, date' },
+    },
+    {
+        // Value indexes would leak encrypted fields, so only ids, dates and exercise ids stay indexed
+        version: 6,
+        description: 'Encryption at rest',
+        stores: {
+            sessions: '++id, date, exerciseId',
+            dailyStats: 'date',
+            settings: 'key',
+        },
+    },
+    {
+        version: 7,
+        description: 'Give early daily stats rows an exercises map',
+        stores: {},
+        upgrade: tx => tx.table('dailyStats').toCollection().modify(stats => {
+            if (!stats.sealed && !stats.exercises) stats.exercises = {};
+        }),
+    },
+    {
+        // Rows become streak segments; the old one-row-per-reset records are rebuilt by a backfill
+        version: 8,
+        description: 'Streak segments',
+        stores: { streaks: '++id, startDate, endDate' },
+        upgrade: tx => tx.table('streaks').clear(),
+    },
+    {
+        version: 9,
+        description: 'Workout programs and plan completions',
+        stores: {
+            programs: 'id, status',
+            planCompletions: '++id, programId, date, exerciseId, sessionId',
+        },
+    },
+    {
+        version: 10,
+        description: 'Pain event log',
+        stores: { painEvents: '++id, sessionId, exerciseId, date' },
+    },
+    {
+        version: 11,
+        description: 'Calibration profile',
+        stores: { calibrationProfiles: 'id' },
+    },
+];
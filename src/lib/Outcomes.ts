@@ -0,0 +1,68 @@
+// Patient-reported outcome scales, and how self-reported pain tracks the camera estimate
+import { PainCorrelation, SessionOutcomes, WorkoutSession } from '@/types';
+
+export const NPRS_MAX = 10;
+export const BORG_MIN = 6;
+export const BORG_MAX = 20;
+export const MIN_CORRELATION_PAIRS = 3;
+
+// Verbal anchors of the Borg 6-20 scale
+export const BORG_LABELS: Record<number, string> = {
+    6: 'No exertion',
+    7: 'Extremely light',
+    9: 'Very light',
+    11: 'Light',
+    13: 'Somewhat hard',
+    15: 'Hard',
+    17: 'Very hard',
+    19: 'Extremely hard',
+    20: 'Maximal exertion',
+};
+
+export function hasOutcomes(outcomes: SessionOutcomes | undefined): boolean {
+    return !!outcomes && (
+        outcomes.painBefore !== undefined
+        || outcomes.painAfter !== undefined
+        || outcomes.rpe !== undefined
+        || !!outcomes.notes
+    );
+}
+
+/**
+ * Pearson correlation coefficient; null below MIN_CORRELATION_PAIRS or when either side is constant
+ */
+export function pearson(xs: number[], ys: number[]): number | null {
+    const n = Math.min(xs.length, ys.length);
+    if (n < MIN_CORRELATION_PAIRS) return null;
+
+    const meanX = xs.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    const meanY = ys.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (xs[i] - meanX) * (ys[i] - meanY);
+        varianceX += (xs[i] - meanX) ** 2;
+        varianceY += (ys[i] - meanY) ** 2;
+    }
+    if (varianceX === 0 || varianceY === 0) return null;
+    return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100;
+}
+
+/**
+ * Correlate the post-session NPRS with the camera's pain score, which gives the facial
+ * action unit thresholds a ground truth to be tuned against
+ */
+export function correlatePain(sessions: WorkoutSession[]): PainCorrelation {
+    const paired = sessions.flatMap(({ outcomes, cameraPainMean, cameraPainPeak }) =>
+        outcomes?.painAfter !== undefined && cameraPainMean !== undefined && cameraPainPeak !== undefined
+            ? [{ reported: outcomes.painAfter, mean: cameraPainMean, peak: cameraPainPeak }]
+            : []
+    );
+    const reported = paired.map(p => p.reported);
+    return {
+        pairs: paired.length,
+        meanR: pearson(reported, paired.map(p => p.mean)),
+        peakR: pearson(reported, paired.map(p => p.peak)),
+    };
+}
@@ -0,0 +1,142 @@
+// Body-normalized, camera-invariant pose features for movement comparison
+import { ExerciseDefinition, FeatureSpace, Landmark3D, LandmarkTriplet, PoseLandmark } from '@/types';
+import { calculateAngle3D, calculateDistance3D, getTriplet } from './Biometrics';
+
+export interface PoseFeatureOptions {
+    space: FeatureSpace;
+    landmarks: PoseLandmark[]; // landmarks to compare; empty means all 33
+    alignRotation: boolean; // cancel the body's yaw relative to the camera
+}
+
+/**
+ * One frame of features: `dims` values per group, each group with its own visibility weight
+ */
+export interface PoseFeatures {
+    values: number[];
+    weights: number[];
+    dims: number;
+}
+
+const LANDMARK_COUNT = 33;
+
+// Left-side joints compared in angle space (right side is mirrored)
+const FEATURE_JOINTS: LandmarkTriplet[] = [
+    [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW, PoseLandmark.LEFT_WRIST],
+    [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW],
+    [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE],
+    [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE, PoseLandmark.LEFT_ANKLE],
+    [PoseLandmark.LEFT_KNEE, PoseLandmark.LEFT_ANKLE, PoseLandmark.LEFT_FOOT_INDEX],
+];
+
+function midpoint(a: Landmark3D, b: Landmark3D): Landmark3D {
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 };
+}
+
+/**
+ * Translate the pose so the hip midpoint is the origin and scale it to unit torso length
+ */
+export function normalizePose(landmarks: Landmark3D[]): Landmark3D[] {
+    const hips = midpoint(landmarks[PoseLandmark.LEFT_HIP], landmarks[PoseLandmark.RIGHT_HIP]);
+    const shoulders = midpoint(landmarks[PoseLandmark.LEFT_SHOULDER], landmarks[PoseLandmark.RIGHT_SHOULDER]);
+    const torso = calculateDistance3D(hips, shoulders) || 1;
+
+    return landmarks.map(l => ({
+        x: (l.x - hips.x) / torso,
+        y: (l.y - hips.y) / torso,
+        z: (l.z - hips.z) / torso,
+        visibility: l.visibility,
+    }));
+}
+
+/**
+ * Rotate a hip-centred pose about the vertical axis so the hip line runs along +x.
+ * Roll and pitch are kept: lean relative to gravity is part of the movement.
+ */
+export function alignRotation(landmarks: Landmark3D[]): Landmark3D[] {
+    const left = landmarks[PoseLandmark.LEFT_HIP];
+    const right = landmarks[PoseLandmark.RIGHT_HIP];
+    const yaw = Math.atan2(right.z - left.z, right.x - left.x);
+    const cos = Math.cos(-yaw);
+    const sin = Math.sin(-yaw);
+
+    return landmarks.map(l => ({
+        x: l.x * cos - l.z * sin,
+        y: l.y,
+        z: l.x * sin + l.z * cos,
+        visibility: l.visibility,
+    }));
+}
+
+export function featureOptionsFor(exercise: ExerciseDefinition): PoseFeatureOptions {
+    return {
+        space: exercise.featureSpace ?? 'position',
+        landmarks: exercise.keyLandmarks,
+        alignRotation: true,
+    };
+}
+
+function selectedLandmarks(options: PoseFeatureOptions): PoseLandmark[] {
+    return options.landmarks.length > 0
+        ? options.landmarks
+        : Array.from({ length: LANDMARK_COUNT }, (_, i) => i as PoseLandmark);
+}
+
+/**
+ * Joint triplets (both sides) whose vertex is one of the selected landmarks
+ */
+function selectedJoints(options: PoseFeatureOptions): LandmarkTriplet[] {
+    const selected = new Set(selectedLandmarks(options));
+    return FEATURE_JOINTS
+        .flatMap(joint => [getTriplet(joint, 'left'), getTriplet(joint, 'right')])
+        .filter(([, vertex]) => selected.has(vertex));
+}
+
+export function extractPoseFeatures(landmarks: Landmark3D[], options: PoseFeatureOptions): PoseFeatures {
+    if (options.space === 'angles') {
+        const values: number[] = [];
+        const weights: number[] = [];
+        selectedJoints(options).forEach(([a, b, c]) => {
+            values.push((calculateAngle3D(landmarks[a], landmarks[b], landmarks[c]) * Math.PI) / 180);
+            weights.push(Math.min(landmarks[a].visibility ?? 1, landmarks[b].visibility ?? 1, landmarks[c].visibility ?? 1));
+        });
+        return { values, weights, dims: 1 };
+    }
+
+    const normalized = normalizePose(landmarks);
+    const pose = options.alignRotation ? alignRotation(normalized) : normalized;
+    const values: number[] = [];
+    const weights: number[] = [];
+    selectedLandmarks(options).forEach(i => {
+        values.push(pose[i].x, pose[i].y, pose[i].z);
+        weights.push(pose[i].visibility ?? 1);
+    });
+    return { values, weights, dims: 3 };
+}
+
+/**
+ * Visibility-weighted mean distance between two frames: torso lengths in position space, radians in angle space
+ */
+export function featureDistance(a: PoseFeatures, b: PoseFeatures): number {
+    if (a.values.length !== b.values.length || a.dims !== b.dims) return Infinity;
+
+    let weighted = 0;
+    let totalWeight = 0;
+    let unweighted = 0;
+    for (let g = 0; g < a.weights.length; g++) {
+        let squared = 0;
+        for (let d = 0; d < a.dims; d++) {
+            const diff = a.values[g * a.dims + d] - b.values[g * a.dims + d];
+            squared += diff * diff;
+        }
+        const distance = Math.sqrt(squared);
+        const weight = Math.min(a.weights[g], b.weights[g]);
+        weighted += weight * distance;
+        totalWeight += weight;
+        unweighted += distance;
+    }
+
+    if (a.weights.length === 0) return 0;
+
+    // Nothing reliably visible in either frame: fall back to an unweighted comparison
+    return totalWeight > 0 ? weighted / totalWeight : unweighted / a.weights.length;
+}
@@ -0,0 +1,114 @@
+// Program scheduling and progression rules; persistence lives in db.ts
+import { PlanCompletion, ProgramDay, ProgramItem, ProgressionRule, WorkoutProgram } from '@/types';
+import { daysBetween, toDateKey } from './Calendar';
+
+export interface PlanItemStatus {
+    item: ProgramItem;
+    itemIndex: number;
+    setsDone: number;
+    isComplete: boolean;
+}
+
+export interface TodaysPlan {
+    program: WorkoutProgram;
+    dayIndex: number;
+    day: ProgramDay;
+    items: PlanItemStatus[];
+}
+
+// What a finished session did to today's plan
+export interface PlanProgress {
+    item: ProgramItem;
+    setsCounted: number; // 0 when every set fell short of the target
+    setsDone: number;
+    isComplete: boolean;
+    progressedTo: number | null; // new target when the progression rule fired
+}
+
+export function getProgramDayIndex(program: WorkoutProgram, today: string = toDateKey(new Date())): number {
+    return daysBetween(program.startDate, today);
+}
+
+export function isProgramFinished(program: WorkoutProgram, today: string = toDateKey(new Date())): boolean {
+    return getProgramDayIndex(program, today) >= program.days.length;
+}
+
+/**
+ * The program day that falls on `today`, with sets already ticked; null outside the program
+ */
+export function getTodaysPlan(
+    program: WorkoutProgram,
+    completions: PlanCompletion[],
+    today: string = toDateKey(new Date())
+): TodaysPlan | null {
+    const dayIndex = getProgramDayIndex(program, today);
+    const day = program.days[dayIndex];
+    if (!day) return null;
+
+    const done = completions.filter(c => c.programId === program.id && c.dayIndex === dayIndex);
+    return {
+        program,
+        dayIndex,
+        day,
+        items: day.items.map((item, itemIndex) => {
+            const setsDone = done.filter(c => c.itemIndex === itemIndex).length;
+            return { item, itemIndex, setsDone, isComplete: setsDone >= item.sets };
+        }),
+    };
+}
+
+/**
+ * The item a session of this exercise counts towards: the first one still open, in plan order
+ */
+export function matchPlanItem(plan: TodaysPlan, exerciseId: string): PlanItemStatus | undefined {
+    return plan.items.find(s => s.item.exerciseId === exerciseId && !s.isComplete);
+}
+
+/**
+ * The next open item of a circuit through today's plan: the first one after `itemIndex`, wrapping
+ * round to any skipped earlier
+ */
+export function getNextPlanItem(plan: TodaysPlan, itemIndex: number): PlanItemStatus | undefined {
+    const open = plan.items.filter(s => !s.isComplete && s.itemIndex !== itemIndex);
+    return open.find(s => s.itemIndex > itemIndex) ?? open[0];
+}
+
+export function getProgressionRule(program: WorkoutProgram, item: ProgramItem): ProgressionRule {
+    return item.progression ?? program.progression;
+}
+
+/**
+ * The raised target once the last `rule.sessions` sessions at the current target all reached the
+ * form threshold, each judged by its weakest set; null if the rule hasn't fired or the target is
+ * already capped
+ */
+export function nextTarget(rule: ProgressionRule, item: ProgramItem, completions: PlanCompletion[]): number | null {
+    // Completions are one per set, so fold them into one lowest form score per session
+    const sessions = new Map<number, number>();
+    completions
+        .filter(c => c.exerciseId === item.exerciseId && c.target === item.targetReps)
+        .forEach(c => sessions.set(c.sessionId, Math.min(sessions.get(c.sessionId) ?? Infinity, c.formScore)));
+    const recent = Array.from(sessions.values()).slice(-rule.sessions);
+    if (recent.length < rule.sessions || recent.some(score => score < rule.minFormScore)) return null;
+
+    const target = Math.min(rule.maxTarget, item.targetReps + rule.increment);
+    return target > item.targetReps ? target : null;
+}
+
+/**
+ * Raise the target of each item for an exercise whose own rule has fired; items at other
+ * targets, or with stricter rules, keep theirs
+ */
+export function applyProgression(program: WorkoutProgram, exerciseId: string, completions: PlanCompletion[]): WorkoutProgram {
+    return {
+        ...program,
+        days: program.days.map(day => ({
+            ...day,
+            items: day.items.map(item => {
+                if (item.exerciseId !== exerciseId) return item;
+                const target = nextTarget(getProgressionRule(program, item), item, completions);
+                return target === null ? item : { ...item, targetReps: target };
+            }),
+        })),
+    };
+}
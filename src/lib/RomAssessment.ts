@@ -0,0 +1,92 @@
+// Active range-of-motion capture for the assessment mode
+import { Landmark3D, LandmarkTriplet, PoseLandmark, RomJoint, RomTestDefinition } from '@/types';
+import { getElbowAngle, getHipAngle, getKneeAngle, getShoulderAngle, getTriplet } from './Biometrics';
+
+const MIN_VISIBILITY = 0.5;
+const MEDIAN_WINDOW = 5; // frames; rejects single-frame tracking spikes at the peak
+
+const jointAngles: Record<RomJoint, (landmarks: Landmark3D[], side: 'left' | 'right') => number> = {
+    shoulder: getShoulderAngle,
+    elbow: getElbowAngle,
+    hip: getHipAngle,
+    knee: getKneeAngle,
+};
+
+// Left-side landmarks each joint angle depends on
+const jointTriplets: Record<RomJoint, LandmarkTriplet> = {
+    shoulder: [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW],
+    elbow: [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_ELBOW, PoseLandmark.LEFT_WRIST],
+    hip: [PoseLandmark.LEFT_SHOULDER, PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE],
+    knee: [PoseLandmark.LEFT_HIP, PoseLandmark.LEFT_KNEE, PoseLandmark.LEFT_ANKLE],
+};
+
+/**
+ * Goniometric reading for one frame, or null when the joint is not reliably visible
+ */
+export function measureRom(test: RomTestDefinition, landmarks: Landmark3D[], side: 'left' | 'right'): number | null {
+    const visible = getTriplet(jointTriplets[test.joint], side)
+        .every(i => (landmarks[i]?.visibility ?? 0) >= MIN_VISIBILITY);
+    if (!visible) return null;
+
+    const angle = jointAngles[test.joint](landmarks, side);
+    if (angle < 0) return null;
+
+    switch (test.convention) {
+        case 'flexion':
+            return 180 - angle;
+        case 'extension':
+            return angle - 180;
+        default:
+            return angle;
+    }
+}
+
+/**
+ * Tracks the peak active ROM of one test on one side
+ */
+export class RomCapture {
+    private test: RomTestDefinition;
+    private side: 'left' | 'right';
+    private window: number[] = [];
+    private peak: number | null = null;
+
+    constructor(test: RomTestDefinition, side: 'left' | 'right') {
+        this.test = test;
+        this.side = side;
+    }
+
+    /**
+     * Record one frame; returns the filtered reading or null when the joint is not visible
+     */
+    addFrame(landmarks: Landmark3D[]): number | null {
+        const reading = measureRom(this.test, landmarks, this.side);
+        if (reading === null) return null;
+
+        this.window.push(reading);
+        if (this.window.length > MEDIAN_WINDOW) this.window.shift();
+
+        const sorted = [...this.window].sort((a, b) => a - b);
+        const median = sorted[Math.floor(sorted.length / 2)];
+        if (this.window.length === MEDIAN_WINDOW && (this.peak === null || median > this.peak)) {
+            this.peak = median;
+        }
+        return median;
+    }
+
+    getPeak(): number | null {
+        return this.peak === null ? null : Math.round(this.peak);
+    }
+
+    reset(): void {
+        this.window = [];
+        this.peak = null;
+    }
+}
+
+/**
+ * Share of the normal range reached; extension tests score the lag against full extension
+ */
+export function percentOfNormal(test: RomTestDefinition, peakAngle: number): number {
+    if (test.convention === 'extension') return Math.max(0, Math.round(100 + peakAngle));
+    return Math.round((peakAngle / test.normalRange) * 100);
+}
@@ -104,6 +104,26 @@ class VoiceAssistant {
         this.lastMotivationalTime = now;
     }
 
+    announceSet(set: number, totalSets: number) {
+        this.speak(`Set ${set} of ${totalSets}`, true);
+    }
+
+    announceRest(seconds: number) {
+        this.speak(`Rest for ${seconds} seconds.`);
+    }
+
+    announceNext(exerciseName: string) {
+        this.speak(`Next up: ${exerciseName}.`);
+    }
+
+    announceHaltCheckIn() {
+        this.speak("Rest is over. How is your pain now?", true);
+    }
+
+    announceResume(target: number) {
+        this.speak(`Resuming gently. Stop at ${target}.`, true);
+    }
+
     onComplete() {
         this.speak("Workout complete! Fantastic job today.", true);
     }
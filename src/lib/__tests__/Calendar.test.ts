@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { addDays, daysBetween, toDateKey } from '../Calendar';
+import { buildDailyStats, computeStreakHistory } from '../db';
+import { WorkoutSession } from '@/types';
+
+interface Zone {
+    tz: string;
+    springForward: string; // the 23-hour day
+    fallBack: string; // the 25-hour day
+    // Local day of two UTC instants, one just before and one just after midnight somewhere
+    lateEveningInNewYork: string; // 2024-03-02T04:30Z, 23:30 on 1 March in New York
+    lateEveningInTokyo: string; // 2024-03-01T14:59Z, 23:59 on 1 March in Tokyo
+}
+
+// Tokyo has no DST, so its dates are ordinary days and must behave the same
+const zones: Zone[] = [
+    { tz: 'America/New_York', springForward: '2024-03-10', fallBack: '2024-11-03', lateEveningInNewYork: '2024-03-01', lateEveningInTokyo: '2024-03-01' },
+    { tz: 'Europe/London', springForward: '2024-03-31', fallBack: '2024-10-27', lateEveningInNewYork: '2024-03-02', lateEveningInTokyo: '2024-03-01' },
+    { tz: 'Asia/Tokyo', springForward: '2024-03-10', fallBack: '2024-11-03', lateEveningInNewYork: '2024-03-02', lateEveningInTokyo: '2024-03-01' },
+];
+
+function session(date: Date, reps: number): WorkoutSession {
+    return { date, exerciseId: 'squat', reps, formScore: 80, duration: 60 };
+}
+
+describe.each(zones)('in $tz', zone => {
+    const originalTz = process.env.TZ;
+
+    beforeAll(() => {
+        process.env.TZ = zone.tz;
+    });
+
+    afterAll(() => {
+        process.env.TZ = originalTz;
+    });
+
+    it('runs under the requested zone', () => {
+        expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(zone.tz);
+    });
+
+    describe('toDateKey', () => {
+        it('keeps the minute before local midnight on the earlier day', () => {
+            expect(toDateKey(new Date(2024, 2, 1, 23, 59, 59))).toBe('2024-03-01');
+            expect(toDateKey(new Date(2024, 2, 2, 0, 0, 0))).toBe('2024-03-02');
+        });
+
+        it('files the same instant under the local day', () => {
+            expect(toDateKey(new Date('2024-03-02T04:30:00Z'))).toBe(zone.lateEveningInNewYork);
+            expect(toDateKey(new Date('2024-03-01T14:59:00Z'))).toBe(zone.lateEveningInTokyo);
+        });
+
+        it('covers both ends of the DST days', () => {
+            for (const key of [zone.springForward, zone.fallBack]) {
+                const [year, month, day] = key.split('-').map(Number);
+                expect(toDateKey(new Date(year, month - 1, day, 0, 0))).toBe(key);
+                expect(toDateKey(new Date(year, month - 1, day, 23, 59))).toBe(key);
+            }
+        });
+    });
+
+    describe('addDays and daysBetween', () => {
+        it('counts the DST days as one day each', () => {
+            for (const key of [zone.springForward, zone.fallBack]) {
+                const before = addDays(key, -1);
+                const after = addDays(key, 1);
+                expect(addDays(before, 1)).toBe(key);
+                expect(daysBetween(before, key)).toBe(1);
+                expect(daysBetween(key, after)).toBe(1);
+                expect(daysBetween(after, before)).toBe(-2);
+            }
+        });
+
+        it('steps through a year without skipping or repeating a key', () => {
+            const keys: string[] = [];
+            // Bounded, so a key that repeats fails the test instead of looping forever
+            for (let key = '2024-01-01'; key < '2025-01-01' && keys.length <= 366; key = addDays(key, 1)) keys.push(key);
+
+            expect(keys).toHaveLength(366);
+            expect(new Set(keys).size).toBe(366);
+            expect(keys).toContain(zone.springForward);
+            expect(keys).toContain(zone.fallBack);
+            expect(daysBetween('2024-01-01', '2025-01-01')).toBe(366);
+        });
+
+        it('moves across several DST changes at once', () => {
+            expect(addDays('2024-01-15', 300)).toBe('2024-11-10');
+            expect(addDays('2024-11-10', -300)).toBe('2024-01-15');
+        });
+    });
+
+    describe('buildDailyStats', () => {
+        it('splits sessions either side of local midnight into their own days', () => {
+            const stats = buildDailyStats([
+                session(new Date(2024, 2, 1, 23, 55), 10),
+                session(new Date(2024, 2, 2, 0, 5), 6),
+            ]);
+            expect(stats.map(s => [s.date, s.totalReps])).toEqual([['2024-03-01', 10], ['2024-03-02', 6]]);
+        });
+
+        it('buckets a UTC timestamp by the local day', () => {
+            const stats = buildDailyStats([session(new Date('2024-03-02T04:30:00Z'), 10)]);
+            expect(stats.map(s => s.date)).toEqual([zone.lateEveningInNewYork]);
+        });
+
+        it('gives a DST day one row', () => {
+            const [year, month, day] = zone.fallBack.split('-').map(Number);
+            const stats = buildDailyStats([
+                session(new Date(year, month - 1, day, 0, 30), 4),
+                session(new Date(year, month - 1, day, 23, 30), 5),
+            ]);
+            expect(stats).toHaveLength(1);
+            expect(stats[0]).toMatchObject({ date: zone.fallBack, totalReps: 9, exerciseCount: 2 });
+        });
+    });
+
+    describe('computeStreakHistory', () => {
+        it('keeps a run going across midnight-adjacent sessions', () => {
+            const days = buildDailyStats([
+                session(new Date(2024, 2, 1, 23, 59), 5),
+                session(new Date(2024, 2, 2, 0, 1), 5),
+            ]).map(s => s.date);
+            const { streak } = computeStreakHistory(days, undefined, '2024-03-02');
+            expect(streak?.currentStreak).toBe(2);
+        });
+
+        it.each(['springForward', 'fallBack'] as const)('keeps a run going through the %s day', change => {
+            const start = addDays(zone[change], -3);
+            const days = Array.from({ length: 7 }, (_, i) => addDays(start, i));
+
+            const { segments, streak } = computeStreakHistory(days, undefined, days[6]);
+
+            expect(segments).toEqual([{ startDate: days[0], endDate: days[6], activeDays: 7, frozenDays: [] }]);
+            expect(streak).toMatchObject({ currentStreak: 7, longestStreak: 7, freezesAvailable: 1 });
+        });
+
+        it('breaks a run on a missed DST day', () => {
+            const before = addDays(zone.springForward, -1);
+            const after = addDays(zone.springForward, 1);
+
+            const { segments, streak } = computeStreakHistory([before, after], undefined, after);
+
+            expect(segments.map(s => [s.startDate, s.endDate])).toEqual([[before, before], [after, after]]);
+            expect(streak?.currentStreak).toBe(1);
+        });
+    });
+});
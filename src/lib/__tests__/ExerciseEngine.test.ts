@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseEngine } from '../ExerciseEngine';
+import { CALIBRATION_MS } from '../CalibrationProfile';
+import { Landmark3D } from '@/types';
+
+// A still, fully visible pose; enough for the engine to calibrate and track frames
+const pose: Landmark3D[] = Array.from({ length: 33 }, (_, i) => ({
+    x: 0.3 + (i % 5) * 0.1,
+    y: 0.1 + Math.floor(i / 5) * 0.12,
+    z: 0,
+    visibility: 1,
+}));
+
+/**
+ * Run a full calibration, skipping the T-pose, and return the time of the last frame
+ */
+function calibrate(engine: ExerciseEngine): number {
+    let t = 0;
+    for (; t <= CALIBRATION_MS + 100; t += 100) engine.processFrame(pose, t);
+    engine.skipBodyCalibration();
+    return t;
+}
+
+describe('ExerciseEngine set boundaries', () => {
+    it('keeps the calibration between sets', () => {
+        const engine = new ExerciseEngine('squat');
+        let t = calibrate(engine);
+        expect(engine.getState().isCalibrating).toBe(false);
+
+        for (const end = t + 2000; t < end; t += 33) engine.processFrame(pose, t);
+        engine.resetSet();
+
+        const state = engine.getState();
+        expect(state.isCalibrating).toBe(false);
+        expect(state).toMatchObject({ phase: 'IDLE', repCount: 0, repMetrics: [], repQuality: [] });
+        expect(engine.getSessionSummary()).toMatchObject({ reps: 0, painEvents: [] });
+
+        // The next frame is analysed straight away
+        engine.processFrame(pose, t + 5000);
+        expect(engine.getState().safetyLog.status).not.toBe('Calibrating');
+    });
+
+    it('recalibrates on a full reset', () => {
+        const engine = new ExerciseEngine('squat');
+        calibrate(engine);
+
+        engine.reset();
+
+        expect(engine.getState()).toMatchObject({ isCalibrating: true, calibrationProgress: 0 });
+    });
+
+    it('falls back to a full reset when calibration never finished', () => {
+        const engine = new ExerciseEngine('squat');
+        engine.processFrame(pose, 0);
+        engine.processFrame(pose, 1000);
+
+        engine.resetSet();
+
+        expect(engine.getState()).toMatchObject({ isCalibrating: true, calibrationProgress: 0 });
+    });
+});
@@ -0,0 +1,143 @@
+import Dexie from 'dexie';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { FhirBundle, FhirExportData, FhirObservation, buildFhirBundle, exportFhirBundle, validateFhirBundle } from '../FhirExport';
+import { DB_NAME, db, getFhirPatientId } from '../db';
+import { getAllExercises } from '@/data/exercises';
+import { RepRecord } from '@/types';
+
+const PATIENT_ID = '0b6a1a53-3c55-4a7e-9a5e-2f8f0c1d2e3f';
+
+function rep(sessionId: number, rep: number, painLevel: number): RepRecord {
+    return {
+        sessionId,
+        exerciseId: 'squat',
+        date: new Date('2024-03-01T12:00:00Z'),
+        rep,
+        startTime: rep * 2000,
+        endTime: rep * 2000 + 1500,
+        minAngle: 85,
+        maxAngle: 170,
+        rangeOfMotion: 85,
+        concentricMs: 700,
+        eccentricMs: 800,
+        peakAngularVelocity: 140,
+        symmetryScore: 92,
+        formScore: 84,
+        painLevel,
+    };
+}
+
+const fixture: FhirExportData = {
+    patientId: PATIENT_ID,
+    sessions: [
+        {
+            id: 1,
+            date: new Date('2024-03-01T12:00:00Z'),
+            exerciseId: 'squat',
+            reps: 2,
+            formScore: 84,
+            duration: 95,
+            qualityScore: 78,
+            outcomes: { painBefore: 3, painAfter: 2, rpe: 13, notes: 'Left knee felt tight' },
+        },
+        { id: 2, date: new Date('2024-03-02T09:30:00Z'), exerciseId: 'plank', reps: 30, formScore: 91, duration: 30 },
+    ],
+    dailyStats: [
+        { date: '2024-03-01', totalReps: 2, avgFormScore: 84, exerciseCount: 1, totalDuration: 95, exercises: { squat: 2 } },
+        { date: '2024-03-02', totalReps: 30, avgFormScore: 91, exerciseCount: 1, totalDuration: 30, exercises: { plank: 30 } },
+    ],
+    // Camera pain per rep, which the export turns into a pain estimate Observation
+    reps: [rep(1, 1, 20), rep(1, 2, 45)],
+    romMeasurements: [
+        { id: 1, assessmentId: 'a1', date: new Date('2024-03-03T10:00:00Z'), testId: 'shoulder-flexion', side: 'left', peakAngle: 152, normalRange: 180 },
+        { id: 2, assessmentId: 'a1', date: new Date('2024-03-03T10:01:00Z'), testId: 'shoulder-flexion', side: 'right', peakAngle: 165, normalRange: 180 },
+    ],
+    exercises: getAllExercises(),
+};
+
+const observations = (bundle: FhirBundle) =>
+    bundle.entry.map(entry => entry.resource).filter((r): r is FhirObservation => r.resourceType === 'Observation');
+
+describe('buildFhirBundle', () => {
+    it('produces a bundle the validator accepts', () => {
+        const bundle = buildFhirBundle(fixture, { patientIdentifier: 'MRN-1234' });
+
+        expect(validateFhirBundle(bundle)).toEqual([]);
+        // 2 sessions, 1 camera pain estimate, 3 check-in answers, 2 daily summaries, 2 ROM measurements
+        expect(observations(bundle)).toHaveLength(10);
+    });
+
+    it('references the same Patient from every Observation', () => {
+        const bundle = buildFhirBundle(fixture);
+
+        expect(bundle.entry[0].resource).toMatchObject({ resourceType: 'Patient', id: PATIENT_ID });
+        expect(new Set(observations(bundle).map(o => o.subject.reference))).toEqual(new Set([`urn:uuid:${PATIENT_ID}`]));
+    });
+
+    it('codes reported pain with LOINC 72514-3', () => {
+        const pain = observations(buildFhirBundle(fixture)).filter(o => o.code.coding?.[0].code === '72514-3');
+        expect(pain.map(o => o.valueQuantity?.value)).toEqual([3, 2]);
+    });
+});
+
+describe('validateFhirBundle', () => {
+    const bundle = () => structuredClone(buildFhirBundle(fixture));
+    const firstObservation = (b: FhirBundle) => observations(b)[0];
+    // Observations share their code constants, so recode just the first one
+    const recode = (b: FhirBundle, code: string) => {
+        const observation = firstObservation(b);
+        observation.code = { ...observation.code, coding: [{ ...observation.code.coding![0], code }] };
+    };
+
+    it('rejects an Observation without a subject reference', () => {
+        const b = bundle();
+        delete (firstObservation(b) as Partial<FhirObservation>).subject;
+        expect(validateFhirBundle(b)).toEqual(['entry[1].resource.subject must reference a resource in the bundle']);
+    });
+
+    it('rejects a subject that points outside the bundle', () => {
+        const b = bundle();
+        firstObservation(b).subject.reference = 'urn:uuid:00000000-0000-0000-0000-000000000000';
+        expect(validateFhirBundle(b)).toEqual(['entry[1].resource.subject must reference a resource in the bundle']);
+    });
+
+    it('rejects a LOINC code with a wrong check digit', () => {
+        const b = bundle();
+        recode(b, '73985-5');
+        expect(validateFhirBundle(b)).toEqual(['entry[1].resource.code.coding[0] "73985-5" is not a valid LOINC code']);
+    });
+
+    it('rejects a malformed LOINC code', () => {
+        const b = bundle();
+        recode(b, 'exercise');
+        expect(validateFhirBundle(b)).toEqual(['entry[1].resource.code.coding[0] "exercise" is not a valid LOINC code']);
+    });
+
+    it('rejects a fullUrl that is not a urn:uuid', () => {
+        const b = bundle();
+        b.entry[1].fullUrl = `https://example.org/fhir/Observation/${b.entry[1].resource.id}`;
+        const errors = validateFhirBundle(b);
+        expect(errors).toContain('entry[1].fullUrl must be a urn:uuid');
+    });
+});
+
+describe('exportFhirBundle', () => {
+    beforeEach(async () => {
+        db.close();
+        await Dexie.delete(DB_NAME);
+        await db.open();
+    });
+
+    afterAll(() => {
+        db.close();
+    });
+
+    it('keeps the same Patient id across exports', async () => {
+        const first = await exportFhirBundle();
+        const second = await exportFhirBundle();
+
+        expect(first.entry[0].resource.id).toBe(await getFhirPatientId());
+        expect(second.entry[0].resource.id).toBe(first.entry[0].resource.id);
+        expect(validateFhirBundle(second)).toEqual([]);
+    });
+});
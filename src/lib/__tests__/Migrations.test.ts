@@ -0,0 +1,136 @@
+import Dexie from 'dexie';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { schemaMigrations } from '../Migrations';
+import { DB_NAME, db, runBackfills } from '../db';
+import { DailyStats } from '@/types';
+
+interface Fixture {
+    sessions: object[];
+    dailyStats: Partial<DailyStats>[];
+    streaks: object[];
+    reps?: object[];
+    romMeasurements?: object[];
+}
+
+const LATEST = schemaMigrations[schemaMigrations.length - 1].version;
+
+/**
+ * Create the database as an older release left it: the schema up to `version`, with rows in it
+ */
+async function seedFixture(version: number, rows: Fixture): Promise<void> {
+    const fixture = new Dexie(DB_NAME);
+    schemaMigrations
+        .filter(migration => migration.version <= version)
+        .forEach(migration => fixture.version(migration.version).stores(migration.stores));
+    await fixture.open();
+    for (const [table, records] of Object.entries(rows) as [string, object[]][]) {
+        await fixture.table(table).bulkAdd(records);
+    }
+    fixture.close();
+}
+
+const indexNames = (table: string) => db.table(table).schema.indexes.map(index => index.name).sort();
+const withoutIds = <T extends { id?: number }>(rows: T[]) => rows.map(({ id: _id, ...row }) => row);
+
+// Local noon and evening, so every time zone files them under the same day
+const sessions = [
+    { date: new Date(2024, 2, 1, 12), exerciseId: 'squat', reps: 10, formScore: 80, duration: 60 },
+    { date: new Date(2024, 2, 1, 18), exerciseId: 'lunge', reps: 6, formScore: 90, duration: 40 },
+    { date: new Date(2024, 2, 2, 12), exerciseId: 'squat', reps: 12, formScore: 70, duration: 70 },
+    { date: new Date(2024, 2, 5, 9), exerciseId: 'pushup', reps: 8, formScore: 60, duration: 30 },
+];
+
+// Rows as the sessions above should produce them, whatever the fixture stored before
+const expectedDailyStats = [
+    { date: '2024-03-01', totalReps: 16, avgFormScore: 85, exerciseCount: 2, totalDuration: 100, exercises: { squat: 10, lunge: 6 } },
+    { date: '2024-03-02', totalReps: 12, avgFormScore: 70, exerciseCount: 1, totalDuration: 70, exercises: { squat: 12 } },
+    { date: '2024-03-05', totalReps: 8, avgFormScore: 60, exerciseCount: 1, totalDuration: 30, exercises: { pushup: 8 } },
+];
+
+// 3 March is a missed training day with no freeze banked, so it splits the run
+const expectedSegments = [
+    { startDate: '2024-03-01', endDate: '2024-03-02', activeDays: 2, frozenDays: [] },
+    { startDate: '2024-03-05', endDate: '2024-03-05', activeDays: 1, frozenDays: [] },
+];
+
+// One-row-per-reset streak record from before version 8
+const legacyStreak = { lastActiveDate: '2024-03-05', currentStreak: 1, longestStreak: 2 };
+
+const v1Rows: Fixture = {
+    sessions,
+    // Version 1 rows had no exercises map, and these totals are stale
+    dailyStats: [
+        { date: '2024-03-01', totalReps: 10, avgFormScore: 80, exerciseCount: 1, totalDuration: 60 },
+        { date: '2024-03-02', totalReps: 12, avgFormScore: 70, exerciseCount: 1, totalDuration: 70 },
+    ],
+    streaks: [legacyStreak],
+};
+
+const v5Rows: Fixture = {
+    sessions,
+    dailyStats: [
+        { date: '2024-03-01', totalReps: 16, avgFormScore: 85, exerciseCount: 2, totalDuration: 100, exercises: { squat: 10, lunge: 6 } },
+        { date: '2024-03-02', totalReps: 12, avgFormScore: 70, exerciseCount: 1, totalDuration: 70 },
+    ],
+    streaks: [legacyStreak],
+    reps: [{ sessionId: 1, exerciseId: 'squat', date: new Date(2024, 2, 1, 12), repNumber: 1 }],
+    romMeasurements: [{ assessmentId: 'a1', testId: 'knee-flexion', date: new Date(2024, 2, 1, 12), side: 'left', value: 120 }],
+};
+
+describe('schema migrations', () => {
+    beforeEach(async () => {
+        db.close();
+        await Dexie.delete(DB_NAME);
+    });
+
+    afterAll(() => {
+        db.close();
+    });
+
+    describe.each([
+        { name: 'v1', version: 1, rows: v1Rows },
+        { name: 'v5', version: 5, rows: v5Rows },
+    ])('from a $name database', ({ version, rows }) => {
+        beforeEach(async () => {
+            await seedFixture(version, rows);
+            await db.open();
+        });
+
+        it(`opens at version ${LATEST} with every session kept`, async () => {
+            expect(db.verno).toBe(LATEST);
+            expect(await db.sessions.count()).toBe(sessions.length);
+        });
+
+        it('keeps only id, date and exercise indexes (v6)', () => {
+            expect(indexNames('sessions')).toEqual(['date', 'exerciseId']);
+            expect(indexNames('dailyStats')).toEqual([]);
+        });
+
+        it('gives daily stats rows without one an exercises map (v7)', async () => {
+            const stored = await db.dailyStats.toArray();
+            expect(stored.map(row => row.exercises)).toEqual(rows.dailyStats.map(row => row.exercises ?? {}));
+        });
+
+        it('clears the old streak records (v8)', async () => {
+            expect(await db.streaks.count()).toBe(0);
+        });
+
+        it('rebuilds daily stats and streak segments from sessions in the backfills', async () => {
+            await runBackfills();
+
+            expect(await db.dailyStats.orderBy('date').toArray()).toEqual(expectedDailyStats);
+            expect(withoutIds(await db.streaks.orderBy('startDate').toArray())).toEqual(expectedSegments);
+            expect((await db.settings.get('backfills'))?.value).toEqual([
+                'dailyStats-from-sessions', 'dailyStats-local-days', 'streaks-from-sessions', 'streak-segments',
+            ]);
+        });
+    });
+
+    it('keeps per-rep and ROM rows from a v5 database', async () => {
+        await seedFixture(5, v5Rows);
+        await db.open();
+
+        expect(await db.reps.count()).toBe(1);
+        expect(withoutIds(await db.romMeasurements.toArray())).toEqual(v5Rows.romMeasurements);
+    });
+});
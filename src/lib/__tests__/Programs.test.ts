@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { applyProgression, nextTarget } from '../Programs';
+import { PlanCompletion, ProgramItem, WorkoutProgram } from '@/types';
+
+const squat = (targetReps: number, progression?: ProgramItem['progression']): ProgramItem =>
+    ({ exerciseId: 'squat', sets: 2, targetReps, restSeconds: 60, ...(progression && { progression }) });
+
+const program: WorkoutProgram = {
+    id: 'p1',
+    templateId: 'test',
+    name: 'Test',
+    description: '',
+    startDate: '2024-03-01',
+    status: 'active',
+    progression: { minFormScore: 80, sessions: 2, increment: 2, maxTarget: 20 },
+    days: [
+        { name: 'A', items: [squat(8), { exerciseId: 'lunge', sets: 2, targetReps: 6, restSeconds: 60 }] },
+        { name: 'B', items: [squat(10)] },
+        { name: 'C', items: [squat(8, { minFormScore: 95, sessions: 2, increment: 2, maxTarget: 20 })] },
+    ],
+};
+
+function completion(sessionId: number, set: number, formScore: number, target = 8): PlanCompletion {
+    return {
+        programId: 'p1',
+        date: '2024-03-01',
+        dayIndex: 0,
+        itemIndex: 0,
+        exerciseId: 'squat',
+        sessionId,
+        set,
+        target,
+        reps: target,
+        formScore,
+    };
+}
+
+const targets = (p: WorkoutProgram) => p.days.map(day => day.items.map(item => item.targetReps));
+
+describe('nextTarget', () => {
+    const rule = program.progression;
+    const item = program.days[0].items[0];
+
+    it('counts a multi-set session once', () => {
+        expect(nextTarget(rule, item, [completion(1, 1, 90), completion(1, 2, 85)])).toBeNull();
+    });
+
+    it('fires after the required number of sessions', () => {
+        const completions = [completion(1, 1, 90), completion(1, 2, 85), completion(2, 1, 88), completion(2, 2, 82)];
+        expect(nextTarget(rule, item, completions)).toBe(10);
+    });
+
+    it('judges each session by its weakest set', () => {
+        const completions = [completion(1, 1, 90), completion(1, 2, 75), completion(2, 1, 88), completion(2, 2, 82)];
+        expect(nextTarget(rule, item, completions)).toBeNull();
+    });
+
+    it('looks only at the most recent sessions', () => {
+        const completions = [completion(1, 1, 60), completion(2, 1, 85), completion(2, 2, 90), completion(3, 1, 81)];
+        expect(nextTarget(rule, item, completions)).toBe(10);
+    });
+
+    it('stops at the rule cap', () => {
+        const capped = { ...rule, maxTarget: 8 };
+        expect(nextTarget(capped, item, [completion(1, 1, 90), completion(2, 1, 90)])).toBeNull();
+    });
+});
+
+describe('applyProgression', () => {
+    it('raises only the items whose own rule fired', () => {
+        const completions = [completion(1, 1, 85), completion(2, 1, 88)];
+        expect(targets(applyProgression(program, 'squat', completions))).toEqual([[10, 6], [10], [8]]);
+    });
+
+    it('leaves the program alone when no rule fired', () => {
+        const completions = [completion(1, 1, 85), completion(2, 1, 70)];
+        expect(targets(applyProgression(program, 'squat', completions))).toEqual(targets(program));
+    });
+
+    it('raises every item at the same target under the same rule', () => {
+        const completions = [completion(1, 1, 85, 10), completion(2, 1, 90, 10)];
+        expect(targets(applyProgression(program, 'squat', completions))).toEqual([[8, 6], [12], [8]]);
+    });
+});
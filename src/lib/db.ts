@@ -1,148 +1,486 @@
 // Dexie.js IndexedDB setup for local-only data persistence
 import Dexie, { Table } from 'dexie';
-import { WorkoutSession, DailyStats, StreakData } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    Anthropometry,
+    AppSetting,
+    BodySegments,
+    CalibrationBaseline,
+    CalibrationProfile,
+    CameraContext,
+    WorkoutSession,
+    DailyStats,
+    EncryptedPayload,
+    EncryptionConfig,
+    StreakData,
+    StreakSegment,
+    ExerciseDefinition,
+    GoldStandardSequence,
+    PainEventRecord,
+    PlanCompletion,
+    ProgramTemplate,
+    RepRecord,
+    ReportData,
+    RomMeasurement,
+    SessionOutcomes,
+    SessionSummary,
+    WorkoutProgram
+} from '@/types';
+import { setCustomExercises } from '@/data/exercises';
+import {
+    PBKDF2_ITERATIONS,
+    decryptJson,
+    deriveKey,
+    encryptJson,
+    generateSalt,
+    getActiveKey,
+    setActiveKey
+} from './Encryption';
+import { schemaMigrations } from './Migrations';
+import { addDays, fromDateKey, toDateKey } from './Calendar';
+import {
+    PlanProgress,
+    applyProgression,
+    getProgressionRule,
+    getTodaysPlan,
+    isProgramFinished,
+    matchPlanItem,
+    nextTarget
+} from './Programs';
+import { correlatePain, hasOutcomes } from './Outcomes';
+
+export const DB_NAME = 'PhysioAIDB';
 
 export class PhysioDatabase extends Dexie {
     sessions!: Table<WorkoutSession>;
     dailyStats!: Table<DailyStats>;
-    streaks!: Table<StreakData>;
+    streaks!: Table<StreakSegment, number>;
+    customExercises!: Table<ExerciseDefinition, string>;
+    goldStandards!: Table<GoldStandardSequence, string>;
+    reps!: Table<RepRecord, number>;
+    romMeasurements!: Table<RomMeasurement, number>;
+    settings!: Table<AppSetting, string>;
+    programs!: Table<WorkoutProgram, string>;
+    planCompletions!: Table<PlanCompletion, number>;
+    painEvents!: Table<PainEventRecord, number>;
+    calibrationProfiles!: Table<CalibrationProfile, string>;
 
     constructor() {
-        super('PhysioAIDB');
+        super(DB_NAME);
 
-        this.version(1).stores({
-            sessions: '++id, date, exerciseId, reps, formScore, duration',
-            dailyStats: 'date, totalReps, avgFormScore, exerciseCount, totalDuration',
-            streaks: '++id, lastActiveDate, currentStreak, longestStreak'
+        schemaMigrations.forEach(({ version, stores, upgrade }) => {
+            const schema = this.version(version).stores(stores);
+            if (upgrade) schema.upgrade(upgrade);
         });
     }
 }
 
 export const db = new PhysioDatabase();
 
+// Encryption at rest
+
+// Health data tables; everything except the primary key and indexed fields is sealed
+const ENCRYPTED_TABLES = [
+    'sessions', 'dailyStats', 'reps', 'romMeasurements', 'planCompletions', 'painEvents', 'calibrationProfiles',
+];
+const ENCRYPTION_SETTING = 'encryption';
+const BACKFILLS_SETTING = 'backfills';
+const STREAK_SCHEDULE_SETTING = 'streakSchedule';
+const FHIR_PATIENT_SETTING = 'fhirPatientId';
+const VERIFIER = 'physio-ai';
+
+// Settings that describe this browser's copy of the data rather than the data itself
+export const DEVICE_SETTINGS = [ENCRYPTION_SETTING, BACKFILLS_SETTING];
+
+type StoredRecord = Record<string, unknown> & { sealed?: EncryptedPayload };
+
+function plainFields(table: Table): string[] {
+    return [table.schema.primKey, ...table.schema.indexes].map(index => index.name);
+}
+
+/**
+ * Encrypt a record for storage, leaving only its key and indexed fields readable.
+ * With no key (encryption off) the record is stored as is.
+ */
+export async function sealRecord<T>(table: Table, record: T, key: CryptoKey | null = getActiveKey()): Promise<T> {
+    if (!key || !ENCRYPTED_TABLES.includes(table.name)) return record;
+
+    const fields = plainFields(table);
+    const stored: StoredRecord = {};
+    const secret: Record<string, unknown> = {};
+    Object.entries(record as Record<string, unknown>).forEach(([field, value]) => {
+        if (fields.includes(field)) stored[field] = value;
+        else secret[field] = value;
+    });
+    stored.sealed = await encryptJson(key, secret);
+    return stored as T;
+}
+
+/**
+ * Decrypt stored records; plain records (written before encryption was enabled) pass through
+ */
+export async function openRecords<T>(records: T[], key: CryptoKey | null = getActiveKey()): Promise<T[]> {
+    return Promise.all(records.map(async record => {
+        const { sealed, ...plain } = record as unknown as StoredRecord;
+        if (!sealed) return record;
+        if (!key) throw new Error('The database is locked');
+        return { ...plain, ...(await decryptJson<Record<string, unknown>>(key, sealed)) } as T;
+    }));
+}
+
+export async function getEncryptionConfig(): Promise<EncryptionConfig | undefined> {
+    const setting = await db.settings.get(ENCRYPTION_SETTING);
+    return setting?.value as EncryptionConfig | undefined;
+}
+
+/**
+ * Derive the key for a passphrase and hold it in memory; false if the passphrase is wrong
+ */
+export async function unlockDatabase(passphrase: string): Promise<boolean> {
+    const config = await getEncryptionConfig();
+    if (!config) return true;
+
+    const key = await deriveKey(passphrase, config.salt, config.iterations);
+    try {
+        await decryptJson(key, config.verifier);
+    } catch {
+        return false;
+    }
+    setActiveKey(key);
+    return true;
+}
+
+export function lockDatabase(): void {
+    setActiveKey(null);
+}
+
+/**
+ * Re-encode every health record under a new key (or none) and store the matching config.
+ * Encryption runs before the transaction, since awaiting WebCrypto inside one lets IndexedDB commit it early.
+ */
+async function rewriteEncryptedTables(key: CryptoKey | null, config: EncryptionConfig | null): Promise<void> {
+    const tables = db.tables.filter(t => ENCRYPTED_TABLES.includes(t.name));
+    const rewritten = await Promise.all(tables.map(async table => {
+        const rows = await openRecords(await table.toArray());
+        return Promise.all(rows.map(row => sealRecord(table, row, key)));
+    }));
+
+    await db.transaction('rw', [...tables, db.settings], async () => {
+        for (let i = 0; i < tables.length; i++) {
+            await tables[i].bulkPut(rewritten[i]);
+        }
+        if (config) await db.settings.put({ key: ENCRYPTION_SETTING, value: config });
+        else await db.settings.delete(ENCRYPTION_SETTING);
+    });
+    setActiveKey(key);
+}
+
+/**
+ * Turn on encryption, or change the passphrase when it is already on (the database must be unlocked).
+ * Existing unencrypted records are migrated in the same pass.
+ */
+export async function setPassphrase(passphrase: string): Promise<void> {
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt);
+    await rewriteEncryptedTables(key, {
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await encryptJson(key, VERIFIER),
+    });
+}
+
+export async function disableEncryption(): Promise<void> {
+    await rewriteEncryptedTables(null, null);
+}
+
+/**
+ * Delete the whole database; the only way forward when the passphrase is lost
+ */
+export async function eraseAllData(): Promise<void> {
+    setActiveKey(null);
+    await db.delete();
+}
+
 // Helper functions for database operations
 
-export async function saveWorkoutSession(session: Omit<WorkoutSession, 'id'>): Promise<number> {
-    const id = await db.sessions.add(session as WorkoutSession);
+export async function saveWorkoutSession({ repMetrics, painEvents, ...session }: SessionSummary): Promise<number> {
+    // sessionId is an indexed field, so it stays writable after sealing
+    const sealedSession = await sealRecord(db.sessions, session as WorkoutSession);
+    const sealedReps = await Promise.all(repMetrics.map(rep => sealRecord(db.reps, {
+        ...rep,
+        sessionId: 0,
+        exerciseId: session.exerciseId,
+        date: session.date,
+    } as RepRecord)));
+    const sealedPainEvents = await Promise.all(painEvents.map(event => sealRecord(db.painEvents, {
+        ...event,
+        sessionId: 0,
+        exerciseId: session.exerciseId,
+        date: session.date,
+    } as PainEventRecord)));
+
+    const id = await db.transaction('rw', db.sessions, db.reps, db.painEvents, async () => {
+        const sessionId = await db.sessions.add(sealedSession) as number;
+        await db.reps.bulkAdd(sealedReps.map(rep => ({ ...rep, sessionId })));
+        await db.painEvents.bulkAdd(sealedPainEvents.map(event => ({ ...event, sessionId })));
+        return sessionId;
+    });
     await updateDailyStats(session);
     await updateStreak();
     return id as number;
 }
 
+/**
+ * Merge questionnaire answers into a saved session, e.g. the post-session check-in
+ */
+export async function saveSessionOutcomes(sessionId: number, outcomes: SessionOutcomes): Promise<void> {
+    const stored = await db.sessions.get(sessionId);
+    if (!stored) return;
+
+    const [session] = await openRecords([stored]);
+    await db.sessions.put(await sealRecord(db.sessions, { ...session, outcomes: { ...session.outcomes, ...outcomes } }));
+}
+
 export async function updateDailyStats(session: Omit<WorkoutSession, 'id'>): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
+    const day = toDateKey(new Date(session.date));
 
-    let stats = await db.dailyStats.get(today);
+    // Read-merge-write in one transaction so saves close together (e.g. a circuit moving on) can't
+    // overwrite each other. WebCrypto would let IndexedDB commit early, so it goes through waitFor.
+    await db.transaction('rw', db.dailyStats, async () => {
+        const stored = await db.dailyStats.get(day);
+        const stats = stored && (await Dexie.waitFor(openRecords([stored])))[0];
 
-    if (stats) {
-        const totalReps = stats.totalReps + session.reps;
-        const totalFormScore = stats.avgFormScore * stats.exerciseCount + session.formScore;
-        const exerciseCount = stats.exerciseCount + 1;
+        if (stats) {
+            const totalReps = stats.totalReps + session.reps;
+            const totalFormScore = stats.avgFormScore * stats.exerciseCount + session.formScore;
+            const exerciseCount = stats.exerciseCount + 1;
 
-        stats.totalReps = totalReps;
-        stats.avgFormScore = totalFormScore / exerciseCount;
-        stats.exerciseCount = exerciseCount;
-        stats.totalDuration += session.duration;
+            stats.totalReps = totalReps;
+            stats.avgFormScore = totalFormScore / exerciseCount;
+            stats.exerciseCount = exerciseCount;
+            stats.totalDuration += session.duration;
 
-        if (!stats.exercises) stats.exercises = {};
+            stats.exercises[session.exerciseId] = (stats.exercises[session.exerciseId] || 0) + session.reps;
+
+            await db.dailyStats.put(await Dexie.waitFor(sealRecord(db.dailyStats, stats)));
+        } else {
+            await db.dailyStats.add(await Dexie.waitFor(sealRecord(db.dailyStats, {
+                date: day,
+                totalReps: session.reps,
+                avgFormScore: session.formScore,
+                exerciseCount: 1,
+                totalDuration: session.duration,
+                exercises: { [session.exerciseId]: session.reps }
+            })));
+        }
+    });
+}
+
+/**
+ * Aggregate sessions into one dailyStats row per day
+ */
+export function buildDailyStats(sessions: WorkoutSession[]): DailyStats[] {
+    const days = new Map<string, DailyStats>();
+    sessions.forEach(session => {
+        const date = toDateKey(new Date(session.date));
+        const stats = days.get(date)
+            ?? { date, totalReps: 0, avgFormScore: 0, exerciseCount: 0, totalDuration: 0, exercises: {} };
+
+        stats.avgFormScore = (stats.avgFormScore * stats.exerciseCount + session.formScore) / (stats.exerciseCount + 1);
+        stats.exerciseCount += 1;
+        stats.totalReps += session.reps;
+        stats.totalDuration += session.duration;
         stats.exercises[session.exerciseId] = (stats.exercises[session.exerciseId] || 0) + session.reps;
+        days.set(date, stats);
+    });
+    return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
 
-        await db.dailyStats.put(stats);
-    } else {
-        await db.dailyStats.add({
-            date: today,
-            totalReps: session.reps,
-            avgFormScore: session.formScore,
-            exerciseCount: 1,
-            totalDuration: session.duration,
-            exercises: { [session.exerciseId]: session.reps }
-        });
+/**
+ * Replace every dailyStats row with totals recomputed from the sessions table
+ */
+export async function rebuildDailyStats(): Promise<void> {
+    const stats = await Promise.all(buildDailyStats(await getAllSessions()).map(s => sealRecord(db.dailyStats, s)));
+    await db.transaction('rw', db.dailyStats, async () => {
+        await db.dailyStats.clear();
+        await db.dailyStats.bulkAdd(stats);
+    });
+}
+
+/**
+ * Rebuilds of derived data that need decrypted records, so they can't run inside a schema
+ * upgrade. Each runs once per browser; add an entry with a new id to run a rebuild again.
+ */
+const backfills: { id: string; run: () => Promise<void> }[] = [
+    { id: 'dailyStats-from-sessions', run: rebuildDailyStats },
+    { id: 'dailyStats-local-days', run: rebuildDailyStats }, // days were UTC before
+    { id: 'streaks-from-sessions', run: updateStreak },
+    { id: 'streak-segments', run: updateStreak },
+];
+
+/**
+ * Run pending backfills; call once the database is readable (after unlock when encrypted)
+ */
+export async function runBackfills(): Promise<void> {
+    const setting = await db.settings.get(BACKFILLS_SETTING);
+    const done = (setting?.value as string[] | undefined) ?? [];
+
+    for (const backfill of backfills.filter(b => !done.includes(b.id))) {
+        await backfill.run();
+        done.push(backfill.id);
+        await db.settings.put({ key: BACKFILLS_SETTING, value: done });
     }
 }
 
-export async function updateStreak(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-    let streak = await db.streaks.orderBy('id').last();
-
-    if (streak) {
-        if (streak.lastActiveDate === today) {
-            // Already worked out today, no update needed
-            return;
-        } else if (streak.lastActiveDate === yesterday) {
-            // Continuing streak
-            streak.currentStreak += 1;
-            streak.lastActiveDate = today;
-            if (streak.currentStreak > streak.longestStreak) {
-                streak.longestStreak = streak.currentStreak;
+// FHIR export
+
+/**
+ * Local id of the exported FHIR Patient, created on the first export and reused after that,
+ * so a receiving system can tell that two exports describe the same person
+ */
+export async function getFhirPatientId(): Promise<string> {
+    return db.transaction('rw', db.settings, async () => {
+        const setting = await db.settings.get(FHIR_PATIENT_SETTING);
+        if (typeof setting?.value === 'string') return setting.value;
+
+        const id = uuidv4();
+        await db.settings.put({ key: FHIR_PATIENT_SETTING, value: id });
+        return id;
+    });
+}
+
+// Streaks
+
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const FREEZE_EARN_DAYS = 7; // workout days in a run that earn one freeze
+export const MAX_FREEZES = 2;
+
+/**
+ * Walk the calendar from the first workout to today. Rest days outside the schedule never
+ * break a run; a missed training day spends a freeze if one is banked, otherwise it closes the
+ * segment. Today's training day is still open, so it can't break anything yet.
+ */
+export function computeStreakHistory(
+    activeDays: string[],
+    trainingDays: number[] = EVERY_DAY,
+    today: string = toDateKey(new Date())
+): { segments: StreakSegment[]; streak: StreakData | null } {
+    const active = new Set(activeDays);
+    const days = Array.from(active).sort();
+    if (days.length === 0) return { segments: [], streak: null };
+
+    const segments: StreakSegment[] = [];
+    let segment: StreakSegment | null = null;
+    let freezes = 0;
+    let sinceFreeze = 0;
+    const lastDay = days[days.length - 1] > today ? days[days.length - 1] : today;
+
+    for (let day = days[0]; day <= lastDay; day = addDays(day, 1)) {
+        if (active.has(day)) {
+            if (!segment) {
+                segment = { startDate: day, endDate: day, activeDays: 0, frozenDays: [] };
+                segments.push(segment);
+            }
+            segment.endDate = day;
+            segment.activeDays++;
+            if (++sinceFreeze === FREEZE_EARN_DAYS) {
+                freezes = Math.min(MAX_FREEZES, freezes + 1);
+                sinceFreeze = 0;
+            }
+        } else if (segment && day < today && trainingDays.includes(fromDateKey(day).getDay())) {
+            if (freezes > 0) {
+                freezes--;
+                segment.frozenDays.push(day);
+            } else {
+                segment = null;
+                sinceFreeze = 0;
             }
-            await db.streaks.put(streak);
-        } else {
-            // Streak broken, start new
-            await db.streaks.add({
-                lastActiveDate: today,
-                currentStreak: 1,
-                longestStreak: streak.longestStreak
-            });
         }
-    } else {
-        // First workout ever
-        await db.streaks.add({
-            lastActiveDate: today,
-            currentStreak: 1,
-            longestStreak: 1
-        });
     }
+
+    const current = segment;
+    return {
+        segments,
+        streak: {
+            lastActiveDate: days[days.length - 1],
+            currentStreak: current?.activeDays ?? 0,
+            longestStreak: Math.max(...segments.map(s => s.activeDays)),
+            freezesAvailable: current ? freezes : 0,
+            frozenDays: current?.frozenDays ?? [],
+            trainingDays,
+        },
+    };
 }
 
-export async function getCurrentStreak(): Promise<StreakData | null> {
-    const streak = await db.streaks.orderBy('id').last();
-    if (!streak) return null;
+// Session dates are indexed, so this works without decrypting anything
+async function getActiveDays(): Promise<string[]> {
+    const dates = await db.sessions.orderBy('date').keys();
+    return (dates as Date[]).map(date => toDateKey(new Date(date)));
+}
 
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+export async function getStreakSchedule(): Promise<number[]> {
+    const setting = await db.settings.get(STREAK_SCHEDULE_SETTING);
+    return (setting?.value as number[] | undefined) ?? EVERY_DAY;
+}
 
-    // Check if streak is still valid
-    if (streak.lastActiveDate !== today && streak.lastActiveDate !== yesterday) {
-        return { ...streak, currentStreak: 0 };
-    }
+/**
+ * Set the weekly training days (0 = Sunday) and re-evaluate the streak history under them
+ */
+export async function setStreakSchedule(trainingDays: number[]): Promise<void> {
+    if (trainingDays.length === 0) throw new Error('Pick at least one training day');
+    await db.settings.put({ key: STREAK_SCHEDULE_SETTING, value: [...trainingDays].sort() });
+    await updateStreak();
+}
 
-    return streak;
+/**
+ * Recompute streak segments from session history and store them
+ */
+export async function updateStreak(): Promise<void> {
+    const { segments } = computeStreakHistory(await getActiveDays(), await getStreakSchedule());
+    await db.transaction('rw', db.streaks, async () => {
+        await db.streaks.clear();
+        await db.streaks.bulkAdd(segments);
+    });
 }
 
-export async function getWeeklyStats(): Promise<DailyStats[]> {
-    const endDate = new Date();
-    const startDate = new Date(Date.now() - 7 * 86400000);
+export async function getCurrentStreak(): Promise<StreakData | null> {
+    return computeStreakHistory(await getActiveDays(), await getStreakSchedule()).streak;
+}
 
-    const startStr = startDate.toISOString().split('T')[0];
-    const endStr = endDate.toISOString().split('T')[0];
+export async function getStreakSegments(): Promise<StreakSegment[]> {
+    return db.streaks.orderBy('startDate').toArray();
+}
 
-    return db.dailyStats
+export async function getWeeklyStats(): Promise<DailyStats[]> {
+    const endStr = toDateKey(new Date());
+    const startStr = addDays(endStr, -7);
+
+    return openRecords(await db.dailyStats
         .where('date')
         .between(startStr, endStr, true, true)
-        .toArray();
+        .toArray());
 }
 
 export async function getMonthlyStats(): Promise<DailyStats[]> {
-    const endDate = new Date();
-    const startDate = new Date(Date.now() - 30 * 86400000);
+    const endStr = toDateKey(new Date());
+    const startStr = addDays(endStr, -30);
 
-    const startStr = startDate.toISOString().split('T')[0];
-    const endStr = endDate.toISOString().split('T')[0];
-
-    return db.dailyStats
+    return openRecords(await db.dailyStats
         .where('date')
         .between(startStr, endStr, true, true)
-        .toArray();
+        .toArray());
+}
+
+export async function getAllDailyStats(): Promise<DailyStats[]> {
+    return openRecords(await db.dailyStats.orderBy('date').toArray());
 }
 
 export async function getSessionsByExercise(exerciseId: string): Promise<WorkoutSession[]> {
-    return db.sessions.where('exerciseId').equals(exerciseId).toArray();
+    return openRecords(await db.sessions.where('exerciseId').equals(exerciseId).toArray());
 }
 
 export async function getAllSessions(): Promise<WorkoutSession[]> {
-    return db.sessions.orderBy('date').reverse().toArray();
+    return openRecords(await db.sessions.orderBy('date').reverse().toArray());
 }
 
 export async function getTodaysSessions(): Promise<WorkoutSession[]> {
@@ -151,8 +489,295 @@ export async function getTodaysSessions(): Promise<WorkoutSession[]> {
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    return db.sessions
+    return openRecords(await db.sessions
         .where('date')
         .between(today, tomorrow, true, false)
-        .toArray();
+        .toArray());
+}
+
+// Progress reports
+
+async function getSessionsBetween(start: Date, end: Date): Promise<WorkoutSession[]> {
+    return openRecords(await db.sessions.where('date').between(start, end, true, true).toArray());
+}
+
+function averageFormScore(sessions: WorkoutSession[]): number {
+    return sessions.length > 0
+        ? Math.round(sessions.reduce((acc, s) => acc + s.formScore, 0) / sessions.length)
+        : 0;
+}
+
+/**
+ * Build the report for the week (7 days) or month (30 days) ending on endDate.
+ * improvement is the change in average form score against the period just before it.
+ */
+export async function buildReport(period: ReportData['period'], endDate: Date = new Date()): Promise<ReportData> {
+    const days = period === 'week' ? 7 : 30;
+    const end = new Date(endDate);
+    end.setHours(23, 59, 59, 999);
+    const start = new Date(end);
+    start.setDate(start.getDate() - days + 1);
+    start.setHours(0, 0, 0, 0);
+    const previousStart = new Date(start);
+    previousStart.setDate(previousStart.getDate() - days);
+
+    const [sessions, previous, dailyData] = await Promise.all([
+        getSessionsBetween(start, end),
+        getSessionsBetween(previousStart, new Date(start.getTime() - 1)),
+        db.dailyStats.where('date').between(toDateKey(start), toDateKey(end), true, true).toArray().then(openRecords),
+    ]);
+
+    const byExercise = new Map<string, WorkoutSession[]>();
+    sessions.forEach(s => byExercise.set(s.exerciseId, [...(byExercise.get(s.exerciseId) ?? []), s]));
+
+    // Longest run of consecutive active days inside the period
+    const activeDays = new Set(sessions.map(s => toDateKey(new Date(s.date))));
+    let streakDays = 0;
+    let run = 0;
+    for (const day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+        run = activeDays.has(toDateKey(day)) ? run + 1 : 0;
+        streakDays = Math.max(streakDays, run);
+    }
+
+    const avgFormScore = averageFormScore(sessions);
+    const previousFormScore = averageFormScore(previous);
+
+    return {
+        period,
+        startDate: toDateKey(start),
+        endDate: toDateKey(end),
+        totalWorkouts: sessions.length,
+        totalReps: sessions.reduce((acc, s) => acc + s.reps, 0),
+        totalDuration: sessions.reduce((acc, s) => acc + s.duration, 0),
+        avgFormScore,
+        exerciseBreakdown: Array.from(byExercise.entries()).map(([exerciseId, list]) => ({
+            exerciseId,
+            reps: list.reduce((acc, s) => acc + s.reps, 0),
+            avgScore: averageFormScore(list),
+        })),
+        streakDays,
+        improvement: previous.length > 0 && previousFormScore > 0
+            ? Math.round(((avgFormScore - previousFormScore) / previousFormScore) * 100)
+            : 0,
+        dailyData,
+        outcomeSessions: sessions.filter(s => hasOutcomes(s.outcomes)),
+        painCorrelation: correlatePain(sessions),
+    };
+}
+
+// Per-rep analytics
+
+export async function getSessionReps(sessionId: number): Promise<RepRecord[]> {
+    const reps = await openRecords(await db.reps.where('sessionId').equals(sessionId).toArray());
+    return reps.sort((a, b) => a.rep - b.rep);
+}
+
+export async function getAllRepRecords(): Promise<RepRecord[]> {
+    return openRecords(await db.reps.toArray());
+}
+
+// Pain event log
+
+export async function getSessionPainEvents(sessionId: number): Promise<PainEventRecord[]> {
+    const events = await openRecords(await db.painEvents.where('sessionId').equals(sessionId).toArray());
+    return events.sort((a, b) => a.startTime - b.startTime);
+}
+
+export async function getAllPainEvents(): Promise<PainEventRecord[]> {
+    return openRecords(await db.painEvents.toArray());
+}
+
+// Range-of-motion assessments
+
+export async function saveRomAssessment(measurements: RomMeasurement[]): Promise<void> {
+    await db.romMeasurements.bulkAdd(await Promise.all(measurements.map(m => sealRecord(db.romMeasurements, m))));
+}
+
+export async function getAllRomMeasurements(): Promise<RomMeasurement[]> {
+    return openRecords(await db.romMeasurements.orderBy('date').toArray());
+}
+
+// Calibration profile
+
+// One person per browser, so a single profile
+const CALIBRATION_PROFILE_ID = 'default';
+
+export async function getCalibrationProfile(): Promise<CalibrationProfile | null> {
+    const stored = await db.calibrationProfiles.get(CALIBRATION_PROFILE_ID);
+    return stored ? (await openRecords([stored]))[0] : null;
+}
+
+/**
+ * Store a full calibration. Segments out of view this time keep their previous length, and a skipped
+ * T-pose keeps the previous body measurements.
+ */
+export async function saveCalibrationProfile(
+    face: CalibrationBaseline,
+    segments: BodySegments,
+    camera: CameraContext | null,
+    anthropometry: Anthropometry | null = null
+): Promise<CalibrationProfile> {
+    const previous = await getCalibrationProfile();
+    const now = Date.now();
+    const profile: CalibrationProfile = {
+        id: CALIBRATION_PROFILE_ID,
+        face,
+        segments: { ...previous?.segments, ...segments },
+        camera: camera ?? previous?.camera ?? null,
+        anthropometry: anthropometry ?? previous?.anthropometry,
+        calibratedAt: now,
+        verifiedAt: now,
+    };
+    await db.calibrationProfiles.put(await sealRecord(db.calibrationProfiles, profile));
+    return profile;
+}
+
+/**
+ * Refresh the verification date, adding body measurements if the verified profile had none
+ */
+export async function markCalibrationVerified(anthropometry: Anthropometry | null = null): Promise<CalibrationProfile | null> {
+    const stored = await getCalibrationProfile();
+    if (!stored) return null;
+    const profile: CalibrationProfile = {
+        ...stored,
+        anthropometry: anthropometry ?? stored.anthropometry,
+        verifiedAt: Date.now(),
+    };
+    await db.calibrationProfiles.put(await sealRecord(db.calibrationProfiles, profile));
+    return profile;
+}
+
+export async function clearCalibrationProfile(): Promise<void> {
+    await db.calibrationProfiles.delete(CALIBRATION_PROFILE_ID);
+}
+
+// Workout programs
+
+/**
+ * The program in progress; one that has run past its last day is marked completed
+ */
+export async function getActiveProgram(): Promise<WorkoutProgram | undefined> {
+    const program = await db.programs.where('status').equals('active').first();
+    if (program && isProgramFinished(program)) {
+        await db.programs.update(program.id, { status: 'completed' });
+        return undefined;
+    }
+    return program;
+}
+
+export async function getAllPrograms(): Promise<WorkoutProgram[]> {
+    return db.programs.toArray();
+}
+
+/**
+ * Start a fresh copy of a template today, stopping whatever program was active
+ */
+export async function startProgram(template: ProgramTemplate): Promise<WorkoutProgram> {
+    const program: WorkoutProgram = {
+        ...JSON.parse(JSON.stringify(template)),
+        id: uuidv4(),
+        templateId: template.id,
+        startDate: toDateKey(new Date()),
+        status: 'active',
+    };
+    await db.transaction('rw', db.programs, async () => {
+        await db.programs.where('status').equals('active').modify({ status: 'stopped' });
+        await db.programs.add(program);
+    });
+    return program;
+}
+
+export async function stopProgram(id: string): Promise<void> {
+    await db.programs.update(id, { status: 'stopped' });
+}
+
+export async function getPlanCompletions(programId: string): Promise<PlanCompletion[]> {
+    const completions = await openRecords(await db.planCompletions.where('programId').equals(programId).toArray());
+    return completions.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Tick today's plan with a saved session. Each guided set that reaches the item's target counts as
+ * one set, and a session without sets counts as a single one; the item's progression rule is then
+ * checked and may raise the program's targets.
+ */
+export async function recordPlanProgress(sessionId: number, session: Omit<WorkoutSession, 'id'>): Promise<PlanProgress | null> {
+    const program = await getActiveProgram();
+    if (!program) return null;
+
+    const date = toDateKey(new Date(session.date));
+    const completions = await getPlanCompletions(program.id);
+    const plan = getTodaysPlan(program, completions, date);
+    const status = plan && matchPlanItem(plan, session.exerciseId);
+    if (!plan || !status) return null;
+
+    const { item } = status;
+    const sets = session.sets ?? [{ set: 1, reps: session.reps, formScore: session.formScore }];
+    const added: PlanCompletion[] = sets
+        .filter(set => set.reps >= item.targetReps)
+        .slice(0, item.sets - status.setsDone)
+        .map(set => ({
+            programId: program.id,
+            date,
+            dayIndex: plan.dayIndex,
+            itemIndex: status.itemIndex,
+            exerciseId: session.exerciseId,
+            sessionId,
+            set: set.set,
+            target: item.targetReps,
+            reps: set.reps,
+            formScore: set.formScore,
+        }));
+    if (added.length === 0) {
+        return { item, setsCounted: 0, setsDone: status.setsDone, isComplete: false, progressedTo: null };
+    }
+
+    const sealed = await Promise.all(added.map(c => sealRecord(db.planCompletions, c)));
+    await db.planCompletions.bulkAdd(sealed);
+
+    const history = [...completions, ...added];
+    const progressedTo = nextTarget(getProgressionRule(program, item), item, history);
+    if (progressedTo !== null) {
+        await db.programs.put(applyProgression(program, session.exerciseId, history));
+    }
+
+    const setsDone = status.setsDone + added.length;
+    return { item, setsCounted: added.length, setsDone, isComplete: setsDone >= item.sets, progressedTo };
+}
+
+// Custom exercises
+
+export async function loadCustomExercises(): Promise<ExerciseDefinition[]> {
+    const definitions = await db.customExercises.orderBy('name').toArray();
+    setCustomExercises(definitions);
+    return definitions;
+}
+
+export async function saveCustomExercise(definition: ExerciseDefinition): Promise<string> {
+    const id = await db.customExercises.put({ ...definition, isCustom: true });
+    await loadCustomExercises();
+    return id;
+}
+
+export async function deleteCustomExercise(id: string): Promise<void> {
+    await db.customExercises.delete(id);
+    await loadCustomExercises();
+}
+
+// Gold standard reference motions
+
+export async function saveGoldStandard(sequence: GoldStandardSequence): Promise<string> {
+    return db.goldStandards.put(sequence);
+}
+
+export async function getGoldStandard(exerciseId: string): Promise<GoldStandardSequence | undefined> {
+    return db.goldStandards.get(exerciseId);
+}
+
+export async function getAllGoldStandards(): Promise<GoldStandardSequence[]> {
+    return db.goldStandards.toArray();
+}
+
+export async function deleteGoldStandard(exerciseId: string): Promise<void> {
+    await db.goldStandards.delete(exerciseId);
 }
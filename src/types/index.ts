@@ -54,6 +54,36 @@ export interface PoseData {
 // Exercise phase states
 export type ExercisePhase = 'IDLE' | 'DOWN' | 'UP' | 'HOLD' | 'COMPLETE';
 
+// Left-side [proximal, vertex, distal] landmarks of a joint angle (right side is mirrored)
+export type LandmarkTriplet = [PoseLandmark, PoseLandmark, PoseLandmark];
+
+// Which body side(s) contribute to the primary angle
+export type SidePolicy = 'left' | 'right' | 'bilateral' | 'most-visible';
+
+// How two visible sides are combined under the 'bilateral' policy
+export type AngleAggregation = 'mean' | 'min' | 'max';
+
+// Joint angle that drives phase detection and rep counting
+export interface PrimaryAngleDefinition {
+  landmarks: LandmarkTriplet;
+  sidePolicy: SidePolicy;
+  aggregation: AngleAggregation;
+  minVisibility: number; // 0-1, lowest landmark visibility accepted per side
+}
+
+// Whether a rep starts by closing the joint angle, opening it, or holding it
+export type PhaseDirection = 'flexion-first' | 'extension-first' | 'isometric';
+
+// Representation DTW compares frames in: normalized landmark positions or joint angles only
+export type FeatureSpace = 'position' | 'angles';
+
+// Primary joint angle trace recorded while a clinician demonstrates the exercise
+export interface ReferenceMotion {
+  timestamps: number[]; // ms since the recording started
+  angles: number[]; // smoothed primary angle in degrees
+  recordedAt: Date;
+}
+
 // Exercise definition
 export interface ExerciseDefinition {
   id: string;
@@ -64,11 +94,17 @@ export interface ExerciseDefinition {
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   primaryMuscles: string[];
   keyLandmarks: PoseLandmark[];
+  primaryAngle: PrimaryAngleDefinition;
+  phaseDirection: PhaseDirection;
   downAngleThreshold: number;
   upAngleThreshold: number;
+  hysteresis: number; // degrees of slack on thresholds (tolerance around the hold angle when isometric)
   formCriteria: FormCriterion[];
   instructions: string[];
   benefits: string[];
+  isCustom?: boolean; // authored in the custom exercise builder
+  referenceMotion?: ReferenceMotion; // recorded in teach mode
+  featureSpace?: FeatureSpace; // DTW feature space, 'position' when omitted
 }
 
 // Form validation criterion
@@ -80,6 +116,16 @@ export interface FormCriterion {
   weight: number; // Importance weight 0-1
 }
 
+// Per-frame outcome of one executable form criterion
+export interface CriterionResult {
+  criterionId: string;
+  name: string;
+  score: number; // 0-100
+  weight: number;
+  message?: string;
+  joints: PoseLandmark[];
+}
+
 // Joint stress levels for avatar visualization
 export interface JointStress {
   jointId: PoseLandmark;
@@ -87,6 +133,31 @@ export interface JointStress {
   message?: string;
 }
 
+// DTW comparison of one counted rep against the gold standard
+export interface RepQuality {
+  rep: number;
+  qualityScore: number; // 0-100
+  normalizedDistance: number;
+  alignmentPath: [number, number][]; // [userFrame, goldFrame] pairs
+}
+
+// Per-rep analytics collected between countRep boundaries
+export interface RepMetrics {
+  rep: number;
+  startTime: number; // pose timestamp (ms) of the last rest frame before the rep
+  endTime: number; // pose timestamp (ms) when the rep was counted
+  minAngle: number;
+  maxAngle: number;
+  rangeOfMotion: number; // degrees
+  concentricMs: number;
+  eccentricMs: number;
+  peakAngularVelocity: number; // deg/s
+  symmetryScore: number; // mean over the rep, 0-100
+  formScore: number; // mean over the rep, 0-100
+  painLevel: number; // peak smoothed pain during the rep, 0-100
+  qualityScore?: number; // DTW movement quality, when a gold standard was available
+}
+
 // Real-time exercise state
 export interface ExerciseState {
   exerciseId: string;
@@ -94,6 +165,10 @@ export interface ExerciseState {
   repCount: number;
   currentAngle: number;
   formScore: number;
+  criteria: CriterionResult[];
+  qualityScore: number | null; // mean movement quality over compared reps, null without a gold standard
+  repQuality: RepQuality[];
+  repMetrics: RepMetrics[];
   jointStress: JointStress[];
   startTime: number;
   lastRepTime?: number;
@@ -105,6 +180,8 @@ export interface ExerciseState {
   painAnalysis: PainAnalysis;
   safetyLog: SafetyLog;
   isCalibrating: boolean;
+  calibrationMode: 'calibrate' | 'verify' | 'body'; // verify checks a stored profile in a shorter window; body waits for a T-pose
+  calibrationDrift: string[]; // why a stored profile failed verification and is being replaced
   calibrationProgress: number; // 0-100
 }
 
@@ -116,8 +193,124 @@ export interface WorkoutSession {
   reps: number;
   formScore: number;
   duration: number; // seconds
+  qualityScore?: number; // mean DTW movement quality, when a gold standard was available
+  repQualityScores?: number[];
+  timeWeightedFormScore?: number; // mean over active frames, weighted by frame duration
+  repWeightedFormScore?: number; // mean of per-rep form scores
+  activeDuration?: number; // seconds with the tracked joint in view
+  cameraPainMean?: number; // time-weighted painAnalysis.pain_score_raw, 0-10
+  cameraPainPeak?: number; // highest painAnalysis.pain_score_raw, 0-10
+  outcomes?: SessionOutcomes;
   calories?: number;
   feedback?: string[];
+  sets?: SetRecord[]; // guided mode set boundaries, in order
+  safetyHalts?: SafetyHalt[]; // HALT_WORKOUT stops and how each was recovered from
+}
+
+// Patient-reported outcomes around a session; every answer is optional
+export interface SessionOutcomes {
+  painBefore?: number; // NPRS 0-10
+  painAfter?: number; // NPRS 0-10
+  rpe?: number; // Borg RPE 6-20
+  notes?: string;
+}
+
+// Self-reported pain after a session against the camera estimate, over sessions that have both
+export interface PainCorrelation {
+  pairs: number;
+  meanR: number | null; // Pearson r with cameraPainMean; null with too few pairs or no variance
+  peakR: number | null; // Pearson r with cameraPainPeak
+}
+
+// One set of a guided session; its reps follow those of the sets before it in repMetrics
+export interface SetRecord {
+  set: number;
+  reps: number;
+  target: number;
+  formScore: number;
+  duration: number; // seconds
+}
+
+// Recovery after a HALT_WORKOUT safety stop: rest, check in, then resume, switch or end
+export type HaltRecoveryStep = 'halted' | 'rested' | 'checked-in' | 'resumed' | 'switched' | 'ended';
+
+export interface HaltRecoveryEntry {
+  step: HaltRecoveryStep;
+  at: number; // epoch ms
+  painScore?: number; // checked-in: NPRS 0-10
+  target?: number; // resumed: rep count (or seconds) the set now ends at
+  exerciseId?: string; // switched: the easier exercise
+}
+
+export interface SafetyHalt {
+  reason: string;
+  set: number; // 1-based; always 1 without guided sets
+  rep: number; // reps completed in the set when it halted
+  steps: HaltRecoveryEntry[];
+}
+
+// What the engine hands over for persistence when a session ends
+export interface SessionSummary extends Omit<WorkoutSession, 'id'> {
+  repMetrics: RepMetrics[];
+  painEvents: PainEvent[];
+}
+
+// One stored rep, keyed by the session it belongs to
+export interface RepRecord extends RepMetrics {
+  id?: number;
+  sessionId: number;
+  exerciseId: string;
+  date: Date;
+}
+
+// A high-effort episode, pain alert or safety halt during a session
+export type PainEventKind = 'effort' | 'pain-alert' | 'halt';
+
+export interface PainEvent {
+  kind: PainEventKind;
+  startTime: number; // pose timestamp (ms) when the episode began
+  endTime: number; // pose timestamp (ms) of its last frame; a halt is a single frame
+  rep: number; // reps completed when it began
+  jointAngle: number; // tracked joint angle when it began, degrees
+  peakPainScore: number; // highest raw pain score over the episode, 0-10
+  intensity: PainAnalysis['intensity_level']; // at the peak
+  actionUnits: string[]; // every facial action unit that triggered during the episode
+}
+
+// One stored pain event, keyed by the session it belongs to
+export interface PainEventRecord extends PainEvent {
+  id?: number;
+  sessionId: number;
+  exerciseId: string;
+  date: Date;
+}
+
+// Range-of-motion assessment
+export type RomJoint = 'shoulder' | 'elbow' | 'hip' | 'knee';
+
+// How the joint's interior angle maps to the goniometric reading
+// direct: as measured; flexion: 180 - angle (0 = straight); extension: angle - 180 (negative = extension lag)
+export type RomConvention = 'direct' | 'flexion' | 'extension';
+
+export interface RomTestDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  joint: RomJoint;
+  convention: RomConvention;
+  cameraView: 'front' | 'side';
+  normalRange: number; // typical adult active ROM, degrees
+  instructions: string[];
+}
+
+export interface RomMeasurement {
+  id?: number;
+  assessmentId: string; // groups the measurements taken in one sitting
+  date: Date;
+  testId: string;
+  side: 'left' | 'right';
+  peakAngle: number; // degrees, goniometric convention
+  normalRange: number;
 }
 
 // Daily statistics
@@ -132,10 +325,92 @@ export interface DailyStats {
 
 // Streak data
 export interface StreakData {
-  id?: number;
   lastActiveDate: string;
-  currentStreak: number;
+  currentStreak: number; // workout days in the unbroken current run
   longestStreak: number;
+  freezesAvailable: number;
+  frozenDays: string[]; // missed training days a freeze covered in the current run
+  trainingDays: number[]; // 0 = Sunday ... 6 = Saturday, as Date.getDay()
+}
+
+// One unbroken run of training, kept as streak history
+export interface StreakSegment {
+  id?: number;
+  startDate: string; // first workout day
+  endDate: string; // last workout day
+  activeDays: number;
+  frozenDays: string[];
+}
+
+// Workout programs
+export interface ProgressionRule {
+  minFormScore: number; // every set of the last `sessions` sessions must score at least this
+  sessions: number;
+  increment: number; // added to the target (reps, or seconds for holds)
+  maxTarget: number;
+}
+
+export interface ProgramItem {
+  exerciseId: string;
+  sets: number;
+  targetReps: number; // per set; seconds held for isometric exercises
+  restSeconds: number; // between sets
+  progression?: ProgressionRule; // overrides the program's rule
+}
+
+export interface ProgramDay {
+  name: string;
+  items: ProgramItem[]; // in order; empty on rest days
+}
+
+export interface ProgramTemplate {
+  id: string;
+  name: string;
+  description: string;
+  days: ProgramDay[]; // day i of the program falls i days after it starts
+  progression: ProgressionRule;
+}
+
+export type ProgramStatus = 'active' | 'completed' | 'stopped';
+
+// A patient's own copy of a template; progression rewrites its targets
+export interface WorkoutProgram extends ProgramTemplate {
+  templateId: string;
+  startDate: string; // YYYY-MM-DD, local
+  status: ProgramStatus;
+}
+
+// One set of a plan item, ticked by a finished session
+export interface PlanCompletion {
+  id?: number;
+  programId: string;
+  date: string; // YYYY-MM-DD, local
+  dayIndex: number;
+  itemIndex: number;
+  exerciseId: string;
+  sessionId: number;
+  set: number; // set within the session; 1 when it had no guided sets
+  target: number; // targetReps in force at the time
+  reps: number;
+  formScore: number;
+}
+
+// Key-value app settings stored alongside the data
+export interface AppSetting {
+  key: string;
+  value: unknown;
+}
+
+// Encryption at rest
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+export interface EncryptionConfig {
+  salt: string; // base64 PBKDF2 salt
+  iterations: number;
+  verifier: EncryptedPayload; // a known value sealed with the key, to check a passphrase
 }
 
 // Gold standard pose sequence for DTW
@@ -147,8 +422,10 @@ export interface GoldStandardFrame {
 
 export interface GoldStandardSequence {
   exerciseId: string;
-  frames: GoldStandardFrame[];
+  frames: GoldStandardFrame[]; // hip-centred, torso-scaled, resampled to a fixed frame rate
   duration: number;
+  recordedAt?: Date;
+  source?: 'recorded' | 'imported' | 'bundled';
 }
 
 // DTW comparison result
@@ -169,6 +446,51 @@ export interface PainAnalysis {
   pain_score_raw: number; // 0-10 scale
 }
 
+// Neutral-expression facial geometry the pain thresholds are scaled from
+export interface CalibrationBaseline {
+  eyeDist: number;
+  eyeNoseRatio: number;
+  eyeNarrowRatio: number;
+  mouthNoseRatio: number;
+  mouthWidthRatio: number;
+}
+
+export type BodySegment = 'upperArm' | 'forearm' | 'thigh' | 'shin' | 'torso';
+
+// Mean of left and right, in image-height units; segments out of view are left out
+export type BodySegments = Partial<Record<BodySegment, number>>;
+
+// The camera and lighting a calibration was taken under
+export interface CameraContext {
+  deviceLabel: string; // empty when the browser withholds it
+  width: number; // capture resolution, px
+  height: number;
+  brightness: number; // mean luma of the frame, 0-255
+}
+
+// Body measurements from the T-pose step, in image-height units at capture unless noted
+export interface Anthropometry {
+  stature: number; // estimated standing height; the unit body-relative distances are expressed in
+  shoulderWidth: number;
+  hipWidth: number;
+  armSpan: number; // wrist to wrist
+  footLength: number; // heel to toe
+  segments: BodySegments; // the stature is scaled by these when the person moves nearer or further
+  cameraDistance: number; // metres, estimated for an average adult height and a typical webcam
+  capturedAt: number; // epoch ms
+}
+
+// Calibration kept across sessions; each start only verifies it
+export interface CalibrationProfile {
+  id: string;
+  face: CalibrationBaseline;
+  segments: BodySegments;
+  camera: CameraContext | null;
+  anthropometry?: Anthropometry; // absent until a T-pose has been captured
+  calibratedAt: number; // epoch ms; kept as numbers since the record is sealed as JSON
+  verifiedAt: number;
+}
+
 // Beginner-friendly Safety Log (RCAFT)
 export interface SafetyLog {
   status: 'Scanning' | 'Effort Detected' | 'PAIN ALERT' | 'Calibrating';
@@ -201,4 +523,6 @@ export interface ReportData {
   streakDays: number;
   improvement: number; // percentage improvement from previous period
   dailyData: DailyStats[];
+  outcomeSessions: WorkoutSession[]; // sessions in the period with patient-reported outcomes, oldest first
+  painCorrelation: PainCorrelation;
 }
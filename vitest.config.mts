@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+    },
+    test: {
+        environment: 'node',
+        include: ['src/**/*.test.ts'],
+        setupFiles: ['fake-indexeddb/auto'],
+        // Time zone tests switch process.env.TZ, which worker threads would share
+        pool: 'forks',
+    },
+});